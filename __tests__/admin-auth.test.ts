@@ -0,0 +1,173 @@
+// __tests__/admin-auth.test.ts
+import { NextRequest } from 'next/server';
+
+jest.mock('../src/lib/server-storage', () => {
+  const { LocalStorage, MemoryStorage } = jest.requireActual('../src/lib/local-storage');
+  return { serverStorage: new LocalStorage(new MemoryStorage()) };
+});
+
+import { ADMIN_SESSION_COOKIE, getAdminCredential, getClientIp, withAdmin, withScope } from '../src/lib/admin-auth';
+import { POST as login } from '../src/app/api/auth/login/route';
+import { adminSessions } from '../src/lib/admin-session';
+import { apiTokens } from '../src/lib/api-tokens';
+import { verifyPassword } from '../src/lib/password-hash';
+
+describe('admin auth', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getAdminCredential', () => {
+    it('should prefer ADMIN_PASSWORD_HASH', async () => {
+      const hash = 'scrypt:1024:8:1:c2FsdHNhbHRzYWx0c2FsdA==:lNXnVybcIF/Evabjfgr/kT4aLfRHtg07fmRoRNiigew=';
+
+      await expect(getAdminCredential({ ADMIN_PASSWORD_HASH: hash, ADMIN_PASSWORD: 'other' })).resolves.toBe(hash);
+      expect(getAdminCredential({ ADMIN_PASSWORD_HASH: 'makerspace' })).toBeNull();
+    });
+
+    it('should hash a plaintext ADMIN_PASSWORD in memory', async () => {
+      const hash = await getAdminCredential({ ADMIN_PASSWORD: 'makerspace2024' });
+
+      await expect(verifyPassword('makerspace2024', hash as string)).resolves.toBe(true);
+    });
+
+    it('should be null when nothing is configured', () => {
+      expect(getAdminCredential({})).toBeNull();
+    });
+  });
+
+  describe('getClientIp', () => {
+    const request = (headers: Record<string, string>) => new NextRequest('http://localhost/api/auth/login', { headers });
+
+    it('should ignore forwarding headers unless proxies are trusted', () => {
+      expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.7' }), {})).toBe('unknown');
+      expect(getClientIp(request({ 'x-real-ip': '203.0.113.8' }), { TRUSTED_PROXY_HOPS: '0' })).toBe('unknown');
+    });
+
+    it('should take the rightmost hop the trusted proxies did not add', () => {
+      // The client sent "198.51.100.1" itself; the proxies appended the rest
+      const forwarded = request({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.0.0.1' });
+
+      expect(getClientIp(forwarded, { TRUSTED_PROXY_HOPS: '1' })).toBe('10.0.0.1');
+      expect(getClientIp(forwarded, { TRUSTED_PROXY_HOPS: '2' })).toBe('203.0.113.7');
+      expect(getClientIp(request({ 'x-real-ip': '203.0.113.8' }), { TRUSTED_PROXY_HOPS: '1' })).toBe('203.0.113.8');
+      expect(getClientIp(request({}), { TRUSTED_PROXY_HOPS: '1' })).toBe('unknown');
+    });
+  });
+
+  describe('POST /api/auth/login', () => {
+    const originalEnv = { ...process.env };
+    const attempt = (password: string, client: string) => login(new NextRequest('http://localhost/api/auth/login', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-forwarded-for': `${client}, 10.0.0.1` },
+      body: JSON.stringify({ password })
+    }));
+
+    beforeEach(() => {
+      process.env.ADMIN_PASSWORD_HASH = 'scrypt:1024:8:1:c2FsdHNhbHRzYWx0c2FsdA==:lNXnVybcIF/Evabjfgr/kT4aLfRHtg07fmRoRNiigew=';
+      process.env.TRUSTED_PROXY_HOPS = '2';
+    });
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    it('should be disabled until TRUSTED_PROXY_HOPS is configured', async () => {
+      delete process.env.TRUSTED_PROXY_HOPS;
+
+      expect((await attempt('makerspace', '203.0.113.1')).status).toBe(503);
+    });
+
+    it('should lock out one client without affecting another', async () => {
+      for (let i = 0; i < 5; i++) {
+        expect((await attempt('wrong', '203.0.113.2')).status).toBe(401);
+      }
+
+      expect((await attempt('makerspace', '203.0.113.2')).status).toBe(429);
+      expect((await attempt('makerspace', '203.0.113.3')).status).toBe(200);
+    });
+  });
+
+  describe('withAdmin', () => {
+    const handler = jest.fn(async () => Response.json({ success: true }));
+    const route = withAdmin(handler);
+
+    beforeEach(() => {
+      handler.mockClear();
+    });
+
+    it('should reject requests without a valid session', async () => {
+      const anonymous = await route(new NextRequest('http://localhost/api/admin/refresh'), undefined);
+      const forged = await route(new NextRequest('http://localhost/api/admin/refresh', {
+        headers: { cookie: `${ADMIN_SESSION_COOKIE}=forged` }
+      }), undefined);
+
+      expect(anonymous.status).toBe(401);
+      expect(forged.status).toBe(401);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should run the handler with the session', async () => {
+      const { token, session } = adminSessions.create('10.0.0.5');
+      const context = { params: Promise.resolve({ id: 'woodshop' }) };
+      const request = new NextRequest('http://localhost/api/admin/displays/woodshop', {
+        headers: { cookie: `${ADMIN_SESSION_COOKIE}=${token}` }
+      });
+
+      const response = await route(request, context);
+
+      expect(response.status).toBe(200);
+      expect(handler).toHaveBeenCalledWith(request, context, session);
+    });
+  });
+
+  describe('withScope', () => {
+    const handler = jest.fn(async () => Response.json({ success: true }));
+    const route = withScope('write:announcements', handler);
+    const request = (authorization: string) => new NextRequest('http://localhost/api/admin/announcements', {
+      headers: { authorization }
+    });
+
+    beforeEach(() => {
+      handler.mockClear();
+    });
+
+    it('should run the handler for a token with the scope', async () => {
+      const { token, secret } = apiTokens.create({ name: 'Announcer', scopes: ['write:announcements'] });
+
+      const response = await route(request(`Bearer ${secret}`), undefined);
+
+      expect(response.status).toBe(200);
+      expect(handler).toHaveBeenCalledWith(expect.anything(), undefined, {
+        type: 'token',
+        token: expect.objectContaining({ id: token.id })
+      });
+    });
+
+    it('should reject unknown tokens with 401 and missing scopes with 403', async () => {
+      const { secret } = apiTokens.create({ name: 'Status kiosk', scopes: ['read:status'] });
+
+      expect((await route(request('Bearer msd_forged'), undefined)).status).toBe(401);
+      expect((await route(request(`Bearer ${secret}`), undefined)).status).toBe(403);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the admin session without a bearer token', async () => {
+      const { token, session } = adminSessions.create('10.0.0.5');
+      const anonymous = await route(new NextRequest('http://localhost/api/admin/announcements'), undefined);
+      const signedIn = await route(new NextRequest('http://localhost/api/admin/announcements', {
+        headers: { cookie: `${ADMIN_SESSION_COOKIE}=${token}` }
+      }), undefined);
+
+      expect(anonymous.status).toBe(401);
+      expect(signedIn.status).toBe(200);
+      expect(handler).toHaveBeenCalledWith(expect.anything(), undefined, { type: 'session', session });
+    });
+  });
+});
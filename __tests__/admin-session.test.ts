@@ -0,0 +1,51 @@
+// __tests__/admin-session.test.ts
+import { AdminSessionStore, SESSION_TTL_MS } from '../src/lib/admin-session';
+import { LocalStorage, MemoryStorage } from '../src/lib/local-storage';
+
+describe('AdminSessionStore', () => {
+  const now = new Date('2025-08-11T14:00:00Z');
+  let adapter: MemoryStorage;
+  let sessions: AdminSessionStore;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    adapter = new MemoryStorage();
+    sessions = new AdminSessionStore(new LocalStorage(adapter));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should issue a session that survives a restart', () => {
+    const { token, session } = sessions.create('10.0.0.5', now);
+
+    expect(session).toMatchObject({ ip: '10.0.0.5', createdAt: '2025-08-11T14:00:00.000Z' });
+    expect(new AdminSessionStore(new LocalStorage(adapter)).get(token, now)).toEqual(session);
+    expect(sessions.get('not-a-token', now)).toBeNull();
+    expect(sessions.get(undefined, now)).toBeNull();
+  });
+
+  it('should store only a hash of the token', () => {
+    const { token } = sessions.create('10.0.0.5', now);
+
+    expect(adapter.keys().map(key => adapter.getItem(key)).join('')).not.toContain(token);
+  });
+
+  it('should expire sessions', () => {
+    const { token } = sessions.create('10.0.0.5', now);
+
+    expect(sessions.get(token, new Date(now.getTime() + SESSION_TTL_MS - 1))).not.toBeNull();
+    expect(sessions.get(token, new Date(now.getTime() + SESSION_TTL_MS))).toBeNull();
+  });
+
+  it('should revoke a single session on logout', () => {
+    const first = sessions.create('10.0.0.5', now);
+    const second = sessions.create('10.0.0.6', now);
+
+    expect(sessions.revoke(first.token)).toBe(true);
+    expect(sessions.revoke(first.token)).toBe(false);
+    expect(sessions.get(first.token, now)).toBeNull();
+    expect(sessions.get(second.token, now)).not.toBeNull();
+  });
+});
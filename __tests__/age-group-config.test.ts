@@ -0,0 +1,93 @@
+// __tests__/age-group-config.test.ts
+import { AgeGroupConfig, AgeGroupRuleInput } from '../src/lib/age-group-config';
+import { LocalStorage, MemoryStorage, StorageAdapter } from '../src/lib/local-storage';
+
+describe('AgeGroupConfig', () => {
+  const preschool: AgeGroupRuleInput = {
+    id: 'preschool',
+    label: 'Preschool (3-5)',
+    emoji: '🧸',
+    color: '#db2777',
+    patterns: ['Preschool', 'Ages?\\s*3[-\\s]*5']
+  };
+
+  let adapter: StorageAdapter;
+  let config: AgeGroupConfig;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    adapter = new MemoryStorage();
+    config = new AgeGroupConfig(new LocalStorage(adapter));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should start with the built-in rules', () => {
+    expect(config.getRules().map(r => r.id)).toEqual(['adults', 'elementary', 'allages', 'teens']);
+    expect(config.isCustomized()).toBe(false);
+  });
+
+  it('should create rules after the existing ones and persist them', () => {
+    const rule = config.create(preschool);
+
+    expect(rule.priority).toBe(5);
+    expect(config.getRules().map(r => r.id)).toEqual(['adults', 'elementary', 'allages', 'teens', 'preschool']);
+
+    // A fresh instance over the same storage sees the change
+    const reloaded = new AgeGroupConfig(new LocalStorage(adapter));
+    expect(reloaded.getRule('preschool')).toEqual(rule);
+    expect(reloaded.isCustomized()).toBe(true);
+  });
+
+  it('should update and delete rules', () => {
+    config.create(preschool);
+
+    const updated = config.update('preschool', { label: 'Little Makers (3-5)', priority: 0 });
+    expect(updated).toMatchObject({ id: 'preschool', label: 'Little Makers (3-5)', color: '#db2777', priority: 0 });
+    expect(config.getRules()[0].id).toBe('preschool');
+
+    expect(config.remove('preschool')).toBe(true);
+    expect(config.remove('preschool')).toBe(false);
+    expect(config.update('preschool', { label: 'x' })).toBeNull();
+  });
+
+  it('should reorder from a complete id list', () => {
+    expect(config.reorder(['teens', 'adults', 'elementary', 'allages'])).toBeNull();
+    expect(config.getRules().map(r => [r.id, r.priority])).toEqual([
+      ['teens', 1], ['adults', 2], ['elementary', 3], ['allages', 4]
+    ]);
+
+    expect(config.reorder(['teens', 'adults'])).toMatch(/every age group exactly once/);
+    expect(config.reorder(['teens', 'teens', 'adults', 'allages'])).toMatch(/every age group exactly once/);
+  });
+
+  it('should return a new rules array only when rules change', () => {
+    const before = config.getRules();
+    expect(config.getRules()).toBe(before);
+
+    config.create(preschool);
+    expect(config.getRules()).not.toBe(before);
+  });
+
+  it('should validate rules', () => {
+    expect(config.validate(preschool)).toEqual([]);
+    expect(config.validate({ ...preschool, id: 'adults' })).toEqual(['An age group with id "adults" already exists']);
+    expect(config.validate({ ...preschool, id: 'adults' }, 'adults')).toEqual([]);
+    expect(config.validate({ ...preschool, id: 'closed' })).toEqual(['id "closed" is reserved']);
+    expect(config.validate({ ...preschool, id: 'Pre School' })).toHaveLength(1);
+    expect(config.validate({ ...preschool, color: 'pink' })).toEqual(['color must be a hex color such as #1e40af']);
+    expect(config.validate({ ...preschool, patterns: [] })).toHaveLength(1);
+    expect(config.validate({ ...preschool, patterns: ['(unclosed'] })).toEqual(['Invalid pattern: (unclosed']);
+    expect(config.validate({})).toHaveLength(5);
+  });
+
+  it('should reset to the defaults', () => {
+    config.create(preschool);
+    config.reset();
+
+    expect(config.getRule('preschool')).toBeUndefined();
+    expect(config.isCustomized()).toBe(false);
+  });
+});
@@ -1,5 +1,6 @@
 // __tests__/age-group-detector.test.ts
-import { AgeGroupDetector } from '../src/lib/age-group-detector';
+import { AgeGroupDetector, DEFAULT_AGE_GROUP_RULES } from '../src/lib/age-group-detector';
+import { ProcessedEvent } from '../shared/types';
 
 describe('AgeGroupDetector', () => {
   let detector: AgeGroupDetector;
@@ -178,4 +179,130 @@ describe('AgeGroupDetector', () => {
       });
     });
   });
+
+  describe('configurable rules', () => {
+    const seniors = {
+      id: 'seniors',
+      label: 'Seniors (55+)',
+      emoji: '🧓',
+      color: '#0f766e',
+      patterns: ['Seniors?', '55\\+'],
+      priority: 0
+    };
+
+    it('should use custom rules in priority order', () => {
+      const custom = new AgeGroupDetector([...DEFAULT_AGE_GROUP_RULES, seniors]);
+
+      expect(custom.detectAgeGroup('Adults only: Seniors woodturning', '')).toEqual({
+        group: 'seniors',
+        emoji: '🧓',
+        label: 'Seniors (55+)',
+        color: '#0f766e'
+      });
+      expect(custom.getAllAgeGroups().map(g => g.group)).toEqual(['seniors', 'adults', 'elementary', 'allages', 'teens']);
+      expect(custom.getAgeGroupByName('seniors')?.label).toBe('Seniors (55+)');
+    });
+
+    it('should read rules from a provider on every call', () => {
+      let rules = DEFAULT_AGE_GROUP_RULES;
+      const live = new AgeGroupDetector(() => rules);
+
+      expect(live.detectAgeGroup('Seniors coffee hour', '').group).toBe('unknown');
+      rules = [...rules, seniors];
+      expect(live.detectAgeGroup('Seniors coffee hour', '').group).toBe('seniors');
+    });
+
+    it('should report which rule and pattern matched', () => {
+      expect(detector.detect('Teen robotics club', 'Bring a laptop')).toEqual({
+        ageGroup: { group: 'teens', emoji: '🧒', label: 'Teens (12-18)', color: '#ea580c' },
+        ageGroups: [{ group: 'teens', emoji: '🧒', label: 'Teens (12-18)', color: '#ea580c' }],
+        method: 'pattern',
+        ruleId: 'teens',
+        pattern: 'Teen.*robotics',
+        matchedText: 'Teen robotics'
+      });
+      expect(detector.detect('Board meeting')).toMatchObject({ method: 'default', ruleId: null, pattern: null, matchedText: null });
+    });
+
+    it('should skip invalid patterns instead of throwing', () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+      const broken = new AgeGroupDetector([{ ...seniors, patterns: ['(unclosed', 'Seniors'] }]);
+
+      expect(broken.detectAgeGroup('Seniors social', '').group).toBe('seniors');
+    });
+  });
+
+  describe('multiple age groups', () => {
+    it('should return every matching group with the highest priority first', () => {
+      const match = detector.detect('Teens & Adults Laser Cutting');
+
+      expect(match.ageGroup.group).toBe('adults');
+      expect(match.ageGroups.map(g => g.group)).toEqual(['adults', 'teens']);
+    });
+
+    it('should not read supervision notes as an adult audience', () => {
+      expect(detector.detect('Lego League - Ages 6-11', 'Adult supervision required').ageGroups.map(g => g.group))
+        .toEqual(['elementary']);
+    });
+
+    it('should combine several explicit tags in order', () => {
+      expect(detector.detect('Open Shop #age:teens #age:adults').ageGroups.map(g => g.group)).toEqual(['teens', 'adults']);
+      expect(detector.detect('Open Shop', '', { audience: 'Kids, Teens' }).ageGroups.map(g => g.group))
+        .toEqual(['elementary', 'teens']);
+    });
+
+    it('should count an event under each of its groups', () => {
+      const [adults, teens] = detector.detect('Teens & Adults Laser Cutting').ageGroups;
+      const events = [
+        { ageGroup: adults, ageGroups: [adults, teens] },
+        { ageGroup: teens }
+      ] as ProcessedEvent[];
+
+      expect(detector.analyzeEvents(events)).toEqual({ adults: 1, teens: 2 });
+    });
+  });
+
+  describe('explicit audience markers', () => {
+    it('should let #age: and [Audience:] tags override pattern matching', () => {
+      expect(detector.detect('Open Studio - Adults (19 and up) only', 'Family night #age:allages')).toMatchObject({
+        ageGroup: { group: 'allages' },
+        method: 'tag',
+        matchedText: 'allages'
+      });
+      expect(detector.detectAgeGroup('Robotics Club [Audience: Teens]', '').group).toBe('teens');
+      expect(detector.detectAgeGroup('#age:Kids Woodworking', '').group).toBe('elementary');
+    });
+
+    it('should fall back to patterns for free-text audience values', () => {
+      expect(detector.detect('Lego League', '[Audience: Kids 6-11]')).toMatchObject({
+        ageGroup: { group: 'elementary' },
+        method: 'tag'
+      });
+    });
+
+    it('should ignore tags that match no group', () => {
+      expect(detector.detect('Open Studio - Adults (19 and up) only #age:wizards', '')).toMatchObject({
+        ageGroup: { group: 'adults' },
+        method: 'pattern'
+      });
+    });
+
+    it('should use X-AUDIENCE, then exact CATEGORIES matches', () => {
+      expect(detector.detect('Open Shop', '', { audience: 'Teens', categories: ['Adults'] }).method).toBe('property');
+      expect(detector.detect('Open Shop', '', { categories: ['Woodworking', 'All Ages'] })).toMatchObject({
+        ageGroup: { group: 'allages' },
+        method: 'category'
+      });
+      // Categories don't go through patterns: "Teen robotics" is a topic, not an audience
+      expect(detector.detect('Open Shop', '', { categories: ['Teen robotics'] }).method).toBe('default');
+    });
+
+    it('should extract and strip markers', () => {
+      const text = 'Robotics #age:teens Club [Audience: Teens 12-18]';
+
+      expect(AgeGroupDetector.extractAudienceTags(text)).toEqual(['teens', 'Teens 12-18']);
+      expect(AgeGroupDetector.stripAudienceTags(text)).toBe('Robotics Club');
+      expect(AgeGroupDetector.stripAudienceTags('Line one #age:teens\nLine two')).toBe('Line one\nLine two');
+    });
+  });
 });
@@ -0,0 +1,89 @@
+// __tests__/announcement-store.test.ts
+import { AnnouncementStore } from '../src/lib/announcement-store';
+import { LocalStorage, MemoryStorage, StorageAdapter } from '../src/lib/local-storage';
+
+describe('AnnouncementStore', () => {
+  let adapter: StorageAdapter;
+  let store: AnnouncementStore;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    adapter = new MemoryStorage();
+    store = new AnnouncementStore(new LocalStorage(adapter));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should create announcements with defaults and persist them', () => {
+    const announcement = store.create({ title: '  Laser cutter down for maintenance ', extra: 'dropped' } as never);
+
+    expect(announcement).toMatchObject({ title: 'Laser cutter down for maintenance', body: '', priority: 'normal' });
+    expect(announcement).not.toHaveProperty('extra');
+    expect(announcement.id).toBeTruthy();
+    expect(new AnnouncementStore(new LocalStorage(adapter)).get(announcement.id)).toEqual(announcement);
+  });
+
+  it('should only show announcements inside their window and for their displays', () => {
+    store.create({ title: 'Holiday hours next week', startsAt: '2025-08-18T00:00:00Z', endsAt: '2025-08-25T00:00:00Z' });
+    store.create({ title: 'Wood shop only', displays: ['wood-shop'] });
+    store.create({ title: 'Expired', endsAt: '2025-08-01T00:00:00Z' });
+
+    const titles = (now: string, display?: string) => store.getVisible(new Date(now), display).map(a => a.title);
+
+    expect(titles('2025-08-11T12:00:00Z', 'wood-shop')).toEqual(['Wood shop only']);
+    expect(titles('2025-08-11T12:00:00Z', 'lobby')).toEqual([]);
+    expect(titles('2025-08-20T12:00:00Z', 'wood-shop').sort()).toEqual(['Holiday hours next week', 'Wood shop only']);
+    expect(titles('2025-08-25T00:00:00Z', 'lobby')).toEqual([]);
+  });
+
+  it('should hide targeted announcements from the unnamed / display', () => {
+    store.create({ title: 'Wood shop only', displays: ['wood-shop'] });
+    store.create({ title: 'Member BBQ' });
+
+    expect(store.getVisible(new Date('2025-08-11T12:00:00Z')).map(a => a.title)).toEqual(['Member BBQ']);
+  });
+
+  it('should order by priority, then newest start first', () => {
+    store.create({ title: 'Old news', priority: 'low', startsAt: '2025-08-01T00:00:00Z' });
+    store.create({ title: 'Fire drill today', priority: 'high', startsAt: '2025-08-10T00:00:00Z' });
+    store.create({ title: 'New filament in stock', startsAt: '2025-08-05T00:00:00Z' });
+    store.create({ title: 'Member BBQ', startsAt: '2025-08-09T00:00:00Z' });
+
+    expect(store.list().map(a => a.title)).toEqual(['Fire drill today', 'Member BBQ', 'New filament in stock', 'Old news']);
+  });
+
+  it('should update fields, clear optional ones and remove announcements', () => {
+    const { id, createdAt } = store.create({ title: 'Open late', endsAt: '2025-09-01T00:00:00Z', imageUrl: '/images/moon.png' });
+
+    const updated = store.update(id, { priority: 'high', endsAt: '' });
+
+    expect(updated).toMatchObject({ id, createdAt, title: 'Open late', priority: 'high', imageUrl: '/images/moon.png' });
+    expect(updated).not.toHaveProperty('endsAt');
+    expect(store.update('missing', { title: 'x' })).toBeNull();
+
+    expect(store.remove(id)).toBe(true);
+    expect(store.remove(id)).toBe(false);
+    expect(store.list()).toEqual([]);
+  });
+
+  it('should validate input', () => {
+    expect(store.validate({ title: 'Ok', priority: 'high', imageUrl: 'https://example.org/a.png', displays: ['lobby'] })).toEqual([]);
+    expect(store.validate({
+      title: ' ',
+      priority: 'urgent' as never,
+      imageUrl: 'javascript:alert(1)',
+      startsAt: '2025-08-10T00:00:00Z',
+      endsAt: '2025-08-09T00:00:00Z',
+      displays: ['Lobby!']
+    })).toEqual([
+      'title is required',
+      'imageUrl must be an http(s) URL or a path starting with /',
+      'priority must be one of: low, normal, high',
+      'endsAt must be after startsAt',
+      'displays must be a list of display ids'
+    ]);
+    expect(store.validate({ title: 'x', startsAt: 'tomorrow' })).toEqual(['startsAt must be an ISO date-time']);
+  });
+});
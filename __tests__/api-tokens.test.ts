@@ -0,0 +1,106 @@
+// __tests__/api-tokens.test.ts
+import { ApiTokenStore } from '../src/lib/api-tokens';
+import { LocalStorage, MemoryStorage } from '../src/lib/local-storage';
+
+describe('ApiTokenStore', () => {
+  const now = new Date('2025-08-11T14:00:00Z');
+  const minutesLater = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000);
+  let adapter: MemoryStorage;
+  let tokens: ApiTokenStore;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+    adapter = new MemoryStorage();
+    tokens = new ApiTokenStore(new LocalStorage(adapter));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('validate', () => {
+    it('should accept a named token with known scopes', () => {
+      expect(tokens.validate({ name: 'Lobby kiosk', scopes: ['read:status'] }, now)).toEqual([]);
+      expect(tokens.validate({ name: 'Override script', scopes: ['write:overrides'], expiresInDays: 30 }, now)).toEqual([]);
+    });
+
+    it('should report every problem', () => {
+      expect(tokens.validate({ name: ' ', scopes: [] }, now)).toEqual([
+        'name is required',
+        'scopes must list at least one scope'
+      ]);
+      expect(tokens.validate({ name: 'x'.repeat(61), scopes: ['write:everything' as never] }, now)).toHaveLength(2);
+    });
+
+    it('should check the expiry', () => {
+      const input = { name: 'Kiosk', scopes: ['read:status' as const] };
+
+      expect(tokens.validate({ ...input, expiresAt: '2025-08-11T13:00:00Z' }, now)).toEqual(['expiresAt must be in the future']);
+      expect(tokens.validate({ ...input, expiresAt: 'tomorrow' }, now)).toEqual(['expiresAt must be an ISO date-time']);
+      expect(tokens.validate({ ...input, expiresInDays: 0 }, now)).toHaveLength(1);
+      expect(tokens.validate({ ...input, expiresAt: '2025-09-01T00:00:00Z', expiresInDays: 7 }, now)).toHaveLength(1);
+    });
+  });
+
+  describe('create', () => {
+    it('should return the secret once and store only its hash', () => {
+      const { token, secret } = tokens.create({ name: 'Lobby kiosk', scopes: ['read:status'], expiresInDays: 7 }, now);
+
+      expect(secret).toMatch(/^msd_[A-Za-z0-9_-]{43}$/);
+      expect(token).toMatchObject({
+        name: 'Lobby kiosk',
+        scopes: ['read:status'],
+        prefix: secret.slice(0, 10),
+        createdAt: '2025-08-11T14:00:00.000Z',
+        expiresAt: '2025-08-18T14:00:00.000Z'
+      });
+      expect(token).not.toHaveProperty('secretHash');
+      expect(tokens.list()).toEqual([token]);
+      expect(adapter.keys().map(key => adapter.getItem(key)).join('')).not.toContain(secret);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should find the token by its secret and record where it was used', () => {
+      const { token, secret } = tokens.create({ name: 'Lobby kiosk', scopes: ['read:status'] }, now);
+
+      expect(tokens.authenticate(secret, '10.0.0.9', now)).toMatchObject({
+        id: token.id,
+        lastUsedAt: '2025-08-11T14:00:00.000Z',
+        lastUsedIp: '10.0.0.9'
+      });
+      expect(tokens.authenticate('msd_forged', '10.0.0.9', now)).toBeNull();
+    });
+
+    it('should update last-used at most once a minute from the same address', () => {
+      const { secret } = tokens.create({ name: 'Lobby kiosk', scopes: ['read:status'] }, now);
+
+      tokens.authenticate(secret, '10.0.0.9', now);
+      expect(tokens.authenticate(secret, '10.0.0.9', new Date(now.getTime() + 30 * 1000))?.lastUsedAt).toBe('2025-08-11T14:00:00.000Z');
+      expect(tokens.authenticate(secret, '10.0.0.10', new Date(now.getTime() + 30 * 1000))?.lastUsedIp).toBe('10.0.0.10');
+      expect(tokens.authenticate(secret, '10.0.0.10', minutesLater(2))?.lastUsedAt).toBe('2025-08-11T14:02:00.000Z');
+    });
+
+    it('should reject expired tokens', () => {
+      const { secret } = tokens.create({ name: 'Workshop laptop', scopes: ['write:overrides'], expiresAt: '2025-08-11T15:00:00Z' }, now);
+
+      expect(tokens.authenticate(secret, '10.0.0.9', minutesLater(59))).not.toBeNull();
+      expect(tokens.authenticate(secret, '10.0.0.9', minutesLater(60))).toBeNull();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should revoke one token without affecting the others', () => {
+      const kiosk = tokens.create({ name: 'Lobby kiosk', scopes: ['read:status'] }, now);
+      const script = tokens.create({ name: 'Override script', scopes: ['write:overrides'] }, now);
+
+      expect(tokens.revoke(kiosk.token.id)).toBe(true);
+      expect(tokens.revoke(kiosk.token.id)).toBe(false);
+
+      expect(tokens.authenticate(kiosk.secret, '10.0.0.9', now)).toBeNull();
+      expect(tokens.authenticate(script.secret, '10.0.0.9', now)).not.toBeNull();
+      expect(tokens.list().map(token => token.name)).toEqual(['Override script']);
+    });
+  });
+});
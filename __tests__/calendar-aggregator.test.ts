@@ -0,0 +1,133 @@
+// __tests__/calendar-aggregator.test.ts
+import { CalendarAggregator } from '../src/lib/calendar-aggregator';
+import { CalendarPayload, CalendarSource, createNamedSourcesFromEnv, GoogleCalendarSource, ICalUrlSource } from '../src/lib/calendar-sources';
+
+class StubSource implements CalendarSource {
+  readonly type = 'json-feed' as const;
+  readonly location = 'stub';
+
+  constructor(readonly id: string, private loader: () => Promise<CalendarPayload>) {}
+
+  load(): Promise<CalendarPayload> {
+    return this.loader();
+  }
+}
+
+describe('CalendarAggregator', () => {
+  const soon = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+
+  const feed = (...events: { id: string; title: string; start: string; end: string }[]) =>
+    () => Promise.resolve<CalendarPayload>({ format: 'json', events });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should merge sources, sort by start and tag each event with its source', async () => {
+    const aggregator = new CalendarAggregator([
+      {
+        source: new StubSource('wood', feed({ id: 'w1', title: 'Intro to Lathe - Adults (19 and up) only', start: soon(5), end: soon(7) })),
+        info: { id: 'wood-shop', name: 'Wood Shop', room: 'Wood Shop', color: '#b45309' }
+      },
+      {
+        source: new StubSource('lab', feed({ id: 'e1', title: 'Soldering 101 - Ages 9-18', start: soon(2), end: soon(4) })),
+        info: { id: 'electronics', name: 'Electronics Lab', room: 'Lab B' }
+      }
+    ]);
+
+    const result = await aggregator.fetchAll();
+
+    expect(result.success).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.events.map(e => e.id)).toEqual(['e1', 'w1']);
+    expect(result.events[0].source).toEqual({ id: 'electronics', name: 'Electronics Lab', room: 'Lab B' });
+    expect(result.events[1].source?.color).toBe('#b45309');
+    expect(result.sources?.map(s => [s.source.id, s.success, s.eventCount])).toEqual([
+      ['wood-shop', true, 1],
+      ['electronics', true, 1]
+    ]);
+  });
+
+  it('should keep one copy of events shared between calendars', async () => {
+    const shared = { id: 'shared-uid', title: 'Open House - All Ages', start: soon(3), end: soon(5) };
+    const aggregator = new CalendarAggregator([
+      { source: new StubSource('a', feed(shared)), info: { id: 'a', name: 'A' } },
+      { source: new StubSource('b', feed(shared)), info: { id: 'b', name: 'B' } }
+    ]);
+
+    const result = await aggregator.fetchAll();
+
+    expect(result.events).toHaveLength(1);
+    expect(result.events[0].source?.id).toBe('a');
+  });
+
+  it('should return partial results with per-source errors', async () => {
+    const aggregator = new CalendarAggregator([
+      { source: new StubSource('ok', feed({ id: 'ok1', title: 'Laser Cutting - Ages 19+', start: soon(1), end: soon(2) })), info: { id: 'ok', name: 'Laser Room' } },
+      { source: new StubSource('down', () => Promise.reject(new Error('Calendar fetch failed with status: 503'))), info: { id: 'down', name: 'Youth Programs' } }
+    ]);
+
+    const result = await aggregator.fetchAll();
+
+    expect(result.success).toBe(true);
+    expect(result.events).toHaveLength(1);
+    expect(result.errors).toEqual(['Youth Programs: Calendar fetch failed with status: 503']);
+    expect(result.sources?.[1]).toMatchObject({ success: false, eventCount: 0, error: 'Calendar fetch failed with status: 503' });
+  });
+
+  it('should fail when every source fails or none are configured', async () => {
+    const failing = new CalendarAggregator([
+      { source: new StubSource('down', () => Promise.reject(new Error('offline'))), info: { id: 'down', name: 'Down' } }
+    ]);
+
+    expect((await failing.fetchAll()).success).toBe(false);
+    expect(await new CalendarAggregator([]).fetchAll()).toMatchObject({
+      success: false,
+      errors: ['No calendar source is configured.']
+    });
+  });
+});
+
+describe('createNamedSourcesFromEnv', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should build named sources from CALENDAR_SOURCES', () => {
+    const sources = createNamedSourcesFromEnv({
+      CALENDAR_SOURCES: JSON.stringify([
+        { name: 'Wood Shop', calendarId: 'wood@group.calendar.google.com', room: 'Shop', color: '#b45309' },
+        { name: 'Youth Programs', url: 'https://example.org/youth.ics' },
+        { name: 'Broken' }
+      ]),
+      CALENDAR_ID: 'ignored'
+    });
+
+    expect(sources).toHaveLength(2);
+    expect(sources[0].source).toBeInstanceOf(GoogleCalendarSource);
+    expect(sources[0].info).toEqual({ id: 'wood-shop', name: 'Wood Shop', room: 'Shop', color: '#b45309' });
+    expect(sources[1].source).toBeInstanceOf(ICalUrlSource);
+    expect(sources[1].info.id).toBe('youth-programs');
+  });
+
+  it('should fall back to the single calendar variables', () => {
+    const sources = createNamedSourcesFromEnv({ CALENDAR_ID: 'abc@group.calendar.google.com' });
+
+    expect(sources).toHaveLength(1);
+    expect(sources[0].info).toEqual({ id: 'main', name: 'Makerspace Calendar' });
+    expect(createNamedSourcesFromEnv({})).toEqual([]);
+  });
+
+  it('should reject malformed CALENDAR_SOURCES', () => {
+    expect(createNamedSourcesFromEnv({ CALENDAR_SOURCES: '{not json' })).toEqual([]);
+  });
+});
@@ -154,4 +154,90 @@ describe('CalendarCache', () => {
       expect(third).toEqual(mockEvents);
     });
   });
+
+  describe('stale-while-revalidate', () => {
+    const expire = () => {
+      const realNow = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(realNow + 31 * 60 * 1000);
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should keep expired events available as stale data', () => {
+      calendarCache.set(mockEvents);
+      expire();
+
+      expect(calendarCache.get()).toBeNull();
+      expect(calendarCache.getStale()).toEqual(mockEvents);
+      expect(calendarCache.getStats().isStale).toBe(true);
+    });
+
+    it('should wait for the loader when nothing is cached', async () => {
+      const loader = jest.fn().mockResolvedValue(mockEvents);
+
+      await expect(calendarCache.getOrRefresh(loader)).resolves.toEqual(mockEvents);
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(calendarCache.isValid()).toBe(true);
+    });
+
+    it('should not call the loader while the cache is fresh', async () => {
+      calendarCache.set(mockEvents);
+      const loader = jest.fn();
+
+      await expect(calendarCache.getOrRefresh(loader)).resolves.toEqual(mockEvents);
+      expect(loader).not.toHaveBeenCalled();
+    });
+
+    it('should serve stale events immediately and refresh once in the background', async () => {
+      calendarCache.set(mockEvents);
+      expire();
+
+      const newEvents = [{ ...mockEvents[0], id: '2', title: 'New Event' }];
+      let resolveLoader: (events: ProcessedEvent[]) => void = () => {};
+      const loader = jest.fn(() => new Promise<ProcessedEvent[]>(resolve => { resolveLoader = resolve; }));
+
+      const [first, second] = await Promise.all([
+        calendarCache.getOrRefresh(loader),
+        calendarCache.getOrRefresh(loader)
+      ]);
+
+      expect(first).toEqual(mockEvents);
+      expect(second).toEqual(mockEvents);
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(calendarCache.isRefreshing()).toBe(true);
+
+      resolveLoader(newEvents);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(calendarCache.isRefreshing()).toBe(false);
+      expect(calendarCache.get()).toEqual(newEvents);
+    });
+
+    it('should keep stale events when the background refresh fails', async () => {
+      calendarCache.set(mockEvents);
+      expire();
+
+      const loader = jest.fn().mockRejectedValue(new Error('upstream down'));
+      await expect(calendarCache.getOrRefresh(loader)).resolves.toEqual(mockEvents);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(calendarCache.getStale()).toEqual(mockEvents);
+      expect(calendarCache.getStats().lastRefreshError).toBe('upstream down');
+    });
+  });
+
+  describe('upstream validators', () => {
+    it('should remember validators per source until cleared', () => {
+      calendarCache.setValidators('a', { etag: '"v1"', contentHash: 'abc' });
+
+      expect(calendarCache.getValidators('a')).toEqual({ etag: '"v1"', contentHash: 'abc' });
+      expect(calendarCache.getValidators('b')).toBeUndefined();
+      expect(calendarCache.getStats().upstream).toEqual({ a: { etag: '"v1"', contentHash: 'abc' } });
+
+      calendarCache.clear();
+      expect(calendarCache.getValidators('a')).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,183 @@
+// __tests__/calendar-sources.test.ts
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createCalendarSourceFromEnv,
+  GoogleCalendarSource,
+  ICalUrlSource,
+  JsonFeedSource,
+  LocalFileSource
+} from '../src/lib/calendar-sources';
+import { CalendarFetcher } from '../src/lib/calendar-fetcher';
+import { calendarCache } from '../src/lib/calendar-cache';
+
+describe('Calendar sources', () => {
+  let tempDir: string;
+
+  const icsFixture = `BEGIN:VCALENDAR
+VERSION:2.0
+BEGIN:VEVENT
+DTSTART:20250810T100000Z
+DTEND:20250810T120000Z
+UID:fixture-1@test
+SUMMARY:Open Studio - Adults (19 and up) only
+STATUS:CONFIRMED
+END:VEVENT
+END:VCALENDAR`;
+
+  const window = {
+    start: new Date('2025-08-01T00:00:00Z'),
+    end: new Date('2025-08-31T23:59:59Z')
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'calendar-sources-'));
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('createCalendarSourceFromEnv', () => {
+    it('should prefer explicit URL, file and JSON settings over CALENDAR_ID', () => {
+      expect(createCalendarSourceFromEnv({ CALENDAR_ICAL_URL: 'https://example.com/a.ics', CALENDAR_ID: 'x' }))
+        .toBeInstanceOf(ICalUrlSource);
+      expect(createCalendarSourceFromEnv({ CALENDAR_ICS_FILE: 'fixture.ics' }))
+        .toBeInstanceOf(LocalFileSource);
+      expect(createCalendarSourceFromEnv({ CALENDAR_JSON_FEED: 'feed.json' }))
+        .toBeInstanceOf(JsonFeedSource);
+      expect(createCalendarSourceFromEnv({ CALENDAR_ID: 'abc@group.calendar.google.com' }))
+        .toBeInstanceOf(GoogleCalendarSource);
+      expect(createCalendarSourceFromEnv({})).toBeNull();
+    });
+
+    it('should build the public Google iCal URL', () => {
+      const source = new GoogleCalendarSource('abc@group.calendar.google.com');
+      expect(source.location).toBe('https://calendar.google.com/calendar/ical/abc@group.calendar.google.com/public/basic.ics');
+    });
+  });
+
+  describe('LocalFileSource', () => {
+    it('should feed a local .ics file through the fetcher pipeline', async () => {
+      const file = path.join(tempDir, 'calendar.ics');
+      await fs.writeFile(file, icsFixture);
+
+      const fetcher = new CalendarFetcher(new LocalFileSource(file));
+      const events = await fetcher.fetchEvents(window.start, window.end);
+
+      expect(events).toHaveLength(1);
+      expect(events[0].id).toBe('fixture-1@test');
+      expect(events[0].ageGroup.group).toBe('adults');
+    });
+
+    it('should reject when the file is missing', async () => {
+      const fetcher = new CalendarFetcher(new LocalFileSource(path.join(tempDir, 'missing.ics')));
+      await expect(fetcher.fetchEvents(window.start, window.end)).rejects.toThrow();
+    });
+  });
+
+  describe('JsonFeedSource', () => {
+    it('should map JSON feed events into processed events', async () => {
+      const file = path.join(tempDir, 'feed.json');
+      await fs.writeFile(file, JSON.stringify({
+        events: [
+          {
+            id: 'json-1',
+            title: 'Teen Robotics Club (12-18)',
+            start: '2025-08-12T18:00:00-05:00',
+            end: '2025-08-12T20:00:00-05:00',
+            location: 'STEM Lab'
+          },
+          {
+            id: 'json-2',
+            title: 'Weekly Open Studio',
+            start: '2025-08-04T18:00:00-05:00',
+            end: '2025-08-04T20:00:00-05:00',
+            rrule: 'FREQ=WEEKLY;COUNT=2',
+            timeZone: 'America/Chicago'
+          }
+        ]
+      }));
+
+      const fetcher = new CalendarFetcher(new JsonFeedSource(file));
+      const events = await fetcher.fetchEvents(window.start, window.end);
+      const byId = Object.fromEntries(events.map(e => [e.id, e]));
+
+      expect(byId['json-1'].start).toBe('2025-08-12T23:00:00Z');
+      expect(byId['json-1'].location).toBe('STEM Lab');
+      expect(byId['json-1'].ageGroup.group).toBe('teens');
+      expect(byId['json-1'].status).toBe('confirmed');
+      expect(byId['json-2_20250804T230000Z']).toBeDefined();
+      expect(byId['json-2_20250811T230000Z']).toBeDefined();
+    });
+
+    it('should reject feeds without an events array', async () => {
+      const file = path.join(tempDir, 'bad.json');
+      await fs.writeFile(file, JSON.stringify({ items: [] }));
+
+      await expect(new JsonFeedSource(file).load()).rejects.toThrow('JSON feed must be');
+    });
+  });
+
+  describe('conditional requests', () => {
+    const url = 'https://example.org/calendar.ics';
+
+    const response = (status: number, body = '', headers: Record<string, string> = {}) => ({
+      ok: status >= 200 && status < 300,
+      status,
+      headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+      text: () => Promise.resolve(body)
+    });
+
+    beforeEach(() => {
+      calendarCache.clear();
+    });
+
+    it('should send validators from the previous download and reuse the parse on 304', async () => {
+      const mockFetch = jest.fn()
+        .mockResolvedValueOnce(response(200, icsFixture, { etag: '"v1"', 'last-modified': 'Mon, 04 Aug 2025 10:00:00 GMT' }))
+        .mockResolvedValueOnce(response(304));
+      global.fetch = mockFetch;
+
+      const fetcher = new CalendarFetcher(new ICalUrlSource(url));
+      const first = await fetcher.fetchEvents(window.start, window.end);
+      const second = await fetcher.fetchEvents(window.start, window.end);
+
+      expect(mockFetch.mock.calls[0][1].headers).toEqual({});
+      expect(mockFetch.mock.calls[1][1].headers).toEqual({
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Mon, 04 Aug 2025 10:00:00 GMT'
+      });
+      expect(second).toEqual(first);
+      expect(calendarCache.getValidators(url)?.etag).toBe('"v1"');
+    });
+
+    it('should skip re-parsing when the downloaded content hash is unchanged', async () => {
+      global.fetch = jest.fn().mockResolvedValue(response(200, icsFixture));
+
+      const fetcher = new CalendarFetcher(new ICalUrlSource(url));
+      const parseSpy = jest.spyOn(fetcher as unknown as { parseICalContent: () => unknown }, 'parseICalContent');
+
+      await fetcher.fetchEvents(window.start, window.end);
+      const events = await fetcher.fetchEvents(window.start, window.end);
+
+      expect(parseSpy).toHaveBeenCalledTimes(1);
+      expect(events).toHaveLength(1);
+      expect(calendarCache.getValidators(url)?.contentHash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should not send conditional headers without a previous parse to fall back on', async () => {
+      calendarCache.setValidators(url, { etag: '"stale"' });
+      const mockFetch = jest.fn().mockResolvedValue(response(200, icsFixture));
+      global.fetch = mockFetch;
+
+      await new CalendarFetcher(new ICalUrlSource(url)).fetchEvents(window.start, window.end);
+
+      expect(mockFetch.mock.calls[0][1].headers).toEqual({});
+    });
+  });
+});
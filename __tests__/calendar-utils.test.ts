@@ -47,9 +47,22 @@ describe('CalendarUtils', () => {
 
       expect(status.status).toBe('current');
       expect(status.currentEvent?.id).toBe('1');
+      expect(status.currentEvents?.map(e => e.id)).toEqual(['1']);
       expect(status.nextEvent).toBeUndefined();
     });
 
+    it('should include every concurrent event', () => {
+      const events = [
+        createMockEvent({ id: 'laser', start: '2025-08-10T10:45:00Z', end: '2025-08-10T11:30:00Z' }),
+        createMockEvent({ id: 'wood', start: '2025-08-10T10:00:00Z', end: '2025-08-10T12:00:00Z' })
+      ];
+
+      const status = CalendarUtils.getCurrentDisplayStatus(events);
+
+      expect(status.currentEvent?.id).toBe('wood');
+      expect(status.currentEvents?.map(e => e.id)).toEqual(['wood', 'laser']);
+    });
+
     it('should return between status when between events', () => {
       const events = [
         createMockEvent({
@@ -341,4 +354,57 @@ describe('CalendarUtils', () => {
       expect(todaysEvents).toHaveLength(2);
     });
   });
+
+  describe('groupEventsByAgeGroup', () => {
+    it('should list multi-audience events under each group', () => {
+      const teens = { group: 'teens', emoji: '🧒', label: 'Teens (12-18)', color: '#ea580c' };
+      const adultsOnly = createMockEvent({ id: '1' });
+      const shared = createMockEvent({ id: '2', ageGroups: [createMockEvent().ageGroup, teens] });
+
+      const grouped = CalendarUtils.groupEventsByAgeGroup([adultsOnly, shared]);
+
+      expect(grouped.adults.map(e => e.id)).toEqual(['1', '2']);
+      expect(grouped.teens.map(e => e.id)).toEqual(['2']);
+    });
+  });
+
+  describe('getEventsForLocalDay', () => {
+    it('should use the makerspace day and keep events still running from the night before', () => {
+      const events = [
+        createMockEvent({ id: 'evening', start: '2025-08-12T01:00:00Z', end: '2025-08-12T03:00:00Z' }),
+        createMockEvent({ id: 'overnight', start: '2025-08-11T04:00:00Z', end: '2025-08-11T06:00:00Z' }),
+        createMockEvent({ id: 'morning', start: '2025-08-11T14:00:00Z', end: '2025-08-11T16:00:00Z' }),
+        createMockEvent({ id: 'tomorrow', start: '2025-08-12T14:00:00Z', end: '2025-08-12T16:00:00Z' }),
+        createMockEvent({ id: 'holiday', start: '2025-08-11', end: '2025-08-12', isAllDay: true })
+      ];
+
+      const today = CalendarUtils.getEventsForLocalDay(events, new Date('2025-08-11T20:00:00Z'), 'America/Chicago');
+
+      // 01:00Z on the 12th is 8pm on the 11th in Chicago
+      expect(today.map(e => e.id)).toEqual(['overnight', 'holiday', 'morning', 'evening']);
+    });
+  });
+
+  describe('getWeekSchedule', () => {
+    it('should place timed events in local day columns and turn long events into spans', () => {
+      const events = [
+        createMockEvent({ id: 'monday-night', start: '2025-08-12T01:00:00Z', end: '2025-08-12T03:00:00Z' }),
+        createMockEvent({ id: 'camp', start: '2025-08-12', end: '2025-08-15', isAllDay: true }),
+        createMockEvent({ id: 'overnight-build', start: '2025-08-14T20:00:00Z', end: '2025-08-15T14:00:00Z' }),
+        createMockEvent({ id: 'next-week', start: '2025-08-20T15:00:00Z', end: '2025-08-20T16:00:00Z' })
+      ];
+
+      const { days, spans } = CalendarUtils.getWeekSchedule(events, new Date('2025-08-11T15:00:00Z'), 'America/Chicago');
+
+      expect(days.map(d => d.date)).toEqual([
+        '2025-08-11', '2025-08-12', '2025-08-13', '2025-08-14', '2025-08-15', '2025-08-16', '2025-08-17'
+      ]);
+      // 01:00Z on the 12th is Monday evening in Chicago
+      expect(days[0].events.map(e => e.id)).toEqual(['monday-night']);
+      expect(spans.map(s => [s.event.id, s.startDay, s.endDay])).toEqual([
+        ['camp', 1, 3],
+        ['overnight-build', 3, 4]
+      ]);
+    });
+  });
 });
@@ -0,0 +1,93 @@
+// __tests__/display-registry.test.ts
+import { ProcessedEvent } from '../shared/types';
+import { DisplayRegistry } from '../src/lib/display-registry';
+import { LocalStorage, MemoryStorage, StorageAdapter } from '../src/lib/local-storage';
+import { DEFAULT_PLAYLIST } from '../src/lib/playlist';
+
+describe('DisplayRegistry', () => {
+  let adapter: StorageAdapter;
+  let registry: DisplayRegistry;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    adapter = new MemoryStorage();
+    registry = new DisplayRegistry(new LocalStorage(adapter));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should register displays with defaults and persist them', () => {
+    const display = registry.create({ id: 'woodshop', name: ' Wood Shop ', rooms: [' Wood Shop'], extra: 'dropped' } as never);
+
+    expect(display).toMatchObject({
+      id: 'woodshop',
+      name: 'Wood Shop',
+      rooms: ['Wood Shop'],
+      layout: 'grid',
+      orientation: 'landscape',
+      theme: 'auto'
+    });
+    expect(display).not.toHaveProperty('extra');
+    expect(display).not.toHaveProperty('ageGroups');
+    expect(new DisplayRegistry(new LocalStorage(adapter)).get('woodshop')).toEqual(display);
+    expect(registry.create({ id: 'woodshop', name: 'Again' })).toBeNull();
+  });
+
+  it('should update fields and fall back to the shared playlist with playlist: null', () => {
+    const created = registry.create({ id: 'lobby', name: 'Lobby', playlist: DEFAULT_PLAYLIST })!;
+
+    const updated = registry.update('lobby', { orientation: 'portrait', qrCodes: false, playlist: null as never, id: 'renamed' });
+
+    expect(updated).toMatchObject({ id: 'lobby', name: 'Lobby', orientation: 'portrait', qrCodes: false, createdAt: created.createdAt });
+    expect(updated).not.toHaveProperty('playlist');
+    expect(registry.update('missing', { name: 'x' })).toBeNull();
+    expect(registry.remove('lobby')).toBe(true);
+    expect(registry.list()).toEqual([]);
+  });
+
+  it('should validate displays', () => {
+    expect(registry.validate({ id: 'woodshop', name: 'Wood Shop', theme: '#1e40af', layout: 'single' })).toEqual([]);
+
+    expect(registry.validate({ id: 'Wood Shop', name: '' })).toEqual([
+      'id must be 1-40 lowercase letters, digits or dashes',
+      'name is required'
+    ]);
+    expect(registry.validate({ id: 'a', name: 'A', rooms: [''] })).toEqual(['rooms must be a list of at most 20 names']);
+    expect(registry.validate({ id: 'a', name: 'A', layout: 'carousel' as never })).toEqual(['layout must be one of: grid, single']);
+    expect(registry.validate({ id: 'a', name: 'A', orientation: 'upside-down' as never })).toHaveLength(1);
+    expect(registry.validate({ id: 'a', name: 'A', qrCodes: 'no' as never })).toEqual(['qrCodes must be true or false']);
+    expect(registry.validate({ id: 'a', name: 'A', theme: 'red' })).toEqual(['theme must be "auto" or a hex color like #1e40af']);
+    expect(registry.validate({ id: 'a', name: 'A', playlist: { slides: [], rules: { pinLiveMinutes: 5 } } })[0]).toMatch(/^playlist: /);
+  });
+
+  describe('filterEvents', () => {
+    const ageGroup = (group: string) => ({ group, emoji: '', label: group, color: '#000000' });
+    const events = [
+      { id: 'lathe', location: 'Metal Shop', ageGroup: ageGroup('adults'), source: { id: 'metal', name: 'Metal', room: 'Metal Shop' } },
+      { id: 'birdhouse', location: 'Wood Shop, 2nd floor', ageGroup: ageGroup('elementary') },
+      { id: 'open-shop', location: 'Wood Shop', ageGroup: ageGroup('teens'), ageGroups: [ageGroup('teens'), ageGroup('adults')] }
+    ] as ProcessedEvent[];
+    const ids = (filtered: ProcessedEvent[]) => filtered.map(event => event.id);
+
+    it('should match rooms by source id, source room or location text', () => {
+      expect(ids(DisplayRegistry.filterEvents(events, { rooms: ['metal'] }))).toEqual(['lathe']);
+      expect(ids(DisplayRegistry.filterEvents(events, { rooms: ['wood shop'] }))).toEqual(['birdhouse', 'open-shop']);
+      expect(ids(DisplayRegistry.filterEvents(events, {}))).toEqual(['lathe', 'birdhouse', 'open-shop']);
+    });
+
+    it('should match any of an event\'s age groups', () => {
+      expect(ids(DisplayRegistry.filterEvents(events, { ageGroups: ['adults'] }))).toEqual(['lathe', 'open-shop']);
+      expect(ids(DisplayRegistry.filterEvents(events, { rooms: ['Wood Shop'], ageGroups: ['adults'] }))).toEqual(['open-shop']);
+    });
+
+    it('should scope to registered displays only', () => {
+      registry.create({ id: 'kids', name: 'Kids Corner', ageGroups: ['elementary'] });
+
+      expect(ids(registry.scopeEvents(events, 'kids'))).toEqual(['birdhouse']);
+      expect(registry.scopeEvents(events, 'unknown')).toBe(events);
+      expect(registry.scopeEvents(events)).toBe(events);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+// __tests__/emergency-alert.test.ts
+import { EmergencyAlertManager } from '../src/lib/emergency-alert';
+import { LocalStorage, MemoryStorage, StorageAdapter } from '../src/lib/local-storage';
+import { Logger } from '../src/lib/logger';
+
+describe('EmergencyAlertManager', () => {
+  const now = new Date('2025-08-11T14:00:00Z');
+  let adapter: StorageAdapter;
+  let alerts: EmergencyAlertManager;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+    adapter = new MemoryStorage();
+    alerts = new EmergencyAlertManager(new LocalStorage(adapter));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should activate an alert that survives a restart', () => {
+    const alert = alerts.activate({ title: ' Evacuate the building ', message: 'Use the east exit' }, now);
+
+    expect(alert).toMatchObject({
+      title: 'Evacuate the building',
+      message: 'Use the east exit',
+      severity: 'critical',
+      activatedAt: '2025-08-11T14:00:00.000Z'
+    });
+    expect(alert).not.toHaveProperty('expiresAt');
+    expect(new EmergencyAlertManager(new LocalStorage(adapter)).getActive(now)).toEqual(alert);
+  });
+
+  it('should expire alerts at their expiry time and log it', () => {
+    const warn = jest.spyOn(Logger, 'warn');
+    alerts.activate({ title: 'Fire drill', severity: 'warning', durationMinutes: 15 }, now);
+
+    expect(alerts.getActive(new Date('2025-08-11T14:14:59Z'))?.expiresAt).toBe('2025-08-11T14:15:00.000Z');
+    expect(alerts.getActive(new Date('2025-08-11T14:15:00Z'))).toBeNull();
+    expect(alerts.getActive(now)).toBeNull(); // removed from storage, not just hidden
+    expect(warn).toHaveBeenCalledWith('EmergencyAlert', 'Alert expired: Fire drill', expect.anything());
+  });
+
+  it('should log activation and clearing', () => {
+    const warn = jest.spyOn(Logger, 'warn');
+    const alert = alerts.activate({ title: 'Shelter in place' }, now);
+
+    expect(alerts.clear(new Date('2025-08-11T14:10:00Z'))).toEqual(alert);
+    expect(alerts.getActive(now)).toBeNull();
+    expect(alerts.clear(now)).toBeNull();
+    expect(warn.mock.calls.map(call => call[1])).toEqual(['Alert activated: Shelter in place', 'Alert cleared: Shelter in place']);
+    expect(warn.mock.calls[1][2]).toEqual({ id: alert.id, activeForSeconds: 600 });
+  });
+
+  it('should replace an active alert', () => {
+    alerts.activate({ title: 'Power outage' }, now);
+    const second = alerts.activate({ title: 'Power restored soon', severity: 'warning' }, now);
+
+    expect(alerts.getActive(now)).toEqual(second);
+  });
+
+  it('should validate alerts', () => {
+    expect(alerts.validate({ title: 'Fire drill', expiresAt: '2025-08-11T15:00:00Z' }, now)).toEqual([]);
+    expect(alerts.validate({ title: 'Fire drill', durationMinutes: 30 }, now)).toEqual([]);
+
+    expect(alerts.validate({ title: '  ' }, now)).toEqual(['title is required']);
+    expect(alerts.validate({ title: 'x'.repeat(81) }, now)).toHaveLength(1);
+    expect(alerts.validate({ title: 'Drill', severity: 'info' as never }, now)).toEqual(['severity must be one of: warning, critical']);
+    expect(alerts.validate({ title: 'Drill', expiresAt: '2025-08-11T13:00:00Z' }, now)).toEqual(['expiresAt must be in the future']);
+    expect(alerts.validate({ title: 'Drill', expiresAt: 'tonight' }, now)).toEqual(['expiresAt must be an ISO date-time']);
+    expect(alerts.validate({ title: 'Drill', durationMinutes: 0 }, now)).toHaveLength(1);
+    expect(alerts.validate({ title: 'Drill', durationMinutes: 5, expiresAt: '2025-08-11T15:00:00Z' }, now)).toHaveLength(1);
+  });
+});
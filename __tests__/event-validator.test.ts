@@ -29,6 +29,23 @@ describe('EventValidator', () => {
     ...overrides
   });
 
+  describe('filterCurrentAndUpcoming', () => {
+    it('should return every concurrent event, earliest start first', () => {
+      const events = [
+        createMockEvent({ id: 'laser', start: '2025-08-10T10:30:00Z', end: '2025-08-10T12:00:00Z' }),
+        createMockEvent({ id: 'wood', start: '2025-08-10T10:00:00Z', end: '2025-08-10T13:00:00Z' }),
+        createMockEvent({ id: 'later', start: '2025-08-10T14:00:00Z', end: '2025-08-10T15:00:00Z' }),
+        createMockEvent({ id: 'over', start: '2025-08-10T08:00:00Z', end: '2025-08-10T09:00:00Z' })
+      ];
+
+      const result = validator.filterCurrentAndUpcoming(events, '2025-08-10T11:00:00Z');
+
+      expect(result.currentEvents.map(e => e.id)).toEqual(['wood', 'laser']);
+      expect(result.current?.id).toBe('wood');
+      expect(result.upcoming.map(e => e.id)).toEqual(['later']);
+    });
+  });
+
   describe('validateEvent', () => {
     it('should pass validation for a valid event', () => {
       const event = createMockEvent();
@@ -0,0 +1,91 @@
+// __tests__/file-storage.test.ts
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStorage } from '../src/lib/file-storage';
+import { LocalStorage } from '../src/lib/local-storage';
+import { CalendarFetchResult } from '../shared/types';
+
+describe('FileStorage', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-storage-'));
+    filePath = path.join(tempDir, 'nested', 'storage.json');
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should persist values across instances', () => {
+    const first = new FileStorage(filePath);
+    first.setItem('a', '1');
+    first.setItem('b', '2');
+    first.removeItem('a');
+
+    const second = new FileStorage(filePath);
+    expect(second.getItem('a')).toBeNull();
+    expect(second.getItem('b')).toBe('2');
+    expect(second.keys()).toEqual(['b']);
+  });
+
+  it('should write atomically without leaving temp files', () => {
+    const storage = new FileStorage(filePath);
+    storage.setItem('key', 'value');
+
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(['storage.json']);
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).toEqual({ key: 'value' });
+  });
+
+  it('should start empty when the file is corrupt', () => {
+    jest.spyOn(console, 'error').mockImplementation();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '{"truncated":');
+
+    const storage = new FileStorage(filePath);
+    expect(storage.getItem('truncated')).toBeNull();
+
+    storage.setItem('fresh', 'yes');
+    expect(new FileStorage(filePath).getItem('fresh')).toBe('yes');
+  });
+
+  it('should keep working in memory when the file cannot be written', () => {
+    jest.spyOn(console, 'error').mockImplementation();
+    fs.writeFileSync(path.join(tempDir, 'blocker'), '');
+    const storage = new FileStorage(path.join(tempDir, 'blocker', 'storage.json'));
+
+    storage.setItem('key', 'value');
+    expect(storage.getItem('key')).toBe('value');
+  });
+
+  describe('as a LocalStorage adapter', () => {
+    it('should keep admin settings and fetch history across LocalStorage instances', () => {
+      const failedFetch: CalendarFetchResult = {
+        success: false,
+        events: [],
+        errors: ['Wood Shop: Calendar fetch failed with status: 503'],
+        lastFetch: '2025-08-11T09:00:00.000Z'
+      };
+
+      const writer = new LocalStorage(new FileStorage(filePath));
+      writer.setTimeOverride('2025-08-11T18:30:00.000Z');
+      writer.storeEvents([]);
+      writer.storeFetchResult(failedFetch);
+      writer.storeAgeGroupStats({ adults: 3, teens: 1 });
+
+      const reader = new LocalStorage(new FileStorage(filePath));
+      const health = reader.getSystemHealth();
+
+      expect(reader.getTimeOverride()).toBe('2025-08-11T18:30:00.000Z');
+      expect(health.calendar.lastFetch).not.toBe('Never');
+      expect(health.calendar.errors).toEqual(failedFetch.errors);
+      expect(health.processing.ageGroupBreakdown).toEqual({ adults: 3, teens: 1 });
+      expect(reader.getStorageInfo().type).toBe('file');
+      expect(reader.getStorageInfo().keys).toContain('makerspace-display:admin:mockTime');
+    });
+  });
+});
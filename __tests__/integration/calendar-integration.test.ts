@@ -283,6 +283,211 @@ END:VCALENDAR`;
     });
   });
 
+  describe('Recurring Events', () => {
+    const recurringICalData = `BEGIN:VCALENDAR
+VERSION:2.0
+PRODID:-//Test//Test//EN
+
+BEGIN:VEVENT
+DTSTART:20250602T180000Z
+DTEND:20250602T200000Z
+RRULE:FREQ=WEEKLY;BYDAY=MO
+EXDATE:20250818T180000Z
+UID:open-studio@google.com
+SUMMARY:Open Studio - Adults (19 and up) only
+STATUS:CONFIRMED
+END:VEVENT
+
+BEGIN:VEVENT
+DTSTART:20250811T190000Z
+DTEND:20250811T210000Z
+RECURRENCE-ID:20250811T180000Z
+UID:open-studio@google.com
+SUMMARY:Open Studio (late start) - Adults (19 and up) only
+STATUS:CONFIRMED
+END:VEVENT
+
+BEGIN:VEVENT
+DTSTART:20250825T180000Z
+DTEND:20250825T200000Z
+RECURRENCE-ID:20250825T180000Z
+UID:open-studio@google.com
+SUMMARY:Open Studio - Adults (19 and up) only
+STATUS:CANCELLED
+END:VEVENT
+
+END:VCALENDAR`;
+
+    it('should expand occurrences with exclusions and overrides', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        text: () => Promise.resolve(recurringICalData)
+      });
+
+      const events = await fetcher.fetchEvents(
+        new Date('2025-08-01T00:00:00Z'),
+        new Date('2025-08-31T23:59:59Z')
+      );
+
+      const sorted = CalendarUtils.sortEventsByStartTime(events);
+      expect(sorted.map(e => e.start)).toEqual([
+        '2025-08-04T18:00:00Z',
+        '2025-08-11T19:00:00Z'
+      ]);
+      expect(sorted[1].title).toBe('Open Studio (late start) - Adults (19 and up) only');
+      expect(sorted.map(e => e.id)).toEqual([
+        'open-studio@google.com_20250804T180000Z',
+        'open-studio@google.com_20250811T180000Z'
+      ]);
+      sorted.forEach(event => {
+        expect(event.isRecurring).toBe(true);
+        expect(event.recurringEventId).toBe('open-studio@google.com');
+      });
+    });
+  });
+
+  describe('Time Zones', () => {
+    const zonedICalData = `BEGIN:VCALENDAR
+VERSION:2.0
+PRODID:-//Test//Test//EN
+X-WR-TIMEZONE:America/Chicago
+
+BEGIN:VEVENT
+DTSTART;TZID=America/Chicago:20251027T180000
+DTEND;TZID=America/Chicago:20251027T200000
+RRULE:FREQ=WEEKLY;COUNT=2
+UID:tz-weekly@google.com
+SUMMARY:Open Studio - Adults (19 and up) only
+STATUS:CONFIRMED
+END:VEVENT
+
+BEGIN:VEVENT
+DTSTART:20251028T090000
+DTEND:20251028T100000
+UID:floating@google.com
+SUMMARY:Floating Coffee Hour
+STATUS:CONFIRMED
+END:VEVENT
+
+BEGIN:VEVENT
+DTSTART;VALUE=DATE:20251029
+DTEND;VALUE=DATE:20251030
+UID:all-day@google.com
+SUMMARY:Holiday Hours
+STATUS:CONFIRMED
+END:VEVENT
+
+END:VCALENDAR`;
+
+    it('should convert TZID, floating and all-day times correctly', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        text: () => Promise.resolve(zonedICalData)
+      });
+
+      const events = await fetcher.fetchEvents(
+        new Date('2025-10-20T00:00:00Z'),
+        new Date('2025-11-10T00:00:00Z')
+      );
+      const byId = Object.fromEntries(events.map(e => [e.id, e]));
+
+      // 6pm Chicago is 23:00Z during CDT and 00:00Z after the November DST change
+      expect(byId['tz-weekly@google.com_20251027T230000Z'].start).toBe('2025-10-27T23:00:00Z');
+      expect(byId['tz-weekly@google.com_20251104T000000Z'].start).toBe('2025-11-04T00:00:00Z');
+      expect(byId['tz-weekly@google.com_20251104T000000Z'].end).toBe('2025-11-04T02:00:00Z');
+
+      // Floating times use X-WR-TIMEZONE
+      expect(byId['floating@google.com'].start).toBe('2025-10-28T14:00:00Z');
+
+      // All-day events stay floating dates
+      expect(byId['all-day@google.com'].start).toBe('2025-10-29');
+      expect(byId['all-day@google.com'].end).toBe('2025-10-30');
+      expect(byId['all-day@google.com'].isAllDay).toBe(true);
+    });
+
+    it('should keep the last evening occurrence of a date-only UNTIL west of UTC', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        text: () => Promise.resolve(`BEGIN:VCALENDAR
+VERSION:2.0
+PRODID:-//Test//Test//EN
+
+BEGIN:VEVENT
+DTSTART;TZID=America/Chicago:20250804T190000
+DTEND;TZID=America/Chicago:20250804T210000
+RRULE:FREQ=WEEKLY;UNTIL=20250825
+UID:evening@google.com
+SUMMARY:Evening Open Shop
+STATUS:CONFIRMED
+END:VEVENT
+
+END:VCALENDAR`)
+      });
+
+      const events = await fetcher.fetchEvents(
+        new Date('2025-08-01T00:00:00Z'),
+        new Date('2025-09-30T00:00:00Z')
+      );
+
+      // 7pm CDT on the UNTIL day is 00:00Z the next day, and still part of the series
+      expect(CalendarUtils.sortEventsByStartTime(events).map(e => e.start)).toEqual([
+        '2025-08-05T00:00:00Z',
+        '2025-08-12T00:00:00Z',
+        '2025-08-19T00:00:00Z',
+        '2025-08-26T00:00:00Z'
+      ]);
+    });
+  });
+
+  describe('Audience Markers', () => {
+    const taggedICalData = `BEGIN:VCALENDAR
+VERSION:2.0
+PRODID:-//Test//Test//EN
+
+BEGIN:VEVENT
+DTSTART:20250812T180000Z
+DTEND:20250812T200000Z
+UID:tagged@google.com
+SUMMARY:Robotics Night - Adults welcome #age:teens
+DESCRIPTION:📑 Build a line follower. [Audience: Teens]
+STATUS:CONFIRMED
+END:VEVENT
+
+BEGIN:VEVENT
+DTSTART:20250813T180000Z
+DTEND:20250813T200000Z
+UID:property@google.com
+SUMMARY:Family Build Day
+X-AUDIENCE:Kids 6-11
+CATEGORIES:Woodworking,Family\\, Friends
+STATUS:CONFIRMED
+END:VEVENT
+
+END:VCALENDAR`;
+
+    it('should prefer explicit markers and strip them from the display text', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        text: () => Promise.resolve(taggedICalData)
+      });
+
+      const events = await fetcher.fetchEvents(
+        new Date('2025-08-01T00:00:00Z'),
+        new Date('2025-08-31T23:59:59Z')
+      );
+      const byId = Object.fromEntries(events.map(e => [e.id, e]));
+
+      expect(byId['tagged@google.com'].ageGroup.group).toBe('teens');
+      expect(byId['tagged@google.com'].ageGroupMethod).toBe('tag');
+      expect(byId['tagged@google.com'].title).toBe('Robotics Night - Adults welcome');
+      expect(byId['tagged@google.com'].description).toBe('Build a line follower.');
+
+      expect(byId['property@google.com'].ageGroup.group).toBe('elementary');
+      expect(byId['property@google.com'].ageGroupMethod).toBe('property');
+      expect(byId['property@google.com'].categories).toEqual(['Woodworking', 'Family, Friends']);
+    });
+  });
+
   describe('Performance and Scalability', () => {
     it('should handle large datasets efficiently', async () => {
       // Generate a large iCal dataset
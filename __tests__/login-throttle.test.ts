@@ -0,0 +1,56 @@
+// __tests__/login-throttle.test.ts
+import { LoginThrottle } from '../src/lib/login-throttle';
+
+describe('LoginThrottle', () => {
+  const minute = 60 * 1000;
+  let throttle: LoginThrottle;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation();
+    throttle = new LoginThrottle({ maxFailures: 3, windowMs: 10 * minute, lockoutMs: 15 * minute });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should lock an IP out after too many failures, then let it try again', () => {
+    throttle.recordFailure('10.0.0.5', 0);
+    throttle.recordFailure('10.0.0.5', minute);
+    expect(throttle.getRetryAfterSeconds('10.0.0.5', minute)).toBe(0);
+
+    throttle.recordFailure('10.0.0.5', 2 * minute);
+    expect(throttle.getRetryAfterSeconds('10.0.0.5', 2 * minute)).toBe(15 * 60);
+    expect(throttle.getRetryAfterSeconds('10.0.0.6', 2 * minute)).toBe(0);
+
+    expect(throttle.getRetryAfterSeconds('10.0.0.5', 17 * minute)).toBe(0);
+    throttle.recordFailure('10.0.0.5', 17 * minute);
+    expect(throttle.getRetryAfterSeconds('10.0.0.5', 17 * minute)).toBe(0); // the count started over
+  });
+
+  it('should only count failures within the window', () => {
+    throttle.recordFailure('10.0.0.5', 0);
+    throttle.recordFailure('10.0.0.5', minute);
+    throttle.recordFailure('10.0.0.5', 11 * minute);
+
+    expect(throttle.getRetryAfterSeconds('10.0.0.5', 11 * minute)).toBe(0);
+  });
+
+  it('should reset the count after a successful login', () => {
+    throttle.recordFailure('10.0.0.5', 0);
+    throttle.recordFailure('10.0.0.5', 0);
+    throttle.recordSuccess('10.0.0.5');
+    throttle.recordFailure('10.0.0.5', 0);
+
+    expect(throttle.getRetryAfterSeconds('10.0.0.5', 0)).toBe(0);
+  });
+
+  it('should count reserved attempts before the password is checked', () => {
+    // Three requests in flight at once: each is counted as it arrives
+    expect(throttle.reserveAttempt('10.0.0.5', 0)).toBe(0);
+    expect(throttle.reserveAttempt('10.0.0.5', 0)).toBe(0);
+    expect(throttle.reserveAttempt('10.0.0.5', 0)).toBe(0);
+    expect(throttle.reserveAttempt('10.0.0.5', 0)).toBe(15 * 60);
+    expect(throttle.reserveAttempt('10.0.0.6', 0)).toBe(0);
+  });
+});
@@ -0,0 +1,51 @@
+// __tests__/offline-status.test.ts
+import { EventWindow, ProcessedEvent } from '../shared/types';
+import { computeOfflineStatus } from '../src/lib/offline-status';
+
+describe('computeOfflineStatus', () => {
+  const ageGroup = { group: 'teens', emoji: '🧑‍🎓', label: 'Teens', color: '#ea580c' };
+  const event = (id: string, start: string, end: string): ProcessedEvent => ({
+    id, title: id, start, end, ageGroup
+  }) as ProcessedEvent;
+
+  const eventWindow: EventWindow = {
+    from: '2025-08-11T12:00:00.000Z',
+    to: '2025-08-12T12:00:00.000Z',
+    servedAt: '2025-08-11T12:00:00.000Z',
+    events: [
+      event('robotics', '2025-08-11T15:00:00Z', '2025-08-11T17:00:00Z'),
+      event('laser', '2025-08-13T15:00:00Z', '2025-08-13T16:00:00Z')
+    ]
+  };
+
+  it('should count down against the display clock', () => {
+    expect(computeOfflineStatus(eventWindow, new Date('2025-08-11T13:30:00Z'))).toMatchObject({
+      status: 'between',
+      timeUntilNext: '1h 30m'
+    });
+    expect(computeOfflineStatus(eventWindow, new Date('2025-08-11T16:20:00Z'))).toMatchObject({
+      status: 'current',
+      timeRemaining: '40m',
+      currentTime: '2025-08-11T16:20:00.000Z'
+    });
+  });
+
+  it('should keep showing the next event after the window, flagged as degraded', () => {
+    const status = computeOfflineStatus(eventWindow, new Date('2025-08-12T13:00:00Z'));
+
+    expect(status.status).toBe('closed');
+    expect(status.nextEvent?.id).toBe('laser');
+    expect(status.degraded).toBe(true);
+    expect(computeOfflineStatus(eventWindow, new Date('2025-08-11T13:00:00Z')).degraded).toBeUndefined();
+  });
+
+  it('should stay at a mocked time', () => {
+    const mocked = { ...eventWindow, mockTime: '2025-08-11T16:00:00.000Z' };
+
+    expect(computeOfflineStatus(mocked, new Date('2025-08-11T20:00:00Z'))).toMatchObject({
+      status: 'current',
+      timeRemaining: '1h 0m',
+      mockTime: '2025-08-11T16:00:00.000Z'
+    });
+  });
+});
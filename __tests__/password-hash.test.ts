@@ -0,0 +1,35 @@
+// __tests__/password-hash.test.ts
+import { hashPassword, isPasswordHash, verifyPassword } from '../src/lib/password-hash';
+
+describe('password hashing', () => {
+  it('should verify the right password and reject others', async () => {
+    const hash = await hashPassword('correct horse');
+
+    expect(isPasswordHash(hash)).toBe(true);
+    expect(hash).not.toContain('correct horse');
+    await expect(verifyPassword('correct horse', hash)).resolves.toBe(true);
+    await expect(verifyPassword('correct horse ', hash)).resolves.toBe(false);
+    await expect(verifyPassword('', hash)).resolves.toBe(false);
+  });
+
+  it('should salt every hash', async () => {
+    const [a, b] = await Promise.all([hashPassword('same'), hashPassword('same')]);
+
+    expect(a).not.toBe(b);
+    await expect(verifyPassword('same', b)).resolves.toBe(true);
+  });
+
+  it('should read the parameters stored in the hash', async () => {
+    // Cheaper parameters than the current defaults still verify
+    const legacy = 'scrypt:1024:8:1:c2FsdHNhbHRzYWx0c2FsdA==:lNXnVybcIF/Evabjfgr/kT4aLfRHtg07fmRoRNiigew=';
+
+    expect(isPasswordHash(legacy)).toBe(true);
+    await expect(verifyPassword('makerspace', legacy)).resolves.toBe(true);
+  });
+
+  it('should never match a malformed hash', async () => {
+    expect(isPasswordHash('makerspace2024')).toBe(false);
+    await expect(verifyPassword('makerspace2024', 'makerspace2024')).resolves.toBe(false);
+    await expect(verifyPassword('x', 'scrypt:3:8:1:c2FsdA==:aGFzaA==')).resolves.toBe(false); // N must be a power of two
+  });
+});
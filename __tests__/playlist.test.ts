@@ -0,0 +1,108 @@
+// __tests__/playlist.test.ts
+import { DEFAULT_PLAYLIST, LIVE_SLIDE, PlaylistContext, PlaylistEngine } from '../src/lib/playlist';
+import { PlaylistConfig } from '../src/lib/playlist-config';
+import { LocalStorage, MemoryStorage } from '../src/lib/local-storage';
+import { Playlist } from '../shared/types';
+
+describe('PlaylistEngine', () => {
+  const now = new Date('2025-08-11T15:00:00Z');
+  const context = (overrides: Partial<PlaylistContext> = {}): PlaylistContext => ({
+    now,
+    currentEventStarts: [],
+    contentCounts: { agenda: 3, week: 10, announcements: 1 },
+    ...overrides
+  });
+
+  describe('getNextSlide', () => {
+    it('should rotate through slides in order and wrap around', () => {
+      expect(PlaylistEngine.getNextSlide(DEFAULT_PLAYLIST, context(), 'live').id).toBe('agenda');
+      expect(PlaylistEngine.getNextSlide(DEFAULT_PLAYLIST, context(), 'agenda').id).toBe('week');
+      expect(PlaylistEngine.getNextSlide(DEFAULT_PLAYLIST, context(), 'week').id).toBe('announcements');
+      expect(PlaylistEngine.getNextSlide(DEFAULT_PLAYLIST, context(), 'announcements').id).toBe('live');
+      expect(PlaylistEngine.getNextSlide(DEFAULT_PLAYLIST, context(), null).id).toBe('live');
+    });
+
+    it('should skip empty slides marked skipWhenEmpty', () => {
+      const quiet = context({ contentCounts: { agenda: 0, week: 4, announcements: 0 } });
+
+      expect(PlaylistEngine.getNextSlide(DEFAULT_PLAYLIST, quiet, 'live').id).toBe('week');
+      expect(PlaylistEngine.getNextSlide(DEFAULT_PLAYLIST, quiet, 'week').id).toBe('live');
+      // Unknown counts are not treated as empty
+      expect(PlaylistEngine.getNextSlide(DEFAULT_PLAYLIST, context({ contentCounts: {} }), 'live').id).toBe('agenda');
+    });
+
+    it('should skip disabled slides and fall back to the live view', () => {
+      const playlist: Playlist = {
+        slides: [
+          { id: 'agenda', type: 'agenda', durationSeconds: 20, skipWhenEmpty: true },
+          { id: 'week', type: 'week', durationSeconds: 20, enabled: false }
+        ],
+        rules: { pinLiveMinutes: 0 }
+      };
+
+      expect(PlaylistEngine.getNextSlide(playlist, context(), 'agenda').id).toBe('agenda');
+      expect(PlaylistEngine.getNextSlide(playlist, context({ contentCounts: { agenda: 0 } }), 'agenda')).toEqual(LIVE_SLIDE);
+    });
+
+    it('should pin the live view during the first minutes of an event', () => {
+      const justStarted = context({ currentEventStarts: ['2025-08-11T14:57:00Z'] });
+      const startedAWhileAgo = context({ currentEventStarts: ['2025-08-11T14:00:00Z'] });
+
+      expect(PlaylistEngine.isLivePinned(DEFAULT_PLAYLIST, justStarted)).toBe(true);
+      expect(PlaylistEngine.getNextSlide(DEFAULT_PLAYLIST, justStarted, 'live').id).toBe('live');
+      expect(PlaylistEngine.isLivePinned(DEFAULT_PLAYLIST, startedAWhileAgo)).toBe(false);
+      expect(PlaylistEngine.isLivePinned({ ...DEFAULT_PLAYLIST, rules: { pinLiveMinutes: 0 } }, justStarted)).toBe(false);
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept the default playlist', () => {
+      expect(PlaylistEngine.validate(DEFAULT_PLAYLIST)).toEqual([]);
+    });
+
+    it('should report every problem', () => {
+      expect(PlaylistEngine.validate({ slides: [] })).toEqual(['slides must be a non-empty array']);
+      expect(PlaylistEngine.validate({
+        slides: [
+          { id: 'live', type: 'live', durationSeconds: 2, enabled: false },
+          { id: 'live', type: 'clock', durationSeconds: 30, enabled: false }
+        ],
+        rules: { pinLiveMinutes: -1 }
+      })).toEqual([
+        'slides[0].durationSeconds must be between 5 and 3600',
+        'slides[1].id "live" is used twice',
+        'slides[1].type must be one of: live, agenda, week, announcements',
+        'At least one slide must be enabled',
+        'rules.pinLiveMinutes must be between 0 and 240'
+      ]);
+    });
+  });
+});
+
+describe('PlaylistConfig', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should persist a saved playlist and reset to the default', () => {
+    const storage = new LocalStorage(new MemoryStorage());
+    const config = new PlaylistConfig(storage);
+    expect(config.get()).toEqual(DEFAULT_PLAYLIST);
+
+    const saved = config.save({
+      slides: [{ id: 'week', type: 'week', durationSeconds: 60, extra: 'dropped' } as never],
+      rules: { pinLiveMinutes: 10 }
+    });
+
+    expect(saved).toEqual({ slides: [{ id: 'week', type: 'week', durationSeconds: 60 }], rules: { pinLiveMinutes: 10 } });
+    expect(new PlaylistConfig(storage).get()).toEqual(saved);
+    expect(config.isCustomized()).toBe(true);
+
+    config.reset();
+    expect(config.get()).toEqual(DEFAULT_PLAYLIST);
+  });
+});
@@ -0,0 +1,44 @@
+// __tests__/process-singleton.test.ts
+import { processSingleton } from '../src/lib/process-singleton';
+
+// Keep the real calendar sources out of this test
+jest.mock('../src/lib/calendar-aggregator', () => ({
+  calendarAggregator: { getSourceCount: () => 1, fetchAll: jest.fn() }
+}));
+jest.mock('../src/lib/server-storage', () => {
+  const { LocalStorage, MemoryStorage } = jest.requireActual('../src/lib/local-storage');
+  return { serverStorage: new LocalStorage(new MemoryStorage()) };
+});
+
+describe('processSingleton', () => {
+  it('should create the instance once and reuse it', () => {
+    const create = jest.fn(() => ({ created: true }));
+
+    const first = processSingleton('test.reuse', create);
+
+    expect(processSingleton('test.reuse', create)).toBe(first);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share the cache, notifier and scheduler between separately loaded module copies', async () => {
+    // Each isolated load stands in for a separate bundle (instrumentation vs. route handlers)
+    const load = async () => {
+      let modules: Record<string, unknown> = {};
+      await jest.isolateModulesAsync(async () => {
+        modules = {
+          calendarCache: (await import('../src/lib/calendar-cache')).calendarCache,
+          statusNotifier: (await import('../src/lib/status-notifier')).statusNotifier,
+          refreshScheduler: (await import('../src/lib/refresh-scheduler')).refreshScheduler
+        };
+      });
+      return modules;
+    };
+
+    const instrumentation = await load();
+    const routes = await load();
+
+    expect(routes.calendarCache).toBe(instrumentation.calendarCache);
+    expect(routes.statusNotifier).toBe(instrumentation.statusNotifier);
+    expect(routes.refreshScheduler).toBe(instrumentation.refreshScheduler);
+  });
+});
@@ -0,0 +1,63 @@
+// __tests__/qr-code.test.ts
+import { QrCode } from '../src/lib/qr-code';
+
+describe('QrCode', () => {
+  // Reads the 15 format bits back from around the top-left finder
+  const readFormatBits = (qr: QrCode) => {
+    let bits = 0;
+    for (let i = 0; i <= 5; i++) bits |= Number(qr.getModule(8, i)) << i;
+    bits |= Number(qr.getModule(8, 7)) << 6;
+    bits |= Number(qr.getModule(8, 8)) << 7;
+    bits |= Number(qr.getModule(7, 8)) << 8;
+    for (let i = 9; i < 15; i++) bits |= Number(qr.getModule(14 - i, 8)) << i;
+    return bits ^ 0x5412;
+  };
+
+  it('should pick the smallest version that fits the text', () => {
+    expect(QrCode.encodeText('x'.repeat(14), 'M').version).toBe(1);
+    expect(QrCode.encodeText('x'.repeat(15), 'M').version).toBe(2);
+    expect(QrCode.encodeText('x'.repeat(213), 'M').version).toBe(10);
+    expect(QrCode.encodeText('x'.repeat(214), 'M').version).toBe(11);
+    expect(QrCode.encodeText('x'.repeat(17), 'L').version).toBe(1);
+  });
+
+  it('should size the symbol by version', () => {
+    const qr = QrCode.encodeText('https://example.com/events/laser-cutting-101');
+
+    expect(qr.size).toBe(qr.version * 4 + 17);
+    expect(qr.getModule(-1, 0)).toBe(false);
+    expect(qr.getModule(qr.size, qr.size)).toBe(false);
+  });
+
+  it('should draw finder patterns in three corners', () => {
+    const qr = QrCode.encodeText('https://example.com');
+    const finderRow = (x: number, y: number) => Array.from({ length: 7 }, (_, dx) => qr.getModule(x + dx, y));
+
+    for (const [x, y] of [[0, 0], [qr.size - 7, 0], [0, qr.size - 7]]) {
+      expect(finderRow(x, y)).toEqual([true, true, true, true, true, true, true]);
+      expect(finderRow(x, y + 1)).toEqual([true, false, false, false, false, false, true]);
+      expect(finderRow(x, y + 3)).toEqual([true, false, true, true, true, false, true]);
+    }
+  });
+
+  it('should write format bits for the error correction level and chosen mask', () => {
+    const formatBits = { L: 1, M: 0, Q: 3, H: 2 };
+
+    for (const level of ['L', 'M', 'Q', 'H'] as const) {
+      const qr = QrCode.encodeText('https://example.com', level);
+      expect(readFormatBits(qr) >>> 10).toBe((formatBits[level] << 3) | qr.mask);
+    }
+  });
+
+  it('should encode UTF-8 text the same way every time', () => {
+    const a = QrCode.encodeText('Café ✓');
+    const b = QrCode.encodeText('Café ✓');
+
+    expect(a.toSvg()).toBe(b.toSvg());
+    expect(a.toSvg()).toContain(`viewBox="0 0 ${a.size + 8} ${a.size + 8}"`);
+  });
+
+  it('should reject text that does not fit', () => {
+    expect(() => QrCode.encodeText('x'.repeat(3000), 'L')).toThrow('Text too long for a QR code');
+  });
+});
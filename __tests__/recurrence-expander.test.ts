@@ -0,0 +1,155 @@
+// __tests__/recurrence-expander.test.ts
+import { RecurrenceExpander } from '../src/lib/recurrence-expander';
+
+describe('RecurrenceExpander', () => {
+  const iso = (dates: Date[]) => dates.map(d => d.toISOString());
+
+  describe('parseRule', () => {
+    it('should parse frequency, interval, count and BYDAY', () => {
+      const rule = RecurrenceExpander.parseRule('FREQ=WEEKLY;INTERVAL=2;COUNT=6;BYDAY=MO,WE');
+
+      expect(rule).toEqual({
+        freq: 'WEEKLY',
+        interval: 2,
+        count: 6,
+        until: undefined,
+        byDay: [{ weekday: 1, ordinal: undefined }, { weekday: 3, ordinal: undefined }],
+        byMonthDay: [],
+        byMonth: []
+      });
+    });
+
+    it('should parse ordinal weekdays and UNTIL', () => {
+      const rule = RecurrenceExpander.parseRule('FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20251231T235959Z');
+
+      expect(rule?.byDay).toEqual([{ weekday: 5, ordinal: -1 }]);
+      expect(rule?.until?.toISOString()).toBe('2025-12-31T23:59:59.000Z');
+      expect(rule?.untilIsDate).toBeUndefined();
+    });
+
+    it('should flag a date-only UNTIL as covering the whole local day', () => {
+      const rule = RecurrenceExpander.parseRule('FREQ=WEEKLY;UNTIL=20250825');
+
+      expect(rule?.until?.toISOString()).toBe('2025-08-25T23:59:59.000Z');
+      expect(rule?.untilIsDate).toBe(true);
+    });
+
+    it('should return null for unsupported frequencies', () => {
+      expect(RecurrenceExpander.parseRule('FREQ=HOURLY')).toBeNull();
+      expect(RecurrenceExpander.parseRule('')).toBeNull();
+    });
+  });
+
+  describe('expand', () => {
+    const windowStart = new Date('2025-08-01T00:00:00Z');
+    const windowEnd = new Date('2025-08-31T23:59:59Z');
+
+    it('should expand a weekly rule inside the window', () => {
+      const rule = RecurrenceExpander.parseRule('FREQ=WEEKLY;BYDAY=MO')!;
+      const occurrences = RecurrenceExpander.expand(rule, new Date('2025-06-02T18:00:00Z'), windowStart, windowEnd);
+
+      expect(iso(occurrences)).toEqual([
+        '2025-08-04T18:00:00.000Z',
+        '2025-08-11T18:00:00.000Z',
+        '2025-08-18T18:00:00.000Z',
+        '2025-08-25T18:00:00.000Z'
+      ]);
+    });
+
+    it('should honor INTERVAL and multiple BYDAY values', () => {
+      const rule = RecurrenceExpander.parseRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH')!;
+      const occurrences = RecurrenceExpander.expand(rule, new Date('2025-08-05T17:00:00Z'), windowStart, windowEnd);
+
+      expect(iso(occurrences)).toEqual([
+        '2025-08-05T17:00:00.000Z',
+        '2025-08-07T17:00:00.000Z',
+        '2025-08-19T17:00:00.000Z',
+        '2025-08-21T17:00:00.000Z'
+      ]);
+    });
+
+    it('should count occurrences from DTSTART even before the window', () => {
+      const rule = RecurrenceExpander.parseRule('FREQ=DAILY;COUNT=5')!;
+      const occurrences = RecurrenceExpander.expand(rule, new Date('2025-07-29T10:00:00Z'), windowStart, windowEnd);
+
+      expect(iso(occurrences)).toEqual([
+        '2025-08-01T10:00:00.000Z',
+        '2025-08-02T10:00:00.000Z'
+      ]);
+    });
+
+    it('should stop at UNTIL', () => {
+      const rule = RecurrenceExpander.parseRule('FREQ=WEEKLY;UNTIL=20250815T000000Z')!;
+      const occurrences = RecurrenceExpander.expand(rule, new Date('2025-08-01T09:00:00Z'), windowStart, windowEnd);
+
+      expect(iso(occurrences)).toEqual([
+        '2025-08-01T09:00:00.000Z',
+        '2025-08-08T09:00:00.000Z'
+      ]);
+    });
+
+    it('should expand monthly rules by ordinal weekday and month day', () => {
+      const secondTuesday = RecurrenceExpander.parseRule('FREQ=MONTHLY;BYDAY=2TU')!;
+      const lastDay = RecurrenceExpander.parseRule('FREQ=MONTHLY;BYMONTHDAY=-1')!;
+      const start = new Date('2025-01-14T19:00:00Z');
+      const end = new Date('2025-04-30T23:59:59Z');
+
+      expect(iso(RecurrenceExpander.expand(secondTuesday, start, start, end))).toEqual([
+        '2025-01-14T19:00:00.000Z',
+        '2025-02-11T19:00:00.000Z',
+        '2025-03-11T19:00:00.000Z',
+        '2025-04-08T19:00:00.000Z'
+      ]);
+      expect(iso(RecurrenceExpander.expand(lastDay, start, start, end))).toEqual([
+        '2025-01-31T19:00:00.000Z',
+        '2025-02-28T19:00:00.000Z',
+        '2025-03-31T19:00:00.000Z',
+        '2025-04-30T19:00:00.000Z'
+      ]);
+    });
+
+    it('should expand yearly rules with BYMONTH', () => {
+      // US daylight saving start: second Sunday of March
+      const rule = RecurrenceExpander.parseRule('FREQ=YEARLY;BYMONTH=3;BYDAY=2SU')!;
+      const occurrences = RecurrenceExpander.expand(
+        rule,
+        new Date('2007-03-11T02:00:00Z'),
+        new Date('2025-01-01T00:00:00Z'),
+        new Date('2026-12-31T00:00:00Z')
+      );
+
+      expect(iso(occurrences)).toEqual([
+        '2025-03-09T02:00:00.000Z',
+        '2026-03-08T02:00:00.000Z'
+      ]);
+    });
+
+    it('should skip EXDATE occurrences', () => {
+      const rule = RecurrenceExpander.parseRule('FREQ=WEEKLY;BYDAY=MO')!;
+      const occurrences = RecurrenceExpander.expand(
+        rule,
+        new Date('2025-08-04T18:00:00Z'),
+        windowStart,
+        windowEnd,
+        [new Date('2025-08-11T18:00:00Z')]
+      );
+
+      expect(iso(occurrences)).not.toContain('2025-08-11T18:00:00.000Z');
+      expect(occurrences).toHaveLength(3);
+    });
+
+    it('should reach the window for long-running series', () => {
+      const rule = RecurrenceExpander.parseRule('FREQ=DAILY')!;
+      const occurrences = RecurrenceExpander.expand(rule, new Date('2005-01-01T08:00:00Z'), windowStart, windowEnd);
+
+      expect(occurrences).toHaveLength(31);
+      expect(occurrences[0].toISOString()).toBe('2025-08-01T08:00:00.000Z');
+    });
+  });
+
+  describe('formatInstanceKey', () => {
+    it('should produce a compact UTC stamp', () => {
+      expect(RecurrenceExpander.formatInstanceKey(new Date('2025-08-11T09:00:00Z'))).toBe('20250811T090000Z');
+    });
+  });
+});
@@ -0,0 +1,212 @@
+// __tests__/refresh-scheduler.test.ts
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProcessedEvent } from '../shared/types';
+
+// Keep the real calendar sources (and the network) out of these tests
+jest.mock('../src/lib/calendar-aggregator', () => ({
+  calendarAggregator: {
+    getSourceCount: () => 1,
+    fetchAll: jest.fn()
+  }
+}));
+jest.mock('../src/lib/server-storage', () => {
+  const { LocalStorage, MemoryStorage } = jest.requireActual('../src/lib/local-storage');
+  return { serverStorage: new LocalStorage(new MemoryStorage()) };
+});
+
+import { getCalendarEvents, RefreshScheduler } from '../src/lib/refresh-scheduler';
+import { calendarCache } from '../src/lib/calendar-cache';
+import { calendarAggregator } from '../src/lib/calendar-aggregator';
+import { eventSnapshotStore } from '../src/lib/snapshot-store';
+import { serverStorage } from '../src/lib/server-storage';
+
+describe('RefreshScheduler', () => {
+  const ageGroup = { group: 'allages', emoji: '👪', label: 'All Ages', color: '#7c3aed' };
+  const events = [
+    { id: '1', title: 'Open Shop', ageGroup },
+    { id: '2', title: 'Robotics Club', ageGroup }
+  ] as ProcessedEvent[];
+
+  let scheduler: RefreshScheduler | null = null;
+
+  beforeEach(() => {
+    calendarCache.clear();
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    scheduler?.stop();
+    scheduler = null;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('optionsFromEnv', () => {
+    it('should read interval and jitter, falling back to defaults', () => {
+      expect(RefreshScheduler.optionsFromEnv({
+        CALENDAR_REFRESH_INTERVAL_MS: '60000',
+        CALENDAR_REFRESH_JITTER_MS: '0'
+      })).toEqual({ intervalMs: 60000, jitterMs: 0 });
+
+      expect(RefreshScheduler.optionsFromEnv({ CALENDAR_REFRESH_INTERVAL_MS: 'soon' })).toEqual({
+        intervalMs: 15 * 60 * 1000,
+        jitterMs: 60 * 1000
+      });
+    });
+  });
+
+  describe('refreshNow', () => {
+    it('should fill the cache and report duration and event count', async () => {
+      scheduler = new RefreshScheduler(jest.fn().mockResolvedValue(events), { intervalMs: 0, jitterMs: 0 });
+
+      const result = await scheduler.refreshNow();
+
+      expect(result.eventCount).toBe(2);
+      expect(result.durationMs).toBeGreaterThanOrEqual(0);
+      expect(calendarCache.get()).toEqual(events);
+      expect(scheduler.getStatus().lastResult).toEqual(result);
+    });
+
+    it('should coalesce concurrent refreshes into one loader call', async () => {
+      let resolveLoader: (value: ProcessedEvent[]) => void = () => {};
+      const loader = jest.fn(() => new Promise<ProcessedEvent[]>(resolve => { resolveLoader = resolve; }));
+      scheduler = new RefreshScheduler(loader, { intervalMs: 0, jitterMs: 0 });
+
+      const first = scheduler.refreshNow();
+      const second = scheduler.refreshNow();
+      const fromRequest = calendarCache.getOrRefresh(loader);
+      resolveLoader(events);
+
+      await expect(Promise.all([first, second])).resolves.toHaveLength(2);
+      await expect(fromRequest).resolves.toEqual(events);
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject when the loader fails', async () => {
+      scheduler = new RefreshScheduler(jest.fn().mockRejectedValue(new Error('offline')), { intervalMs: 0, jitterMs: 0 });
+
+      await expect(scheduler.refreshNow()).rejects.toThrow('offline');
+    });
+  });
+
+  describe('start/stop', () => {
+    it('should warm the cache at startup and refresh on the interval', async () => {
+      jest.useFakeTimers();
+      const loader = jest.fn().mockResolvedValue(events);
+      scheduler = new RefreshScheduler(loader, { intervalMs: 60000, jitterMs: 0 });
+
+      scheduler.start();
+      scheduler.start(); // no-op while running
+      await Promise.resolve();
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(scheduler.isRunning()).toBe(true);
+
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(loader).toHaveBeenCalledTimes(2);
+
+      scheduler.stop();
+      await jest.advanceTimersByTimeAsync(120000);
+      expect(loader).toHaveBeenCalledTimes(2);
+      expect(scheduler.getStatus().nextRunAt).toBeNull();
+    });
+
+    it('should add up to jitterMs to each interval', async () => {
+      jest.useFakeTimers();
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      const loader = jest.fn().mockResolvedValue(events);
+      scheduler = new RefreshScheduler(loader, { intervalMs: 60000, jitterMs: 10000 });
+
+      scheduler.start();
+      await jest.advanceTimersByTimeAsync(64999);
+      expect(loader).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(loader).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep scheduling after a failed refresh', async () => {
+      jest.useFakeTimers();
+      const loader = jest.fn()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValue(events);
+      scheduler = new RefreshScheduler(loader, { intervalMs: 1000, jitterMs: 0 });
+
+      scheduler.start();
+      await jest.advanceTimersByTimeAsync(2000);
+
+      expect(loader).toHaveBeenCalledTimes(3);
+      expect(calendarCache.get()).toEqual(events);
+    });
+  });
+
+  describe('getCalendarEvents', () => {
+    const fetchAll = calendarAggregator.fetchAll as jest.Mock;
+    const originalDataDir = process.env.DATA_DIR;
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'refresh-scheduler-'));
+      process.env.DATA_DIR = tempDir;
+      jest.spyOn(console, 'warn').mockImplementation();
+      jest.spyOn(console, 'error').mockImplementation();
+    });
+
+    afterEach(async () => {
+      process.env.DATA_DIR = originalDataDir;
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    const succeed = () => fetchAll.mockResolvedValue({
+      success: true, events, errors: [], lastFetch: new Date().toISOString()
+    });
+    const fail = () => fetchAll.mockResolvedValue({
+      success: false, events: [], errors: ['Main: Calendar fetch failed with status: 503'], lastFetch: new Date().toISOString()
+    });
+
+    it('should fetch, cache and snapshot events', async () => {
+      succeed();
+
+      const result = await getCalendarEvents();
+
+      expect(result.events).toEqual(events);
+      expect(result.degraded).toBe(false);
+      expect(result.fetchedAt).not.toBeNull();
+      expect((await eventSnapshotStore.load())?.events).toEqual(events);
+      expect(serverStorage.getAgeGroupStats()).toEqual({ allages: 2 });
+    });
+
+    it('should fall back to the disk snapshot after a cold start with the upstream down', async () => {
+      await eventSnapshotStore.save(events, new Date('2025-08-11T09:00:00Z'));
+      fail();
+
+      const result = await getCalendarEvents();
+
+      expect(result).toEqual({ events, fetchedAt: '2025-08-11T09:00:00.000Z', degraded: true });
+      // The snapshot now seeds the cache as stale data
+      expect(calendarCache.getStale()).toEqual(events);
+    });
+
+    it('should report degraded stale data while refreshes keep failing', async () => {
+      succeed();
+      await getCalendarEvents();
+      calendarCache.set(events, Date.now() - 31 * 60 * 1000);
+      fail();
+
+      await getCalendarEvents(); // serves stale, refresh fails in the background
+      await new Promise(resolve => setImmediate(resolve));
+      const result = await getCalendarEvents();
+
+      expect(result.events).toEqual(events);
+      expect(result.degraded).toBe(true);
+    });
+
+    it('should throw when the fetch fails and there is no snapshot', async () => {
+      fail();
+
+      await expect(getCalendarEvents()).rejects.toThrow('All calendar sources failed');
+    });
+  });
+});
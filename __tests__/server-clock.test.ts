@@ -0,0 +1,73 @@
+// __tests__/server-clock.test.ts
+import { ServerClock } from '../src/lib/server-clock';
+
+describe('ServerClock', () => {
+  const at = (iso: string) => new Date(iso).getTime();
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should have no offset before the first sample', () => {
+    expect(new ServerClock().getOffsetMs()).toBe(0);
+  });
+
+  it('should measure the offset against the middle of the round trip', () => {
+    const clock = new ServerClock();
+
+    // The display is 2 minutes slow; the server answered halfway through a 400ms request
+    clock.sample('2025-08-11T14:02:00.200Z', at('2025-08-11T14:00:00.000Z'), at('2025-08-11T14:00:00.400Z'));
+
+    expect(clock.getOffsetMs()).toBe(120000);
+  });
+
+  it('should prefer the sample with the shortest round trip', () => {
+    const clock = new ServerClock();
+
+    clock.sample('2025-08-11T14:00:05.000Z', at('2025-08-11T14:00:00.000Z'), at('2025-08-11T14:00:06.000Z'));
+    clock.sample('2025-08-11T14:01:00.050Z', at('2025-08-11T14:01:00.000Z'), at('2025-08-11T14:01:00.100Z'));
+
+    expect(clock.getOffsetMs()).toBe(0);
+  });
+
+  it('should only use pushed times until a measured sample arrives', () => {
+    const clock = new ServerClock();
+
+    // A stream message took an unknown time to arrive: about a second slow here
+    clock.samplePushed('2025-08-11T14:02:00.000Z', at('2025-08-11T14:00:01.000Z'));
+    expect(clock.getOffsetMs()).toBe(119000);
+
+    clock.sample('2025-08-11T14:02:05.050Z', at('2025-08-11T14:00:05.000Z'), at('2025-08-11T14:00:05.100Z'));
+    clock.samplePushed('2025-08-11T14:02:10.000Z', at('2025-08-11T14:00:12.000Z'));
+
+    expect(clock.getOffsetMs()).toBe(120000);
+  });
+
+  it('should forget old samples so drift is picked up', () => {
+    const clock = new ServerClock();
+    clock.sample('2025-08-11T14:00:00.000Z', at('2025-08-11T14:00:00.000Z'), at('2025-08-11T14:00:00.000Z'));
+
+    for (let i = 1; i <= 8; i++) {
+      const received = at('2025-08-11T14:00:00.000Z') + i * 1000;
+      clock.sample(new Date(received + 3000).toISOString(), received - 100, received + 100);
+    }
+
+    expect(clock.getOffsetMs()).toBe(3000);
+  });
+
+  it('should ignore unparseable timestamps', () => {
+    const clock = new ServerClock();
+    clock.sample('soon', 0, 10);
+
+    expect(clock.getOffsetMs()).toBe(0);
+  });
+
+  it('should read the server time from the local clock plus the offset', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-08-11T14:00:00Z'));
+    const clock = new ServerClock();
+    clock.sample('2025-08-11T13:59:30.000Z', Date.now(), Date.now());
+
+    expect(clock.now().toISOString()).toBe('2025-08-11T13:59:30.000Z');
+  });
+});
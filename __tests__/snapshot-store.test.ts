@@ -0,0 +1,55 @@
+// __tests__/snapshot-store.test.ts
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProcessedEvent } from '../shared/types';
+import { SnapshotStore } from '../src/lib/snapshot-store';
+
+describe('SnapshotStore', () => {
+  const events = [{ id: '1', title: 'Open Shop' }] as ProcessedEvent[];
+  const originalDataDir = process.env.DATA_DIR;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshot-store-'));
+    process.env.DATA_DIR = path.join(tempDir, 'data');
+  });
+
+  afterEach(async () => {
+    process.env.DATA_DIR = originalDataDir;
+    await fs.rm(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should create the data directory and round-trip events', async () => {
+    const store = new SnapshotStore('events.json');
+    await store.save(events, new Date('2025-08-11T09:00:00Z'));
+
+    expect(await store.load()).toEqual({ savedAt: '2025-08-11T09:00:00.000Z', events });
+    expect(store.getPath()).toBe(path.join(tempDir, 'data', 'events.json'));
+  });
+
+  it('should replace the snapshot without leaving temp files behind', async () => {
+    const store = new SnapshotStore('events.json');
+    await store.save(events);
+    await store.save([...events, { id: '2', title: 'Robotics Club' } as ProcessedEvent]);
+
+    expect((await store.load())?.events).toHaveLength(2);
+    expect(await fs.readdir(path.join(tempDir, 'data'))).toEqual(['events.json']);
+  });
+
+  it('should return null when there is no snapshot', async () => {
+    expect(await new SnapshotStore('missing.json').load()).toBeNull();
+  });
+
+  it('should ignore unreadable or malformed snapshots', async () => {
+    jest.spyOn(console, 'error').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+    await fs.mkdir(path.join(tempDir, 'data'), { recursive: true });
+    await fs.writeFile(path.join(tempDir, 'data', 'corrupt.json'), '{"savedAt":');
+    await fs.writeFile(path.join(tempDir, 'data', 'shape.json'), JSON.stringify({ savedAt: 'never', events: [] }));
+
+    expect(await new SnapshotStore('corrupt.json').load()).toBeNull();
+    expect(await new SnapshotStore('shape.json').load()).toBeNull();
+  });
+});
@@ -0,0 +1,167 @@
+// __tests__/status-calculator.test.ts
+import { ProcessedEvent } from '../shared/types';
+import {
+  buildDisplayStatus,
+  buildStatusTimeline,
+  formatTimeRemaining,
+  getNextStatusBoundary,
+  isSameDisplayStatus,
+  projectDisplayStatus
+} from '../src/lib/status-calculator';
+
+describe('status calculator', () => {
+  const ageGroup = { group: 'adults', emoji: '🧑', label: 'Adults', color: '#2563eb' };
+  const event = (id: string, start: string, end: string): ProcessedEvent => ({
+    id, title: id, start, end, ageGroup
+  }) as ProcessedEvent;
+
+  const events = [
+    event('welding', '2025-08-11T14:00:00Z', '2025-08-11T16:00:00Z'),
+    event('cnc', '2025-08-11T19:00:00Z', '2025-08-11T20:30:00Z')
+  ];
+
+  describe('buildDisplayStatus', () => {
+    it('should show the event in progress with its countdown', () => {
+      const status = buildDisplayStatus(events, new Date('2025-08-11T14:45:00Z'), { degraded: false });
+
+      expect(status).toMatchObject({
+        status: 'current',
+        displayTheme: 'adults',
+        themeColor: '#2563eb',
+        timeRemaining: '1h 15m',
+        timesRemaining: { welding: '1h 15m' },
+        timeUntilNext: '4h 15m',
+        degraded: false
+      });
+      expect(status.currentEvent?.id).toBe('welding');
+      expect(status.nextEvent?.id).toBe('cnc');
+    });
+
+    it('should include the raw instants of the events it carries', () => {
+      const allDay = { ...event('open-house', '2025-08-12', '2025-08-13'), isAllDay: true };
+      const status = buildDisplayStatus([...events, allDay], new Date('2025-08-11T21:00:00Z'));
+
+      expect(status.eventTimes).toEqual({
+        'open-house': { start: '2025-08-12T00:00:00.000Z', end: '2025-08-13T00:00:00.000Z' }
+      });
+      expect(buildDisplayStatus(events, new Date('2025-08-12T00:00:00Z')).eventTimes).toBeUndefined();
+    });
+
+    it('should be "between" within two hours of the next event and closed before that', () => {
+      expect(buildDisplayStatus(events, new Date('2025-08-11T17:00:00Z')).status).toBe('between');
+      expect(buildDisplayStatus(events, new Date('2025-08-11T16:59:59Z')).status).toBe('closed');
+      expect(buildDisplayStatus(events, new Date('2025-08-11T21:00:00Z'))).toMatchObject({
+        status: 'closed',
+        displayTheme: 'closed',
+        currentEvents: []
+      });
+    });
+  });
+
+  describe('getNextStatusBoundary', () => {
+    it('should return the next start, end or "between" transition', () => {
+      const boundary = (now: string) => getNextStatusBoundary(events, new Date(now))?.toISOString() ?? null;
+
+      expect(boundary('2025-08-11T13:00:00Z')).toBe('2025-08-11T14:00:00.000Z');
+      expect(boundary('2025-08-11T14:00:00Z')).toBe('2025-08-11T16:00:00.001Z');
+      expect(boundary('2025-08-11T16:30:00Z')).toBe('2025-08-11T17:00:00.000Z');
+      expect(boundary('2025-08-11T17:00:00Z')).toBe('2025-08-11T19:00:00.000Z');
+      expect(boundary('2025-08-11T21:00:00Z')).toBeNull();
+    });
+  });
+
+  describe('buildStatusTimeline', () => {
+    const summarize = (timeline: ReturnType<typeof buildStatusTimeline>) =>
+      timeline.transitions.map(({ at, causes, status }) => ({ at, causes, status: status.status }));
+
+    it('should list every change of status with its causes', () => {
+      const timeline = buildStatusTimeline(events, new Date('2025-08-11T10:00:00Z'), new Date('2025-08-12T10:00:00Z'));
+
+      expect(timeline.initial.status).toBe('closed');
+      expect(timeline.truncated).toBe(false);
+      expect(summarize(timeline)).toEqual([
+        { at: '2025-08-11T12:00:00.000Z', causes: [{ type: 'between', eventId: 'welding' }], status: 'between' },
+        { at: '2025-08-11T14:00:00.000Z', causes: [{ type: 'start', eventId: 'welding' }], status: 'current' },
+        { at: '2025-08-11T16:00:00.001Z', causes: [{ type: 'end', eventId: 'welding' }, { type: 'closed' }], status: 'closed' },
+        { at: '2025-08-11T17:00:00.000Z', causes: [{ type: 'between', eventId: 'cnc' }], status: 'between' },
+        { at: '2025-08-11T19:00:00.000Z', causes: [{ type: 'start', eventId: 'cnc' }], status: 'current' },
+        { at: '2025-08-11T20:30:00.001Z', causes: [{ type: 'end', eventId: 'cnc' }, { type: 'closed' }], status: 'closed' }
+      ]);
+      expect(timeline.transitions[2].status.nextEvent?.id).toBe('cnc');
+    });
+
+    it('should skip boundaries that change nothing on screen', () => {
+      const overlapping = [
+        event('open-shop', '2025-08-11T14:00:00Z', '2025-08-11T20:00:00Z'),
+        event('laser', '2025-08-11T17:00:00Z', '2025-08-11T18:00:00Z')
+      ];
+      const timeline = buildStatusTimeline(overlapping, new Date('2025-08-11T14:30:00Z'), new Date('2025-08-11T19:00:00Z'));
+
+      // laser coming within two hours (15:00) doesn't change the open shop view
+      expect(timeline.transitions.map(transition => transition.at)).toEqual([
+        '2025-08-11T17:00:00.000Z',
+        '2025-08-11T18:00:00.001Z'
+      ]);
+    });
+
+    it('should stop at maxTransitions', () => {
+      const timeline = buildStatusTimeline(events, new Date('2025-08-11T10:00:00Z'), new Date('2025-08-12T10:00:00Z'), {}, 2);
+
+      expect(timeline.transitions).toHaveLength(2);
+      expect(timeline.truncated).toBe(true);
+    });
+  });
+
+  describe('projectDisplayStatus', () => {
+    const received = {
+      ...buildDisplayStatus(events, new Date('2025-08-11T15:30:00Z'), { dataAge: 30 }),
+      serverTime: '2025-08-11T15:30:00.000Z'
+    };
+
+    it('should tick countdowns forward', () => {
+      expect(projectDisplayStatus(received, new Date('2025-08-11T15:45:30Z'))).toMatchObject({
+        status: 'current',
+        currentTime: '2025-08-11T15:45:30.000Z',
+        timeRemaining: '14m',
+        timeUntilNext: '3h 14m',
+        dataAge: 30,
+        serverTime: '2025-08-11T15:30:00.000Z'
+      });
+    });
+
+    it('should flip at event boundaries using only the events it carries', () => {
+      const afterWelding = projectDisplayStatus(received, new Date('2025-08-11T16:00:00.001Z'));
+      expect(afterWelding.status).toBe('closed');
+      expect(afterWelding.nextEvent).toBe(received.nextEvent);
+
+      expect(projectDisplayStatus(received, new Date('2025-08-11T17:00:00Z')).status).toBe('between');
+
+      const cncStarted = projectDisplayStatus(received, new Date('2025-08-11T19:00:00Z'));
+      expect(cncStarted.currentEvent).toBe(received.nextEvent);
+      expect(cncStarted.nextEvent).toBeUndefined(); // the server knows what's after
+    });
+
+    it('should leave mocked and instant-less statuses alone', () => {
+      const mocked = { ...received, mockTime: '2025-08-11T15:30:00.000Z' };
+      expect(projectDisplayStatus(mocked, new Date('2025-08-11T16:30:00Z'))).toBe(mocked);
+
+      const legacy = { ...received, eventTimes: undefined };
+      expect(projectDisplayStatus(legacy, new Date('2025-08-11T16:30:00Z'))).toBe(legacy);
+    });
+  });
+
+  it('should compare statuses ignoring when they were computed', () => {
+    const a = buildDisplayStatus(events, new Date('2025-08-11T14:44:10Z'), { dataAge: 10 });
+    const b = buildDisplayStatus(events, new Date('2025-08-11T14:44:50Z'), { dataAge: 50 });
+    const c = buildDisplayStatus(events, new Date('2025-08-11T14:45:10Z'), { dataAge: 70 });
+
+    expect(isSameDisplayStatus(a, b)).toBe(true);
+    expect(isSameDisplayStatus(a, c)).toBe(false); // the countdown moved on
+  });
+
+  it('should format remaining time', () => {
+    expect(formatTimeRemaining(-1)).toBe('0m');
+    expect(formatTimeRemaining(59 * 60 * 1000)).toBe('59m');
+    expect(formatTimeRemaining(125 * 60 * 1000)).toBe('2h 5m');
+  });
+});
@@ -0,0 +1,106 @@
+// __tests__/status-stream.test.ts
+import { ProcessedEvent } from '../shared/types';
+
+// Keep the real calendar sources (and the network) out of these tests
+jest.mock('../src/lib/calendar-aggregator', () => ({ calendarAggregator: {} }));
+jest.mock('../src/lib/server-storage', () => {
+  const { LocalStorage, MemoryStorage } = jest.requireActual('../src/lib/local-storage');
+  return { serverStorage: new LocalStorage(new MemoryStorage()) };
+});
+
+import { DisplayStatusSnapshot } from '../src/lib/display-status';
+import { buildDisplayStatus } from '../src/lib/status-calculator';
+import { DisplayStatusStream, formatServerSentEvent, StatusStreamEvent } from '../src/lib/status-stream';
+import { StatusNotifier } from '../src/lib/status-notifier';
+
+describe('DisplayStatusStream', () => {
+  const ageGroup = { group: 'teens', emoji: '🧑‍🎓', label: 'Teens', color: '#16a34a' };
+  const robotics = {
+    id: 'robotics', title: 'Robotics Club', start: '2025-08-11T14:00:30Z', end: '2025-08-11T15:00:00Z', ageGroup
+  } as ProcessedEvent;
+
+  let events: ProcessedEvent[];
+  let mockTime: string | undefined;
+  let sent: { event: StatusStreamEvent; data: unknown }[];
+  let notifier: StatusNotifier;
+  let stream: DisplayStatusStream;
+
+  const load = async (): Promise<DisplayStatusSnapshot> => ({
+    status: buildDisplayStatus(events, mockTime ? new Date(mockTime) : new Date(), { mockTime }),
+    events
+  });
+  const statuses = () => sent.filter(message => message.event === 'status').map(message => (message.data as { status: string }).status);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-08-11T14:00:00Z'));
+    jest.spyOn(console, 'log').mockImplementation();
+    events = [robotics];
+    mockTime = undefined;
+    sent = [];
+    notifier = new StatusNotifier();
+    stream = new DisplayStatusStream((event, data) => sent.push({ event, data }), load, notifier, { heartbeatMs: 25000 });
+  });
+
+  afterEach(() => {
+    stream.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should send the status on connect and again when an event starts', async () => {
+    await stream.start();
+    expect(statuses()).toEqual(['between']);
+
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(statuses()).toEqual(['between', 'current']);
+  });
+
+  it('should only send changed statuses, with heartbeats in between', async () => {
+    mockTime = '2025-08-11T12:00:00Z'; // frozen clock: nothing changes on its own
+    await stream.start();
+
+    await jest.advanceTimersByTimeAsync(120000);
+
+    expect(statuses()).toEqual(['closed']);
+    expect(sent.filter(message => message.event === 'heartbeat')).toHaveLength(4);
+  });
+
+  it('should push immediately when notified', async () => {
+    mockTime = '2025-08-11T12:00:00Z';
+    await stream.start();
+
+    mockTime = '2025-08-11T14:30:00Z';
+    notifier.notify('time override changed');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(statuses()).toEqual(['closed', 'current']);
+  });
+
+  it('should stop sending and unsubscribe when stopped', async () => {
+    await stream.start();
+    stream.stop();
+
+    notifier.notify('calendar data updated');
+    await jest.advanceTimersByTimeAsync(120000);
+
+    expect(sent).toHaveLength(1);
+    expect(notifier.getListenerCount()).toBe(0);
+  });
+
+  it('should keep running when computing the status fails', async () => {
+    const failing = jest.fn().mockRejectedValueOnce(new Error('offline')).mockImplementation(load);
+    jest.spyOn(console, 'warn').mockImplementation();
+    stream = new DisplayStatusStream((event, data) => sent.push({ event, data }), failing, notifier, { heartbeatMs: 25000 });
+
+    await stream.start();
+    expect(sent).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(60050);
+    expect(statuses()).toEqual(['current']);
+  });
+
+  it('should format Server-Sent Events', () => {
+    expect(formatServerSentEvent('heartbeat', { time: 'now' })).toBe('event: heartbeat\ndata: {"time":"now"}\n\n');
+  });
+});
@@ -0,0 +1,106 @@
+// __tests__/timezone.test.ts
+import { TimeZoneUtils, VTimeZone } from '../src/lib/timezone';
+
+describe('TimeZoneUtils', () => {
+  describe('getOffsetMinutes', () => {
+    it('should return DST-aware offsets for IANA zones', () => {
+      expect(TimeZoneUtils.getOffsetMinutes(new Date('2025-08-11T12:00:00Z'), 'America/Chicago')).toBe(-300);
+      expect(TimeZoneUtils.getOffsetMinutes(new Date('2025-01-11T12:00:00Z'), 'America/Chicago')).toBe(-360);
+      expect(TimeZoneUtils.getOffsetMinutes(new Date('2025-01-11T12:00:00Z'), 'Asia/Kolkata')).toBe(330);
+    });
+  });
+
+  describe('wallClockToUtc', () => {
+    it('should convert local wall clock times to UTC instants', () => {
+      const zone = TimeZoneUtils.resolveZone('America/Chicago')!;
+
+      expect(TimeZoneUtils.wallClockToUtc(new Date('2025-08-11T09:00:00Z'), zone).toISOString())
+        .toBe('2025-08-11T14:00:00.000Z');
+      expect(TimeZoneUtils.wallClockToUtc(new Date('2025-12-01T09:00:00Z'), zone).toISOString())
+        .toBe('2025-12-01T15:00:00.000Z');
+    });
+
+    it('should round-trip through utcToWallClock', () => {
+      const zone = TimeZoneUtils.resolveZone('Europe/Berlin')!;
+      const instant = new Date('2025-03-30T12:00:00Z');
+
+      const wall = TimeZoneUtils.utcToWallClock(instant, zone);
+      expect(wall.toISOString()).toBe('2025-03-30T14:00:00.000Z');
+      expect(TimeZoneUtils.wallClockToUtc(wall, zone).toISOString()).toBe(instant.toISOString());
+    });
+  });
+
+  describe('resolveZone', () => {
+    it('should resolve UTC aliases, IANA names and unknown zones', () => {
+      expect(TimeZoneUtils.resolveZone('UTC')).toBe(TimeZoneUtils.UTC);
+      expect(TimeZoneUtils.resolveZone('"America/New_York"')?.id).toBe('America/New_York');
+      expect(TimeZoneUtils.resolveZone('Not/AZone')).toBeNull();
+      expect(TimeZoneUtils.resolveZone(undefined)).toBeNull();
+    });
+  });
+
+  describe('VTimeZone', () => {
+    const lines = `BEGIN:VTIMEZONE
+TZID:Central Standard Time
+BEGIN:STANDARD
+DTSTART:16010101T020000
+TZOFFSETFROM:-0500
+TZOFFSETTO:-0600
+RRULE:FREQ=YEARLY;BYDAY=1SU;BYMONTH=11
+END:STANDARD
+BEGIN:DAYLIGHT
+DTSTART:16010101T020000
+TZOFFSETFROM:-0600
+TZOFFSETTO:-0500
+RRULE:FREQ=YEARLY;BYDAY=2SU;BYMONTH=3
+END:DAYLIGHT
+END:VTIMEZONE`.split('\n');
+
+    it('should parse observances and resolve offsets', () => {
+      const [zone] = VTimeZone.parseAll(lines);
+
+      expect(zone.id).toBe('Central Standard Time');
+      expect(zone.offsetAt(new Date('2025-08-11T12:00:00Z'))).toBe(-300);
+      expect(zone.offsetAt(new Date('2025-12-11T12:00:00Z'))).toBe(-360);
+    });
+
+    it('should be used for non-IANA TZIDs', () => {
+      const zones = VTimeZone.parseAll(lines);
+      const zone = TimeZoneUtils.resolveZone('Central Standard Time', zones)!;
+
+      expect(TimeZoneUtils.wallClockToUtc(new Date('2025-08-11T09:00:00Z'), zone).toISOString())
+        .toBe('2025-08-11T14:00:00.000Z');
+    });
+  });
+
+  describe('getLocalDayBounds', () => {
+    it('should use the local day, not the UTC day', () => {
+      // 02:00Z on the 12th is still the evening of the 11th in Chicago
+      const day = TimeZoneUtils.getLocalDayBounds(new Date('2025-08-12T02:00:00Z'), 'America/Chicago');
+
+      expect(day.date).toBe('2025-08-11');
+      expect(day.start.toISOString()).toBe('2025-08-11T05:00:00.000Z');
+      expect(day.end.toISOString()).toBe('2025-08-12T05:00:00.000Z');
+    });
+
+    it('should span 25 hours on the day DST ends', () => {
+      const day = TimeZoneUtils.getLocalDayBounds(new Date('2025-11-02T12:00:00Z'), 'America/Chicago');
+
+      expect(day.end.getTime() - day.start.getTime()).toBe(25 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('parseEventDate', () => {
+    it('should treat date-only values as local midnight in the given zone', () => {
+      expect(TimeZoneUtils.parseEventDate('2025-08-11', 'America/Chicago').toISOString())
+        .toBe('2025-08-11T05:00:00.000Z');
+      expect(TimeZoneUtils.parseEventDate('2025-08-11', 'UTC').toISOString())
+        .toBe('2025-08-11T00:00:00.000Z');
+    });
+
+    it('should pass through full ISO instants', () => {
+      expect(TimeZoneUtils.parseEventDate('2025-08-11T14:00:00Z', 'America/Chicago').toISOString())
+        .toBe('2025-08-11T14:00:00.000Z');
+    });
+  });
+});
@@ -1,13 +1,72 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import Link from 'next/link';
+import { DisplayManager } from './DisplayManager';
+import { ApiTokenManager } from './ApiTokenManager';
+
+type SessionState = 'checking' | 'signed-out' | 'signed-in';
 
 export function AdminPanel() {
+  const [session, setSession] = useState<SessionState>('checking');
   const [mockTime, setMockTime] = useState('');
   const [password, setPassword] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [message, setMessage] = useState('');
+  const [emergencyTitle, setEmergencyTitle] = useState('');
+  const [emergencyMessage, setEmergencyMessage] = useState('');
+  const [emergencySeverity, setEmergencySeverity] = useState<'critical' | 'warning'>('critical');
+  const [emergencyMinutes, setEmergencyMinutes] = useState('');
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then(result => setSession(result.authenticated ? 'signed-in' : 'signed-out'))
+      .catch(() => setSession('signed-out'));
+  }, []);
+
+  // Any admin call answering 401 means the session expired or was revoked
+  const checkSession = useCallback((response: Response) => {
+    if (response.status === 401) setSession('signed-out');
+  }, []);
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setSession('signed-in');
+      } else {
+        setMessage(`❌ ${result.error || 'Failed to sign in'}`);
+      }
+    } catch (error) {
+      setMessage('❌ Error: Could not connect to the API');
+      console.error('Login error:', error);
+    } finally {
+      setPassword('');
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
+    setMessage('');
+    setSession('signed-out');
+  };
 
   const handleTimeOverride = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -18,11 +77,9 @@ export function AdminPanel() {
       const response = await fetch('/api/admin/time-override', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          mockTime: mockTime || null,
-          password: password,
-        }),
+        body: JSON.stringify({ mockTime: mockTime || null }),
       });
+      checkSession(response);
 
       const result = await response.json();
 
@@ -49,40 +106,112 @@ export function AdminPanel() {
     setMockTime('');
   };
 
+  const handleRefresh = async () => {
+    setIsSubmitting(true);
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/admin/refresh', { method: 'POST' });
+      checkSession(response);
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setMessage(`✅ Calendar refreshed: ${result.eventCount} events in ${result.durationMs}ms`);
+      } else {
+        setMessage(`❌ ${result.error || 'Failed to refresh calendar'}`);
+      }
+    } catch (error) {
+      setMessage('❌ Error: Could not connect to the API');
+      console.error('Calendar refresh error:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEmergency = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!window.confirm(`Replace every display with "${emergencyTitle}"?`)) return;
+    setIsSubmitting(true);
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/admin/emergency', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: emergencyTitle,
+          message: emergencyMessage,
+          severity: emergencySeverity,
+          ...(emergencyMinutes ? { durationMinutes: Number(emergencyMinutes) } : {}),
+        }),
+      });
+      checkSession(response);
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setMessage(`✅ Emergency alert is live on all displays: ${result.alert.title}`);
+      } else {
+        setMessage(`❌ ${result.error || 'Failed to activate emergency alert'}`);
+      }
+    } catch (error) {
+      setMessage('❌ Error: Could not connect to the API');
+      console.error('Emergency alert error:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const clearEmergency = async () => {
+    setIsSubmitting(true);
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/admin/emergency', { method: 'DELETE' });
+      checkSession(response);
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setMessage(result.cleared ? '✅ Emergency alert cleared' : '✅ No emergency alert was active');
+      } else {
+        setMessage(`❌ ${result.error || 'Failed to clear emergency alert'}`);
+      }
+    } catch (error) {
+      setMessage('❌ Error: Could not connect to the API');
+      console.error('Emergency clear error:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-900 text-white p-4">
       <div className="max-w-4xl mx-auto">
         <div className="bg-surface rounded-lg border border-border shadow-lg">
-          <div className="p-6 border-b border-border">
-            <h1 className="text-3xl font-bold text-primary">
-              Admin Panel
-            </h1>
-            <p className="text-secondary">
-              Makerspace Display System Control
-            </p>
+          <div className="p-6 border-b border-border flex items-start justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-primary">
+                Admin Panel
+              </h1>
+              <p className="text-secondary">
+                Makerspace Display System Control
+              </p>
+            </div>
+            {session === 'signed-in' && (
+              <button
+                type="button"
+                onClick={handleLogout}
+                className="bg-secondary text-white font-bold py-2 px-4 rounded-lg"
+              >
+                Sign Out
+              </button>
+            )}
           </div>
 
-          <div className="p-6">
-            <form onSubmit={handleTimeOverride} className="space-y-6">
-              <div>
-                <label
-                  htmlFor="mockTime"
-                  className="block text-lg font-bold text-secondary mb-2"
-                >
-                  Time Override
-                </label>
-                <input
-                  type="datetime-local"
-                  id="mockTime"
-                  value={mockTime}
-                  onChange={(e) => setMockTime(e.target.value)}
-                  className="w-full p-3 bg-background border border-border rounded-md"
-                />
-                <p className="text-sm text-secondary mt-2">
-                  Leave empty to use real system time.
-                </p>
-              </div>
-
+          {session !== 'signed-in' ? (
+            <form onSubmit={handleLogin} className="p-6 space-y-6">
               <div>
                 <label
                   htmlFor="password"
@@ -95,41 +224,148 @@ export function AdminPanel() {
                   id="password"
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
                   className="w-full p-3 bg-background border border-border rounded-md"
+                  disabled={session === 'checking'}
                   required
                 />
               </div>
+              <button
+                type="submit"
+                disabled={isSubmitting || session === 'checking' || !password}
+                className="bg-primary text-white font-bold py-3 px-6 rounded-lg disabled:opacity-50"
+              >
+                {isSubmitting ? 'Signing in...' : 'Sign In'}
+              </button>
+              {message && (
+                <div className="p-4 rounded-md border bg-danger/20 border-danger text-danger">
+                  <p className="font-bold">{message}</p>
+                </div>
+              )}
+            </form>
+          ) : (
+            <div className="p-6">
+              <form onSubmit={handleTimeOverride} className="space-y-6">
+                <div>
+                  <label
+                    htmlFor="mockTime"
+                    className="block text-lg font-bold text-secondary mb-2"
+                  >
+                    Time Override
+                  </label>
+                  <input
+                    type="datetime-local"
+                    id="mockTime"
+                    value={mockTime}
+                    onChange={(e) => setMockTime(e.target.value)}
+                    className="w-full p-3 bg-background border border-border rounded-md"
+                  />
+                  <p className="text-sm text-secondary mt-2">
+                    Leave empty to use real system time.
+                  </p>
+                </div>
 
-              <div className="flex gap-4">
-                <button
-                  type="submit"
-                  disabled={isSubmitting}
-                  className="bg-primary text-white font-bold py-3 px-6 rounded-lg disabled:opacity-50"
-                >
-                  {isSubmitting ? 'Updating...' : 'Apply Override'}
-                </button>
-                <button
-                  type="button"
-                  onClick={clearOverride}
-                  className="bg-secondary text-white font-bold py-3 px-6 rounded-lg"
+                <div className="flex gap-4">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="bg-primary text-white font-bold py-3 px-6 rounded-lg disabled:opacity-50"
+                  >
+                    {isSubmitting ? 'Updating...' : 'Apply Override'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={clearOverride}
+                    className="bg-secondary text-white font-bold py-3 px-6 rounded-lg"
+                  >
+                    Clear Override
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleRefresh}
+                    disabled={isSubmitting}
+                    className="bg-secondary text-white font-bold py-3 px-6 rounded-lg disabled:opacity-50"
+                  >
+                    Refresh Calendar Now
+                  </button>
+                </div>
+              </form>
+
+              <form onSubmit={handleEmergency} className="space-y-4 mt-8 pt-6 border-t border-border">
+                <h2 className="text-2xl font-bold text-danger">🚨 Emergency Alert</h2>
+                <p className="text-sm text-secondary">
+                  Replaces every display with a full-screen alert until it is cleared or expires.
+                </p>
+                <input
+                  type="text"
+                  placeholder="Title, e.g. EVACUATE THE BUILDING"
+                  value={emergencyTitle}
+                  onChange={(e) => setEmergencyTitle(e.target.value)}
+                  maxLength={80}
+                  className="w-full p-3 bg-background border border-border rounded-md"
+                  required
+                />
+                <textarea
+                  placeholder="Instructions"
+                  value={emergencyMessage}
+                  onChange={(e) => setEmergencyMessage(e.target.value)}
+                  maxLength={500}
+                  rows={3}
+                  className="w-full p-3 bg-background border border-border rounded-md"
+                />
+                <div className="flex gap-4">
+                  <select
+                    value={emergencySeverity}
+                    onChange={(e) => setEmergencySeverity(e.target.value as 'critical' | 'warning')}
+                    className="p-3 bg-background border border-border rounded-md"
+                  >
+                    <option value="critical">Critical (red)</option>
+                    <option value="warning">Warning (yellow)</option>
+                  </select>
+                  <input
+                    type="number"
+                    min={1}
+                    placeholder="Minutes (empty = until cleared)"
+                    value={emergencyMinutes}
+                    onChange={(e) => setEmergencyMinutes(e.target.value)}
+                    className="flex-1 p-3 bg-background border border-border rounded-md"
+                  />
+                </div>
+                <div className="flex gap-4">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="bg-danger text-white font-bold py-3 px-6 rounded-lg disabled:opacity-50"
+                  >
+                    Activate on All Displays
+                  </button>
+                  <button
+                    type="button"
+                    onClick={clearEmergency}
+                    disabled={isSubmitting}
+                    className="bg-secondary text-white font-bold py-3 px-6 rounded-lg disabled:opacity-50"
+                  >
+                    Clear Alert
+                  </button>
+                </div>
+              </form>
+
+              {message && (
+                <div
+                  className={`mt-6 p-4 rounded-md border ${
+                    message.startsWith('✅')
+                      ? 'bg-success/20 border-success text-success'
+                      : 'bg-danger/20 border-danger text-danger'
+                  }`}
                 >
-                  Clear Override
-                </button>
-              </div>
-            </form>
+                  <p className="font-bold">{message}</p>
+                </div>
+              )}
 
-            {message && (
-              <div
-                className={`mt-6 p-4 rounded-md border ${
-                  message.startsWith('✅')
-                    ? 'bg-success/20 border-success text-success'
-                    : 'bg-danger/20 border-danger text-danger'
-                }`}
-              >
-                <p className="font-bold">{message}</p>
-              </div>
-            )}
-          </div>
+              <DisplayManager onUnauthorized={() => setSession('signed-out')} />
+              <ApiTokenManager onUnauthorized={() => setSession('signed-out')} />
+            </div>
+          )}
         </div>
 
         <div className="mt-8 text-center">
@@ -8,8 +8,32 @@ interface AgeGroupBadgeProps {
   className?: string;
 }
 
+interface AgeGroupBadgesProps {
+  ageGroup: AgeGroup;
+  ageGroups?: AgeGroup[]; // Primary first; events cached before multi-group support don't have it
+  className?: string;
+}
+
+// One badge per audience of an event
+export function AgeGroupBadges({ ageGroup, ageGroups, className = '' }: AgeGroupBadgesProps) {
+  const groups = ageGroups?.length ? ageGroups : [ageGroup];
+
+  if (groups.length === 1) {
+    return <AgeGroupBadge ageGroup={groups[0]} className={className} />;
+  }
+
+  return (
+    <HStack gap="2" wrap="wrap" justify="flex-end" className={className}>
+      {groups.map(group => (
+        <AgeGroupBadge key={group.group} ageGroup={group} />
+      ))}
+    </HStack>
+  );
+}
+
 export function AgeGroupBadge({ ageGroup, className = '' }: AgeGroupBadgeProps) {
-  const themeColor = `var(--theme-${ageGroup.group})`;
+  // Configured color first; the CSS variable covers events cached before colors were configurable
+  const themeColor = ageGroup.color || `var(--theme-${ageGroup.group})`;
   
   return (
     <Badge 
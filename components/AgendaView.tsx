@@ -0,0 +1,203 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { AgendaDay, ProcessedEvent } from '@/shared/types';
+import { Clock } from './Clock';
+import { ErrorBoundary } from './ErrorBoundary';
+import { AgeGroupBadges } from './AgeGroupBadge';
+import {
+  Box,
+  Flex,
+  Grid,
+  GridItem,
+  Heading,
+  Text,
+  VStack,
+  HStack,
+  Spinner
+} from '@chakra-ui/react';
+
+type RowState = 'finished' | 'current' | 'upcoming' | 'allDay';
+
+interface AgendaViewProps {
+  displayId?: string; // Scope to a registered display's rooms and age groups
+}
+
+export function AgendaView({ displayId }: AgendaViewProps = {}) {
+  const [agenda, setAgenda] = useState<AgendaDay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState<Date>(() => new Date());
+
+  const fetchAgenda = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/calendar/today${displayId ? `?display=${encodeURIComponent(displayId)}` : ''}`);
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status} ${response.statusText}`);
+      }
+      const data: AgendaDay = await response.json();
+      setAgenda(data);
+      setNow(data.mockTime ? new Date(data.mockTime) : new Date());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load agenda');
+    }
+  }, [displayId]);
+
+  useEffect(() => {
+    fetchAgenda();
+    const interval = setInterval(fetchAgenda, 60000);
+    return () => clearInterval(interval);
+  }, [fetchAgenda]);
+
+  // Move the "now" marker between polls (a mocked time stays put, like the Clock)
+  useEffect(() => {
+    if (agenda?.mockTime) return;
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, [agenda?.mockTime]);
+
+  if (!agenda) {
+    return (
+      <Flex className="tv-display" minH="100vh" direction="column" align="center" justify="center" p="16">
+        {error ? (
+          <Text fontSize="3xl" color="red.400">{error}</Text>
+        ) : (
+          <Spinner size="xl" color="blue.500" />
+        )}
+      </Flex>
+    );
+  }
+
+  const formatTime = (event: ProcessedEvent, time: string) =>
+    event.isAllDay
+      ? 'All Day'
+      : new Date(time).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: agenda.timeZone });
+
+  // All-day events span the whole day, so they are never finished or "live"
+  const stateOf = (event: ProcessedEvent): RowState => {
+    if (event.isAllDay) return 'allDay';
+    if (new Date(event.end) <= now) return 'finished';
+    if (new Date(event.start) <= now) return 'current';
+    return 'upcoming';
+  };
+
+  // The marker sits before the first event that hasn't started yet
+  const markerIndex = agenda.events.findIndex(event => stateOf(event) === 'upcoming');
+  const dayLabel = new Date(`${agenda.date}T12:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC'
+  });
+
+  return (
+    <ErrorBoundary>
+      <Box className="tv-display animate-fadeIn" h="100vh" w="100vw" p="6" display="flex" flexDirection="column" overflow="hidden">
+        <Grid as="header" templateColumns="1fr 1fr" alignItems="start" mb="4" h="100px">
+          <GridItem>
+            <VStack align="start" gap="1">
+              <Heading size="4xl" fontWeight="extrabold">Today at HQ</Heading>
+              <Text fontSize="2xl" color="fg.muted">{dayLabel}</Text>
+            </VStack>
+          </GridItem>
+          <GridItem>
+            <Clock currentTime={agenda.currentTime} mockTime={agenda.mockTime} />
+          </GridItem>
+        </Grid>
+
+        <VStack as="main" flex="1" align="stretch" gap="3" mt="16" overflow="hidden">
+          {agenda.events.length === 0 && (
+            <Text fontSize="4xl" color="fg.muted" textAlign="center" mt="20">
+              No events scheduled today
+            </Text>
+          )}
+
+          {agenda.events.map((event, index) => (
+            <Box key={event.id}>
+              {index === markerIndex && <NowMarker now={now} timeZone={agenda.timeZone} />}
+              <AgendaRow
+                event={event}
+                state={stateOf(event)}
+                now={now}
+                startLabel={formatTime(event, event.start)}
+                endLabel={event.isAllDay ? '' : formatTime(event, event.end)}
+              />
+            </Box>
+          ))}
+          {markerIndex === -1 && agenda.events.length > 0 && <NowMarker now={now} timeZone={agenda.timeZone} />}
+        </VStack>
+
+        {agenda.degraded && (
+          <Box as="footer" textAlign="center" mt="4" py="2">
+            <Text fontSize="xl" color="orange.300">⚠️ Schedule may be out of date</Text>
+          </Box>
+        )}
+      </Box>
+    </ErrorBoundary>
+  );
+}
+
+interface AgendaRowProps {
+  event: ProcessedEvent;
+  state: RowState;
+  now: Date;
+  startLabel: string;
+  endLabel: string;
+}
+
+function AgendaRow({ event, state, now, startLabel, endLabel }: AgendaRowProps) {
+  const color = event.ageGroup.color || `var(--theme-${event.ageGroup.group})`;
+  const room = event.source?.room || event.location;
+
+  // How far through an in-progress event we are, for its progress bar
+  const start = new Date(event.start).getTime();
+  const end = new Date(event.end).getTime();
+  const progress = state === 'current' && end > start ? Math.min(1, (now.getTime() - start) / (end - start)) : 0;
+
+  return (
+    <HStack
+      bg="surface"
+      rounded="md"
+      borderLeftWidth="12px"
+      borderLeftColor={color}
+      px="6"
+      py="4"
+      gap="8"
+      opacity={state === 'finished' ? 0.4 : 1}
+      position="relative"
+      overflow="hidden"
+    >
+      <VStack align="start" gap="0" minW="220px">
+        <Text fontSize="3xl" fontWeight="bold" color="fg">{startLabel}</Text>
+        {endLabel && <Text fontSize="xl" color="fg.muted">until {endLabel}</Text>}
+      </VStack>
+
+      <VStack align="start" gap="1" flex="1">
+        <Heading size="2xl" fontWeight="bold" textDecoration={state === 'finished' ? 'line-through' : undefined}>
+          {event.title}
+        </Heading>
+        {room && <Text fontSize="xl" color="fg.muted">📍 {room}</Text>}
+      </VStack>
+
+      {state === 'current' && (
+        <Text fontSize="2xl" fontWeight="bold" color="#10b981">Live Now</Text>
+      )}
+      <AgeGroupBadges ageGroup={event.ageGroup} ageGroups={event.ageGroups} />
+
+      {state === 'current' && (
+        <Box position="absolute" left="0" bottom="0" h="6px" bg={color} w={`${progress * 100}%`} />
+      )}
+    </HStack>
+  );
+}
+
+function NowMarker({ now, timeZone }: { now: Date; timeZone: string }) {
+  return (
+    <HStack gap="4" my="2" aria-label="Current time">
+      <Text fontSize="xl" fontWeight="bold" color="red.400">
+        NOW {now.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone })}
+      </Text>
+      <Box flex="1" h="4px" bg="red.400" rounded="full" />
+    </HStack>
+  );
+}
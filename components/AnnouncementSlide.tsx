@@ -0,0 +1,52 @@
+'use client';
+
+import { Announcement } from '@/shared/types';
+import { Box, Flex, Heading, Text, VStack, Image } from '@chakra-ui/react';
+
+interface AnnouncementSlideProps {
+  announcements: Announcement[];
+}
+
+// Full-screen slide for high priority announcements; the first two fit a 1080p screen
+export function AnnouncementSlide({ announcements }: AnnouncementSlideProps) {
+  const shown = announcements.slice(0, 2);
+
+  return (
+    <Flex className="tv-display animate-fadeIn" h="100vh" w="100vw" p="10" direction="column" gap="8" overflow="hidden">
+      <Heading size="5xl" fontWeight="extrabold" color="yellow.300">📢 Announcements</Heading>
+
+      <VStack flex="1" align="stretch" gap="8">
+        {shown.map(announcement => (
+          <Flex
+            key={announcement.id}
+            flex="1"
+            bg="surface"
+            rounded="lg"
+            borderWidth="4px"
+            borderColor="yellow.400"
+            p="10"
+            gap="10"
+            align="center"
+            overflow="hidden"
+          >
+            {announcement.imageUrl && (
+              <Image src={announcement.imageUrl} alt="" maxH="100%" maxW="40%" objectFit="contain" rounded="md" />
+            )}
+            <Box flex="1">
+              <Heading size="5xl" fontWeight="extrabold" mb="4">{announcement.title}</Heading>
+              {announcement.body && (
+                <Text fontSize="3xl" color="fg.muted" whiteSpace="pre-line">{announcement.body}</Text>
+              )}
+            </Box>
+          </Flex>
+        ))}
+      </VStack>
+
+      {announcements.length > shown.length && (
+        <Text fontSize="2xl" color="fg.muted" textAlign="center">
+          +{announcements.length - shown.length} more announcements
+        </Text>
+      )}
+    </Flex>
+  );
+}
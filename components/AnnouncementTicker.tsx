@@ -0,0 +1,34 @@
+'use client';
+
+import { Announcement } from '@/shared/types';
+import { Box, HStack, Text } from '@chakra-ui/react';
+
+interface AnnouncementTickerProps {
+  announcements: Announcement[];
+}
+
+// Roughly constant reading speed regardless of how much text there is
+const SECONDS_PER_CHARACTER = 0.25;
+
+export function AnnouncementTicker({ announcements }: AnnouncementTickerProps) {
+  if (announcements.length === 0) return null;
+
+  const characters = announcements.reduce((count, a) => count + a.title.length + a.body.length, 0);
+  const duration = Math.max(20, Math.round(characters * SECONDS_PER_CHARACTER));
+
+  const items = announcements.map(announcement => (
+    <HStack key={announcement.id} gap="3" px="10">
+      <Text fontSize="2xl" fontWeight="bold" color="yellow.300">📢 {announcement.title}</Text>
+      {announcement.body && <Text fontSize="2xl" color="fg">{announcement.body}</Text>}
+    </HStack>
+  ));
+
+  return (
+    <Box bg="surface" borderTopWidth="2px" borderColor="yellow.400" py="2" overflow="hidden" aria-label="Announcements">
+      <Box className="animate-ticker" style={{ '--ticker-duration': `${duration}s` } as React.CSSProperties}>
+        {items}
+        <Box aria-hidden="true" display="contents">{items}</Box>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import { ApiToken, ApiTokenScope } from '@/shared/types';
+
+interface ApiTokenManagerProps {
+  onUnauthorized: () => void; // The admin session expired; AdminPanel shows its login form
+}
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : 'never');
+
+// Admin editor for the bearer tokens scripts and kiosks use instead of a session
+export function ApiTokenManager({ onUnauthorized }: ApiTokenManagerProps) {
+  const [tokens, setTokens] = useState<ApiToken[] | null>(null);
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [name, setName] = useState('');
+  const [selectedScopes, setSelectedScopes] = useState<ApiTokenScope[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const loadTokens = async () => {
+    setMessage('');
+    try {
+      const response = await fetch('/api/admin/tokens');
+      if (response.status === 401) onUnauthorized();
+      const result = await response.json();
+      if (response.ok) {
+        setTokens(result.tokens);
+        setScopes(result.scopes);
+      } else {
+        setMessage(`❌ ${result.error || 'Failed to load API tokens'}`);
+      }
+    } catch (error) {
+      setMessage('❌ Error: Could not connect to the API');
+      console.error('API token list error:', error);
+    }
+  };
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setSelectedScopes(current =>
+      current.includes(scope) ? current.filter(entry => entry !== scope) : [...current, scope]
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setMessage('');
+    setNewSecret(null);
+
+    try {
+      const response = await fetch('/api/admin/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scopes: selectedScopes,
+          expiresInDays: expiresInDays ? Number(expiresInDays) : undefined,
+        }),
+      });
+      if (response.status === 401) onUnauthorized();
+      const result = await response.json();
+
+      if (response.ok) {
+        setMessage(`✅ Token created: ${result.token.name}`);
+        setNewSecret(result.secret);
+        setName('');
+        setSelectedScopes([]);
+        setExpiresInDays('');
+        await loadTokens();
+      } else {
+        setMessage(`❌ ${result.error || 'Failed to create API token'}`);
+      }
+    } catch (error) {
+      setMessage('❌ Error: Could not connect to the API');
+      console.error('API token create error:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!window.confirm(`Revoke token "${token.name}"? Scripts using it stop working immediately.`)) return;
+    setIsSubmitting(true);
+    setMessage('');
+
+    try {
+      const response = await fetch(`/api/admin/tokens/${token.id}`, { method: 'DELETE' });
+      if (response.status === 401) onUnauthorized();
+      const result = await response.json();
+
+      if (response.ok) {
+        setMessage(`✅ Token revoked: ${token.name}`);
+        await loadTokens();
+      } else {
+        setMessage(`❌ ${result.error || 'Failed to revoke API token'}`);
+      }
+    } catch (error) {
+      setMessage('❌ Error: Could not connect to the API');
+      console.error('API token revoke error:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 mt-8 pt-6 border-t border-border">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-primary">🔑 API Tokens</h2>
+        <button
+          type="button"
+          onClick={loadTokens}
+          className="bg-secondary text-white font-bold py-2 px-4 rounded-lg disabled:opacity-50"
+        >
+          {tokens ? 'Reload' : 'Load Tokens'}
+        </button>
+      </div>
+
+      {tokens && (
+        <ul className="space-y-2">
+          {tokens.length === 0 && <li className="text-secondary">No API tokens yet.</li>}
+          {tokens.map(token => (
+            <li key={token.id} className="flex items-center justify-between gap-4 p-3 rounded-md border border-border">
+              <div>
+                <span className="font-bold">{token.name}</span>{' '}
+                <span className="font-mono text-secondary">{token.prefix}…</span>
+                <p className="text-sm">{token.scopes.join(' · ')}</p>
+                <p className="text-sm text-secondary">
+                  Created {formatDate(token.createdAt)} · Expires {formatDate(token.expiresAt)} · Last used{' '}
+                  {formatDate(token.lastUsedAt)}{token.lastUsedIp ? ` from ${token.lastUsedIp}` : ''}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRevoke(token)}
+                disabled={isSubmitting}
+                className="bg-danger text-white font-bold py-2 px-4 rounded-lg disabled:opacity-50"
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {tokens && (
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <input
+              type="text"
+              placeholder="Name, e.g. Lobby kiosk"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={60}
+              className="p-3 bg-background border border-border rounded-md"
+              required
+            />
+            <input
+              type="number"
+              placeholder="Expires in days (empty = never)"
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value)}
+              min={1}
+              max={3650}
+              className="p-3 bg-background border border-border rounded-md"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {scopes.map(scope => (
+              <label key={scope} className="flex items-center gap-3 p-2 font-mono text-sm">
+                <input
+                  type="checkbox"
+                  checked={selectedScopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                />
+                {scope}
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting || selectedScopes.length === 0}
+            className="bg-primary text-white font-bold py-3 px-6 rounded-lg disabled:opacity-50"
+          >
+            Create Token
+          </button>
+        </form>
+      )}
+
+      {newSecret && (
+        <div className="p-4 rounded-md border border-warning bg-warning/20 space-y-2">
+          <p className="font-bold">Copy this token now. It won&apos;t be shown again.</p>
+          <code className="block p-3 bg-background rounded-md font-mono text-sm break-all select-all">{newSecret}</code>
+        </div>
+      )}
+
+      {message && (
+        <div
+          className={`p-4 rounded-md border ${
+            message.startsWith('✅')
+              ? 'bg-success/20 border-success text-success'
+              : 'bg-danger/20 border-danger text-danger'
+          }`}
+        >
+          <p className="font-bold">{message}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,9 +5,10 @@ import { useEffect, useState } from 'react';
 interface ClockProps {
   currentTime: string;
   mockTime?: string;
+  offsetMs?: number; // Server clock minus this device's clock (see useDisplayStatus)
 }
 
-export function Clock({ currentTime, mockTime }: ClockProps) {
+export function Clock({ currentTime, mockTime, offsetMs = 0 }: ClockProps) {
   const [displayTime, setDisplayTime] = useState<Date | null>(null);
 
   useEffect(() => {
@@ -18,12 +19,12 @@ export function Clock({ currentTime, mockTime }: ClockProps) {
       if (mockTime) {
         setDisplayTime(new Date(mockTime));
       } else {
-        setDisplayTime(new Date());
+        setDisplayTime(new Date(Date.now() + offsetMs));
       }
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [currentTime, mockTime]);
+  }, [currentTime, mockTime, offsetMs]);
 
   if (!displayTime) {
     return (
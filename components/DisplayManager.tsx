@@ -0,0 +1,306 @@
+'use client';
+
+import { useState } from 'react';
+import { DisplayConfig, DisplayLayout, DisplayOrientation } from '@/shared/types';
+
+interface DisplayManagerProps {
+  onUnauthorized: () => void; // The admin session expired; AdminPanel shows its login form
+}
+
+interface DisplayForm {
+  id: string;
+  name: string;
+  rooms: string;
+  ageGroups: string;
+  layout: DisplayLayout;
+  orientation: DisplayOrientation;
+  theme: string;
+  qrCodes: boolean;
+  playlist: string; // JSON; empty uses the shared playlist
+}
+
+const EMPTY_FORM: DisplayForm = {
+  id: '',
+  name: '',
+  rooms: '',
+  ageGroups: '',
+  layout: 'grid',
+  orientation: 'landscape',
+  theme: 'auto',
+  qrCodes: true,
+  playlist: ''
+};
+
+const splitList = (value: string) => value.split(',').map(entry => entry.trim()).filter(Boolean);
+
+// Admin editor for the named displays served at /display/<id>
+export function DisplayManager({ onUnauthorized }: DisplayManagerProps) {
+  const [displays, setDisplays] = useState<DisplayConfig[] | null>(null);
+  const [form, setForm] = useState<DisplayForm>(EMPTY_FORM);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const update = (fields: Partial<DisplayForm>) => setForm(current => ({ ...current, ...fields }));
+
+  const loadDisplays = async () => {
+    setMessage('');
+    try {
+      const response = await fetch('/api/admin/displays');
+      if (response.status === 401) onUnauthorized();
+      const result = await response.json();
+      if (response.ok) {
+        setDisplays(result.displays);
+      } else {
+        setMessage(`❌ ${result.error || 'Failed to load displays'}`);
+      }
+    } catch (error) {
+      setMessage('❌ Error: Could not connect to the API');
+      console.error('Display list error:', error);
+    }
+  };
+
+  const editDisplay = (display: DisplayConfig) => {
+    setEditing(display.id);
+    setForm({
+      id: display.id,
+      name: display.name,
+      rooms: (display.rooms ?? []).join(', '),
+      ageGroups: (display.ageGroups ?? []).join(', '),
+      layout: display.layout,
+      orientation: display.orientation,
+      theme: display.theme,
+      qrCodes: display.qrCodes !== false,
+      playlist: display.playlist ? JSON.stringify(display.playlist, null, 2) : ''
+    });
+  };
+
+  const newDisplay = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setMessage('');
+
+    try {
+      let playlist = null;
+      if (form.playlist.trim()) {
+        try {
+          playlist = JSON.parse(form.playlist);
+        } catch {
+          setMessage('❌ Playlist must be valid JSON');
+          return;
+        }
+      }
+
+      const body = {
+        id: form.id,
+        name: form.name,
+        rooms: splitList(form.rooms),
+        ageGroups: splitList(form.ageGroups),
+        layout: form.layout,
+        orientation: form.orientation,
+        theme: form.theme,
+        qrCodes: form.qrCodes,
+        playlist,
+      };
+      const response = await fetch(editing ? `/api/admin/displays/${editing}` : '/api/admin/displays', {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(editing ? body : { ...body, playlist: playlist ?? undefined }),
+      });
+      if (response.status === 401) onUnauthorized();
+      const result = await response.json();
+
+      if (response.ok) {
+        setMessage(`✅ Display saved: /display/${result.display.id}`);
+        setEditing(result.display.id);
+        await loadDisplays();
+      } else {
+        setMessage(`❌ ${result.error || 'Failed to save display'}`);
+      }
+    } catch (error) {
+      setMessage('❌ Error: Could not connect to the API');
+      console.error('Display save error:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editing || !window.confirm(`Remove display "${editing}"?`)) return;
+    setIsSubmitting(true);
+    setMessage('');
+
+    try {
+      const response = await fetch(`/api/admin/displays/${editing}`, { method: 'DELETE' });
+      if (response.status === 401) onUnauthorized();
+      const result = await response.json();
+
+      if (response.ok) {
+        setMessage(`✅ Display removed: ${editing}`);
+        newDisplay();
+        await loadDisplays();
+      } else {
+        setMessage(`❌ ${result.error || 'Failed to remove display'}`);
+      }
+    } catch (error) {
+      setMessage('❌ Error: Could not connect to the API');
+      console.error('Display delete error:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 mt-8 pt-6 border-t border-border">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-primary">🖥️ Displays</h2>
+        <div className="flex gap-4">
+          <button
+            type="button"
+            onClick={loadDisplays}
+            className="bg-secondary text-white font-bold py-2 px-4 rounded-lg disabled:opacity-50"
+          >
+            {displays ? 'Reload' : 'Load Displays'}
+          </button>
+          <button
+            type="button"
+            onClick={newDisplay}
+            className="bg-secondary text-white font-bold py-2 px-4 rounded-lg"
+          >
+            New Display
+          </button>
+        </div>
+      </div>
+
+      {displays && (
+        <ul className="space-y-2">
+          {displays.length === 0 && <li className="text-secondary">No displays registered yet.</li>}
+          {displays.map(display => (
+            <li key={display.id}>
+              <button
+                type="button"
+                onClick={() => editDisplay(display)}
+                className={`w-full text-left p-3 rounded-md border ${editing === display.id ? 'border-primary' : 'border-border'}`}
+              >
+                <span className="font-bold">{display.name}</span>{' '}
+                <span className="text-secondary">/display/{display.id} · {display.layout} · {display.orientation}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSave} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <input
+            type="text"
+            placeholder="id, e.g. woodshop"
+            value={form.id}
+            onChange={(e) => update({ id: e.target.value })}
+            disabled={editing !== null}
+            pattern="[a-z0-9][a-z0-9-]{0,39}"
+            className="p-3 bg-background border border-border rounded-md disabled:opacity-50"
+            required
+          />
+          <input
+            type="text"
+            placeholder="Name, e.g. Wood Shop"
+            value={form.name}
+            onChange={(e) => update({ name: e.target.value })}
+            maxLength={60}
+            className="p-3 bg-background border border-border rounded-md"
+            required
+          />
+          <input
+            type="text"
+            placeholder="Rooms (comma separated; empty = all)"
+            value={form.rooms}
+            onChange={(e) => update({ rooms: e.target.value })}
+            className="p-3 bg-background border border-border rounded-md"
+          />
+          <input
+            type="text"
+            placeholder="Age groups, e.g. adults, teens (empty = all)"
+            value={form.ageGroups}
+            onChange={(e) => update({ ageGroups: e.target.value })}
+            className="p-3 bg-background border border-border rounded-md"
+          />
+          <select
+            value={form.layout}
+            onChange={(e) => update({ layout: e.target.value as DisplayLayout })}
+            className="p-3 bg-background border border-border rounded-md"
+          >
+            <option value="grid">Grid: every event in progress plus the next</option>
+            <option value="single">Single: one featured event</option>
+          </select>
+          <select
+            value={form.orientation}
+            onChange={(e) => update({ orientation: e.target.value as DisplayOrientation })}
+            className="p-3 bg-background border border-border rounded-md"
+          >
+            <option value="landscape">Landscape</option>
+            <option value="portrait">Portrait</option>
+          </select>
+          <input
+            type="text"
+            placeholder="Theme: auto or a hex color"
+            value={form.theme}
+            onChange={(e) => update({ theme: e.target.value })}
+            className="p-3 bg-background border border-border rounded-md"
+          />
+          <label className="flex items-center gap-3 p-3">
+            <input
+              type="checkbox"
+              checked={form.qrCodes}
+              onChange={(e) => update({ qrCodes: e.target.checked })}
+            />
+            QR codes on upcoming events
+          </label>
+        </div>
+        <textarea
+          placeholder='Playlist JSON, e.g. {"slides":[{"id":"live","type":"live","durationSeconds":60}],"rules":{"pinLiveMinutes":5}} (empty = shared playlist)'
+          value={form.playlist}
+          onChange={(e) => update({ playlist: e.target.value })}
+          rows={4}
+          className="w-full p-3 bg-background border border-border rounded-md font-mono text-sm"
+        />
+        <div className="flex gap-4">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="bg-primary text-white font-bold py-3 px-6 rounded-lg disabled:opacity-50"
+          >
+            {editing ? 'Save Display' : 'Register Display'}
+          </button>
+          {editing && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={isSubmitting}
+              className="bg-danger text-white font-bold py-3 px-6 rounded-lg disabled:opacity-50"
+            >
+              Remove Display
+            </button>
+          )}
+        </div>
+      </form>
+
+      {message && (
+        <div
+          className={`p-4 rounded-md border ${
+            message.startsWith('✅')
+              ? 'bg-success/20 border-success text-success'
+              : 'bg-danger/20 border-danger text-danger'
+          }`}
+        >
+          <p className="font-bold">{message}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { EmergencyAlert } from '@/shared/types';
+import { Flex, Heading, Text } from '@chakra-ui/react';
+
+interface EmergencyAlertOverlayProps {
+  alert: EmergencyAlert;
+}
+
+// High-contrast takeover: white on red for critical, black on yellow for warnings
+export function EmergencyAlertOverlay({ alert }: EmergencyAlertOverlayProps) {
+  const critical = alert.severity === 'critical';
+  const activatedAt = new Date(alert.activatedAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  return (
+    <Flex
+      role="alert"
+      aria-live="assertive"
+      position="fixed"
+      inset="0"
+      zIndex="9999"
+      h="100vh"
+      w="100vw"
+      p="16"
+      direction="column"
+      align="center"
+      justify="center"
+      textAlign="center"
+      gap="10"
+      bg={critical ? '#b91c1c' : '#facc15'}
+      color={critical ? '#ffffff' : '#000000'}
+      borderWidth="24px"
+      borderColor={critical ? '#ffffff' : '#000000'}
+    >
+      <Text fontSize="8xl" lineHeight="1">{critical ? '🚨' : '⚠️'}</Text>
+      <Heading fontSize="9xl" lineHeight="1" fontWeight="black" textTransform="uppercase">
+        {alert.title}
+      </Heading>
+      {alert.message && (
+        <Text fontSize="5xl" fontWeight="bold" maxW="80%" whiteSpace="pre-line">
+          {alert.message}
+        </Text>
+      )}
+      <Text fontSize="2xl" fontWeight="semibold" position="absolute" bottom="10">
+        Issued at {activatedAt}
+      </Text>
+    </Flex>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
+import { useState } from 'react';
 import { ProcessedEvent } from '@/shared/types';
-import { AgeGroupBadge } from './AgeGroupBadge';
+import { AgeGroupBadges } from './AgeGroupBadge';
 import { 
   Card, 
   Text, 
@@ -10,7 +11,9 @@ import {
   VStack, 
   Grid, 
   GridItem,
-  Box
+  Box,
+  Flex,
+  Image
 } from '@chakra-ui/react';
 
 interface EventCardProps {
@@ -18,23 +21,31 @@ interface EventCardProps {
   type: 'current' | 'next';
   timeRemaining?: string;
   timeUntilStart?: string;
+  compact?: boolean; // Shorter card without the description, for grids of concurrent events
+  showQrCode?: boolean; // Upcoming events get a QR code to their registration link (or the events page)
 }
 
-export function EventCard({ event, type, timeRemaining, timeUntilStart }: EventCardProps) {
+export function EventCard({ event, type, timeRemaining, timeUntilStart, compact = false, showQrCode = false }: EventCardProps) {
+  // All-day events carry floating dates ("2025-08-11"), which must not be shifted by the TV's zone
+  const isDateOnly = (time: string) => /^\d{4}-\d{2}-\d{2}$/.test(time);
+  const toDate = (time: string) => (isDateOnly(time) ? new Date(`${time}T00:00:00`) : new Date(time));
+
   const formatTime = (time: string) =>
-    new Date(time).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+    event.isAllDay ? 'All Day' : toDate(time).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
 
   const formatDate = (time: string) =>
-    new Date(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    toDate(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 
   const isToday = (time: string) => {
-    const eventDate = new Date(time);
+    const eventDate = toDate(time);
     const today = new Date();
     return eventDate.toDateString() === today.toDateString();
   };
 
   const borderColor = type === 'current' ? 'blue.500' : 'gray.600';
   const themeColor = `var(--theme-color)`;
+  // The calendar's configured room beats the free-text location
+  const room = event.source?.room || event.location;
 
   return (
     <Card.Root 
@@ -45,7 +56,7 @@ export function EventCard({ event, type, timeRemaining, timeUntilStart }: EventC
       bg="surface"
       p="3"
       w="100%"
-      h="500px"
+      h={compact ? '360px' : '500px'}
       display="flex"
       flexDirection="column"
     >
@@ -58,7 +69,7 @@ export function EventCard({ event, type, timeRemaining, timeUntilStart }: EventC
           >
             {type === 'current' ? 'Live Now' : 'Up Next'}
           </Heading>
-          <AgeGroupBadge ageGroup={event.ageGroup} />
+          <AgeGroupBadges ageGroup={event.ageGroup} ageGroups={event.ageGroups} />
         </HStack>
 
         <Heading 
@@ -71,35 +82,48 @@ export function EventCard({ event, type, timeRemaining, timeUntilStart }: EventC
           {event.title}
         </Heading>
 
-        {timeRemaining && (
-          <Box textAlign="center" mb="2">
-            <Text fontSize="2xl" fontWeight="bold" color="#10b981">
-              {timeRemaining} Remaining
-            </Text>
-          </Box>
+        {room && (
+          <Text fontSize="xl" fontWeight="semibold" color="fg.muted" mb="2">
+            📍 {room}
+          </Text>
         )}
 
-        {timeUntilStart && (
-          <Box textAlign="center" mb="2">
-            <Text fontSize="2xl" fontWeight="bold" color="#f59e0b">
-              Starts in {timeUntilStart}
-            </Text>
-          </Box>
-        )}
+        <Flex gap="4" flex="1" minH="0">
+          <VStack align="stretch" gap="0" flex="1" minH="0">
+            {timeRemaining && (
+              <Box textAlign="center" mb="2">
+                <Text fontSize="2xl" fontWeight="bold" color="#10b981">
+                  {timeRemaining} Remaining
+                </Text>
+              </Box>
+            )}
 
-        {event.description && (
-          <Text 
-            fontSize="lg" 
-            color="fg.muted" 
-            mb="3" 
-            fontWeight="semibold"
-            whiteSpace="pre-line"
-            flex="1"
-            overflow="hidden"
-          >
-            {event.description}
-          </Text>
-        )}
+            {timeUntilStart && (
+              <Box textAlign="center" mb="2">
+                <Text fontSize="2xl" fontWeight="bold" color="#f59e0b">
+                  Starts in {timeUntilStart}
+                </Text>
+              </Box>
+            )}
+
+            {event.description && !compact && (
+              <Text 
+                fontSize="lg" 
+                color="fg.muted" 
+                mb="3" 
+                fontWeight="semibold"
+                whiteSpace="pre-line"
+                flex="1"
+                overflow="hidden"
+              >
+                {event.description}
+              </Text>
+            )}
+          </VStack>
+          {showQrCode && type === 'next' && (
+            <EventQrCode url={event.registrationUrl} size={compact ? '120px' : '180px'} />
+          )}
+        </Flex>
 
         <Grid templateColumns="repeat(2, 1fr)" gap="3" textAlign="center" mt="auto">
           <GridItem>
@@ -137,3 +161,25 @@ export function EventCard({ event, type, timeRemaining, timeUntilStart }: EventC
     </Card.Root>
   );
 }
+
+function EventQrCode({ url, size }: { url?: string; size: string }) {
+  // The fallback code 404s when no events page is configured; show nothing then
+  const [failed, setFailed] = useState(false);
+  if (failed) return null;
+
+  return (
+    <VStack gap="1" flexShrink={0} justify="center">
+      <Image
+        src={url ? `/api/qr?data=${encodeURIComponent(url)}` : '/api/qr'}
+        alt={url ? `QR code for ${url}` : 'QR code for the events page'}
+        w={size}
+        h={size}
+        rounded="md"
+        onError={() => setFailed(true)}
+      />
+      <Text fontSize="md" fontWeight="bold" color="fg.muted">
+        {url ? 'Scan to register' : 'More events'}
+      </Text>
+    </VStack>
+  );
+}
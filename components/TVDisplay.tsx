@@ -1,9 +1,16 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { DisplayStatus } from '@/shared/types';
+import { Announcement, DisplayConfig, EmergencyAlert, PlaylistResponse, PlaylistSlide, ProcessedEvent } from '@/shared/types';
+import { LIVE_SLIDE, PlaylistContext, PlaylistEngine } from '@/lib/playlist';
+import { useDisplayStatus } from './useDisplayStatus';
 import { EventCard } from './EventCard';
+import { AgendaView } from './AgendaView';
+import { WeekView } from './WeekView';
+import { AnnouncementTicker } from './AnnouncementTicker';
+import { AnnouncementSlide } from './AnnouncementSlide';
+import { EmergencyAlertOverlay } from './EmergencyAlertOverlay';
 import { StatusBanner } from './StatusBanner';
 import { Clock } from './Clock';
 import { ErrorBoundary } from './ErrorBoundary';
@@ -21,11 +28,18 @@ import {
   Spinner
 } from '@chakra-ui/react';
 
-export function TVDisplay() {
-  const [displayStatus, setDisplayStatus] = useState<DisplayStatus | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+interface TVDisplayProps {
+  displayId?: string; // A registered display (/display/<id>); everything when omitted
+}
+
+export function TVDisplay({ displayId }: TVDisplayProps = {}) {
+  const { displayStatus, loading, error, lastUpdate, connection, offlineSince, clockOffsetMs, refresh } = useDisplayStatus(displayId);
+  const [display, setDisplay] = useState<DisplayConfig | null>(null);
+  const [displayError, setDisplayError] = useState<string | null>(null);
+  const [playlist, setPlaylist] = useState<PlaylistResponse | null>(null);
+  const [slide, setSlide] = useState<PlaylistSlide>(LIVE_SLIDE);
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [emergency, setEmergency] = useState<EmergencyAlert | null>(null);
   const router = useRouter();
 
   // Add keyboard shortcut for admin panel
@@ -43,28 +57,111 @@ export function TVDisplay() {
     };
   }, [router]);
 
-  const fetchStatus = useCallback(async () => {
+  const query = displayId ? `?display=${encodeURIComponent(displayId)}` : '';
+
+  // Playlist and display config edits apply within a few minutes, without redeploying
+  const fetchPlaylist = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/display/playlist${query}`);
+      if (response.ok) setPlaylist(await response.json());
+    } catch {
+      // Keep rotating with the last playlist (or stay on the live view)
+    }
+  }, [query]);
+
+  const fetchDisplay = useCallback(async () => {
+    if (!displayId) return;
     try {
-      const response = await fetch('/api/calendar/status');
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
+      const response = await fetch(`/api/displays/${encodeURIComponent(displayId)}`);
+      if (response.status === 404) {
+        setDisplayError(`Unknown display "${displayId}". Register it in the admin panel.`);
+        return;
+      }
+      if (response.ok) {
+        setDisplay((await response.json()).display);
+        setDisplayError(null);
       }
-      const data = await response.json();
-      setDisplayStatus(data);
-      setError(null);
-      setLastUpdate(new Date());
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load data');
-    } finally {
-      setLoading(false);
+    } catch {
+      // Keep the last config
+    }
+  }, [displayId]);
+
+  useEffect(() => {
+    fetchPlaylist();
+    fetchDisplay();
+    const interval = setInterval(() => {
+      fetchPlaylist();
+      fetchDisplay();
+    }, 5 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [fetchPlaylist, fetchDisplay]);
+
+  const fetchAnnouncements = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/announcements${query}`);
+      if (response.ok) setAnnouncements((await response.json()).announcements ?? []);
+    } catch {
+      // Keep showing the last announcements
+    }
+  }, [query]);
+
+  useEffect(() => {
+    fetchAnnouncements();
+    const interval = setInterval(fetchAnnouncements, 60000);
+    return () => clearInterval(interval);
+  }, [fetchAnnouncements]);
+
+  // Emergencies are polled every few seconds, independently of the 30 second status poll
+  const fetchEmergency = useCallback(async () => {
+    try {
+      const response = await fetch('/api/emergency', { cache: 'no-store' });
+      if (response.ok) setEmergency((await response.json()).alert ?? null);
+    } catch {
+      // Keep the last known alert up rather than dropping it on a network blip
     }
   }, []);
 
   useEffect(() => {
-    fetchStatus();
-    const interval = setInterval(fetchStatus, 30000);
+    fetchEmergency();
+    const interval = setInterval(fetchEmergency, 5000);
     return () => clearInterval(interval);
-  }, [fetchStatus]);
+  }, [fetchEmergency]);
+
+  // Take the alert down at its expiry even if the server can't be reached
+  useEffect(() => {
+    if (!emergency?.expiresAt) return;
+    const timer = setTimeout(() => setEmergency(null), Math.max(0, new Date(emergency.expiresAt).getTime() - Date.now()));
+    return () => clearTimeout(timer);
+  }, [emergency]);
+
+  // Latest rule inputs, read when a slide's time is up without restarting its timer on every poll
+  const contextRef = useRef<PlaylistContext>({ now: new Date(), currentEventStarts: [], contentCounts: {} });
+  contextRef.current = {
+    now: displayStatus ? new Date(displayStatus.mockTime || Date.now()) : new Date(),
+    currentEventStarts: (displayStatus?.currentEvents ?? (displayStatus?.currentEvent ? [displayStatus.currentEvent] : []))
+      .map(event => event.start),
+    contentCounts: playlist?.contentCounts ?? {}
+  };
+
+  useEffect(() => {
+    if (!playlist) return;
+    const timer = setTimeout(() => {
+      setSlide(PlaylistEngine.getNextSlide(playlist.playlist, contextRef.current, slide.id));
+    }, slide.durationSeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [playlist, slide]);
+
+  // Jump straight back to the live view when an event starts
+  useEffect(() => {
+    if (playlist && slide.type !== 'live' && PlaylistEngine.isLivePinned(playlist.playlist, contextRef.current)) {
+      setSlide(PlaylistEngine.getNextSlide(playlist.playlist, contextRef.current, slide.id));
+    }
+  }, [displayStatus, playlist, slide]);
+
+  // An emergency overrides everything else, including loading and error states
+  if (emergency) {
+    return <EmergencyAlertOverlay alert={emergency} />;
+  }
 
   if (loading) {
     return (
@@ -86,7 +183,8 @@ export function TVDisplay() {
     );
   }
 
-  if (error) {
+  // Once we have data, a failed poll keeps the last status on screen (flagged as out of date)
+  if ((error && !displayStatus) || displayError) {
     return (
       <Flex 
         className="tv-display" 
@@ -107,9 +205,9 @@ export function TVDisplay() {
         >
           <VStack gap="6">
             <Heading size="5xl" color="red.400">Display Error</Heading>
-            <Text fontSize="3xl">{error}</Text>
+            <Text fontSize="3xl">{displayError ?? error}</Text>
             <Button
-              onClick={fetchStatus}
+              onClick={refresh}
               size="lg"
               colorPalette="blue"
               fontSize="2xl"
@@ -126,12 +224,34 @@ export function TVDisplay() {
 
   if (!displayStatus) return null;
 
+  // The agenda and week views need the server; offline, the live view carries on from the cache
+  if (slide.type === 'agenda' && !offlineSince) return <AgendaView displayId={displayId} />;
+  if (slide.type === 'week' && !offlineSince) return <WeekView displayId={displayId} />;
+  if (slide.type === 'announcements') {
+    return <AnnouncementSlide announcements={announcements.filter(a => a.priority === 'high')} />;
+  }
+
   const theme = displayStatus.displayTheme || 'closed';
+  const isOutOfDate = Boolean(displayStatus.degraded || error);
+  const portrait = display?.orientation === 'portrait';
+  // A display pinned to one color ignores the event's age group
+  const themeColor = display && display.theme !== 'auto' ? display.theme : displayStatus.themeColor;
+
+  // Every session in progress (older servers only send currentEvent), then the next one
+  const currentEvents = displayStatus.currentEvents ?? (displayStatus.currentEvent ? [displayStatus.currentEvent] : []);
+  const allCards: { event: ProcessedEvent; type: 'current' | 'next' }[] = [
+    ...currentEvents.map(event => ({ event, type: 'current' as const })),
+    ...(displayStatus.nextEvent ? [{ event: displayStatus.nextEvent, type: 'next' as const }] : [])
+  ];
+  // The single layout features one event: the one in progress, else the next
+  const cards = display?.layout === 'single' ? allCards.slice(0, 1) : allCards;
 
   return (
     <ErrorBoundary>
       <Box 
         className={`tv-display theme-${theme} animate-fadeIn`} 
+        // Age groups added by admins have no .theme-* class, so set the color directly
+        style={themeColor ? ({ '--theme-color': themeColor } as React.CSSProperties) : undefined}
         h="100vh" 
         w="100vw"
         p="6"
@@ -139,22 +259,23 @@ export function TVDisplay() {
         flexDirection="column"
         overflow="hidden"
       >
-        <Grid as="header" templateColumns="1fr 1fr" alignItems="start" mb="4" h="100px">
+        <Grid as="header" templateColumns={portrait ? '1fr' : '1fr 1fr'} alignItems="start" mb="4" h={portrait ? 'auto' : '100px'}>
           <GridItem>
             <VStack align="start" gap="1">
               <Heading size="4xl" fontWeight="extrabold">HQ MAKERSPACE</Heading>
-              <Text fontSize="2xl" color="fg.muted">Event Schedule</Text>
+              <Text fontSize="2xl" color="fg.muted">{display?.name ?? 'Event Schedule'}</Text>
             </VStack>
           </GridItem>
           <GridItem>
             <Clock
               currentTime={displayStatus.currentTime}
               mockTime={displayStatus.mockTime}
+              offsetMs={clockOffsetMs}
             />
           </GridItem>
         </Grid>
 
-        <Flex as="main" flex="1" direction="column" justify="center" pt="32">
+        <Flex as="main" flex="1" direction="column" justify="center" pt={cards.length > 3 ? "4" : "32"}>
           <StatusBanner
             status={displayStatus.status}
             ageGroup={displayStatus.currentEvent?.ageGroup}
@@ -162,11 +283,7 @@ export function TVDisplay() {
           />
 
           <Grid 
-            templateColumns={
-              displayStatus.currentEvent && displayStatus.nextEvent 
-                ? 'repeat(2, 1fr)' 
-                : '1fr'
-            }
+            templateColumns={portrait ? '1fr' : gridColumns(cards.length)}
             gap="5" 
             mt="4"
             flex="1"
@@ -174,39 +291,61 @@ export function TVDisplay() {
             maxW="100%"
             alignItems="stretch"
           >
-            {displayStatus.currentEvent && (
-              <GridItem w="100%" maxW={displayStatus.nextEvent ? "100%" : "800px"}>
+            {cards.map(({ event, type }) => (
+              <GridItem key={`${type}-${event.id}`} w="100%" maxW={cards.length > 1 ? '100%' : '800px'}>
                 <EventCard
-                  event={displayStatus.currentEvent}
-                  type="current"
-                  timeRemaining={displayStatus.timeRemaining}
+                  event={event}
+                  type={type}
+                  timeRemaining={type === 'current' ? displayStatus.timesRemaining?.[event.id] ?? displayStatus.timeRemaining : undefined}
+                  timeUntilStart={type === 'next' ? displayStatus.timeUntilNext : undefined}
+                  compact={cards.length > (portrait ? 2 : 3)}
+                  showQrCode={display?.qrCodes !== false}
                 />
               </GridItem>
-            )}
-
-            {displayStatus.nextEvent && (
-              <GridItem w="100%" maxW={displayStatus.currentEvent ? "100%" : "800px"}>
-                <EventCard
-                  event={displayStatus.nextEvent}
-                  type="next"
-                  timeUntilStart={displayStatus.timeUntilNext}
-                />
-              </GridItem>
-            )}
+            ))}
           </Grid>
         </Flex>
 
+        <AnnouncementTicker announcements={announcements.filter(a => a.priority !== 'high')} />
+
         <Box as="footer" textAlign="center" mt="4" py="2">
           <Text fontSize="xl" color="fg.muted">
             Last updated: {lastUpdate ? lastUpdate.toLocaleTimeString() : 'N/A'}
+            {connection === 'polling' && !offlineSince && ' (live updates reconnecting)'}
           </Text>
+          {offlineSince && (
+            <Text fontSize="xl" color="fg.subtle" ml="8" display="inline">
+              Offline since {offlineSince.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+            </Text>
+          )}
           {displayStatus.mockTime && (
             <Text fontSize="xl" fontWeight="bold" color="yellow.400" ml="8" display="inline">
               (Test Mode)
             </Text>
           )}
+          {isOutOfDate && (
+            <Text fontSize="xl" color="orange.300" ml="8" display="inline">
+              ⚠️ Schedule may be out of date
+              {displayStatus.dataAge !== undefined && ` (updated ${formatDataAge(displayStatus.dataAge)} ago)`}
+            </Text>
+          )}
         </Box>
       </Box>
     </ErrorBoundary>
   );
-}
\ No newline at end of file
+}
+
+// One to three cards share a row; four go two by two, more wrap three per row
+function gridColumns(cardCount: number): string {
+  if (cardCount <= 1) return '1fr';
+  if (cardCount === 4) return 'repeat(2, 1fr)';
+  return `repeat(${Math.min(cardCount, 3)}, 1fr)`;
+}
+
+function formatDataAge(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d`;
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { ProcessedEvent, WeekSchedule } from '@/shared/types';
+import { ErrorBoundary } from './ErrorBoundary';
+import {
+  Box,
+  Flex,
+  Grid,
+  GridItem,
+  Heading,
+  Text,
+  VStack,
+  Spinner
+} from '@chakra-ui/react';
+
+// Rows that still read from across the room on a 1080p screen
+const MAX_EVENTS_PER_DAY = 6;
+const MAX_SPANS = 3;
+
+interface WeekViewProps {
+  displayId?: string; // Scope to a registered display's rooms and age groups
+}
+
+export function WeekView({ displayId }: WeekViewProps = {}) {
+  const [week, setWeek] = useState<WeekSchedule | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWeek = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/calendar/week${displayId ? `?display=${encodeURIComponent(displayId)}` : ''}`);
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status} ${response.statusText}`);
+      }
+      setWeek(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the week');
+    }
+  }, [displayId]);
+
+  useEffect(() => {
+    fetchWeek();
+    const interval = setInterval(fetchWeek, 5 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [fetchWeek]);
+
+  if (!week) {
+    return (
+      <Flex className="tv-display" minH="100vh" direction="column" align="center" justify="center" p="16">
+        {error ? (
+          <Text fontSize="3xl" color="red.400">{error}</Text>
+        ) : (
+          <Spinner size="xl" color="blue.500" />
+        )}
+      </Flex>
+    );
+  }
+
+  // Day dates are already local to the makerspace, so format them at noon UTC
+  const formatDay = (date: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+  const formatTime = (time: string) =>
+    new Date(time).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: week.timeZone });
+
+  const visibleSpans = week.spans.slice(0, MAX_SPANS);
+
+  return (
+    <ErrorBoundary>
+      <Box className="tv-display animate-fadeIn" h="100vh" w="100vw" p="6" display="flex" flexDirection="column" overflow="hidden">
+        <VStack as="header" align="start" gap="1" mb="6">
+          <Heading size="4xl" fontWeight="extrabold">This Week at HQ</Heading>
+          <Text fontSize="2xl" color="fg.muted">
+            {formatDay(week.days[0].date, { month: 'long', day: 'numeric' })} – {formatDay(week.days[6].date, { month: 'long', day: 'numeric' })}
+          </Text>
+        </VStack>
+
+        <Grid as="main" flex="1" templateColumns="repeat(7, 1fr)" templateRows="auto auto 1fr" columnGap="3" rowGap="2" minH="0">
+          {week.days.map((day, index) => (
+            <GridItem key={day.date} gridColumn={index + 1} gridRow="1" textAlign="center" pb="2" borderBottomWidth="4px" borderColor={index === 0 ? 'blue.500' : 'gray.600'}>
+              <Text fontSize="3xl" fontWeight="extrabold">{index === 0 ? 'Today' : formatDay(day.date, { weekday: 'long' })}</Text>
+              <Text fontSize="xl" color="fg.muted">{formatDay(day.date, { month: 'short', day: 'numeric' })}</Text>
+            </GridItem>
+          ))}
+
+          <GridItem gridColumn="1 / -1" gridRow="2">
+            <Grid templateColumns="repeat(7, 1fr)" columnGap="3" rowGap="2">
+              {visibleSpans.map(({ event, startDay, endDay }) => (
+                <GridItem key={event.id} gridColumn={`${startDay + 1} / ${endDay + 2}`}>
+                  <SpanBar event={event} />
+                </GridItem>
+              ))}
+            </Grid>
+            {week.spans.length > MAX_SPANS && (
+              <Text fontSize="lg" color="fg.muted" mt="1">+{week.spans.length - MAX_SPANS} more multi-day events</Text>
+            )}
+          </GridItem>
+
+          {week.days.map((day, index) => (
+            <GridItem key={`${day.date}-events`} gridColumn={index + 1} gridRow="3" overflow="hidden">
+              <VStack align="stretch" gap="2">
+                {day.events.slice(0, MAX_EVENTS_PER_DAY).map(event => (
+                  <DayEvent key={event.id} event={event} time={formatTime(event.start)} />
+                ))}
+                {day.events.length > MAX_EVENTS_PER_DAY && (
+                  <Text fontSize="xl" color="fg.muted" textAlign="center">
+                    +{day.events.length - MAX_EVENTS_PER_DAY} more
+                  </Text>
+                )}
+                {day.events.length === 0 && (
+                  <Text fontSize="xl" color="fg.subtle" textAlign="center" mt="4">—</Text>
+                )}
+              </VStack>
+            </GridItem>
+          ))}
+        </Grid>
+
+        {week.degraded && (
+          <Box as="footer" textAlign="center" mt="4" py="2">
+            <Text fontSize="xl" color="orange.300">⚠️ Schedule may be out of date</Text>
+          </Box>
+        )}
+      </Box>
+    </ErrorBoundary>
+  );
+}
+
+function ageGroupColor(event: ProcessedEvent): string {
+  return event.ageGroup.color || `var(--theme-${event.ageGroup.group})`;
+}
+
+function DayEvent({ event, time }: { event: ProcessedEvent; time: string }) {
+  return (
+    <Box bg="surface" rounded="md" borderLeftWidth="8px" borderLeftColor={ageGroupColor(event)} px="3" py="2">
+      <Text fontSize="xl" fontWeight="bold" color="fg.muted">{time}</Text>
+      <Text fontSize="xl" fontWeight="bold" lineClamp={2}>{event.title}</Text>
+    </Box>
+  );
+}
+
+function SpanBar({ event }: { event: ProcessedEvent }) {
+  return (
+    <Box bg={ageGroupColor(event)} color="white" rounded="full" px="4" py="1">
+      <Text fontSize="xl" fontWeight="bold" truncate>
+        {event.ageGroup.emoji} {event.title}
+      </Text>
+    </Box>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { DisplayStatus, EventWindow } from '@/shared/types';
+import { LocalStorage } from '@/lib/local-storage';
+import { computeOfflineStatus } from '@/lib/offline-status';
+import { ServerClock } from '@/lib/server-clock';
+import { getNextInstantBoundary, isSameDisplayStatus, projectDisplayStatus } from '@/lib/status-calculator';
+
+export type StatusConnection = 'connecting' | 'live' | 'polling';
+
+const POLL_INTERVAL_MS = 30000;
+// The server sends a heartbeat every 25 seconds; anything quieter than this is a dead connection
+const STREAM_TIMEOUT_MS = 60000;
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 60000;
+// The cached window covers 24 hours, so refreshing it now and then is plenty
+const WINDOW_REFRESH_MS = 10 * 60 * 1000;
+// setTimeout overflows past ~24.8 days; a far-off boundary is simply re-checked later
+const MAX_BOUNDARY_WAIT_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Display status pushed over Server-Sent Events. While the stream is down it reconnects with
+ * exponential backoff and polls the status endpoint so the screen keeps updating.
+ * With a `displayId` the status is scoped to that registered display.
+ *
+ * The next 24 hours of events are cached in localStorage. When the server can't be reached at
+ * all, the status is computed from that cache on every poll until the server answers again.
+ *
+ * Between updates, countdowns tick every second on the server's clock (estimated from the
+ * timestamps it sends, since TV clocks drift) and the status flips right at event boundaries.
+ */
+export function useDisplayStatus(displayId?: string) {
+  const [displayStatus, setDisplayStatus] = useState<DisplayStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [connection, setConnection] = useState<StatusConnection>('connecting');
+  const [offlineSince, setOfflineSince] = useState<Date | null>(null);
+  const pollTimer = useRef<ReturnType<typeof setInterval> | null>(null);
+  const storage = useRef<LocalStorage | null>(null);
+  const received = useRef<DisplayStatus | null>(null);
+  const [clock] = useState(() => new ServerClock());
+  const [clockOffsetMs, setClockOffsetMs] = useState(0);
+  const query = displayId ? `?display=${encodeURIComponent(displayId)}` : '';
+
+  // Without requestedAt the time was pushed over the stream, with no round trip to measure
+  const syncClock = useCallback((serverTime: string, requestedAt?: number) => {
+    if (requestedAt === undefined) {
+      clock.samplePushed(serverTime);
+    } else {
+      clock.sample(serverTime, requestedAt);
+    }
+    setClockOffsetMs(clock.getOffsetMs());
+  }, [clock]);
+
+  // Show a status brought forward to the server's current time
+  const showStatus = useCallback((status: DisplayStatus) => {
+    received.current = status;
+    setDisplayStatus(projectDisplayStatus(status, clock.now()));
+  }, [clock]);
+
+  // Re-project the last status; the state only changes when what's on screen would
+  const tick = useCallback(() => {
+    if (!received.current) return;
+    const next = projectDisplayStatus(received.current, clock.now());
+    setDisplayStatus(current => (current && isSameDisplayStatus(current, next) ? current : next));
+  }, [clock]);
+
+  const applyStatus = useCallback((status: DisplayStatus, requestedAt?: number) => {
+    if (status.serverTime) syncClock(status.serverTime, requestedAt);
+    showStatus(status);
+    setError(null);
+    setLastUpdate(new Date());
+    setLoading(false);
+    setOfflineSince(null);
+  }, [showStatus, syncClock]);
+
+  // Created on first use so it picks up the browser's localStorage, not the server-render fallback
+  const getStorage = useCallback(() => {
+    storage.current ??= new LocalStorage();
+    return storage.current;
+  }, []);
+
+  const fetchWindow = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/display/window${query}`);
+      if (response.ok) {
+        getStorage().setEventWindow(displayId, (await response.json()) as EventWindow);
+      }
+    } catch {
+      // Keep the last cached window
+    }
+  }, [displayId, getStorage, query]);
+
+  // Without the server, keep the screen going from the cached window (if there is one)
+  const runOffline = useCallback((): boolean => {
+    const eventWindow = getStorage().getEventWindow(displayId);
+    if (!eventWindow) return false;
+
+    showStatus(computeOfflineStatus(eventWindow, clock.now()));
+    setError(null);
+    setLoading(false);
+    setOfflineSince(since => since ?? new Date());
+    return true;
+  }, [clock, displayId, getStorage, showStatus]);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const requestedAt = Date.now();
+      const response = await fetch(`/api/calendar/status${query}`);
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status} ${response.statusText}`);
+      }
+      applyStatus(await response.json(), requestedAt);
+    } catch (err) {
+      if (runOffline()) return;
+      setError(err instanceof Error ? err.message : 'Failed to load data');
+      setLoading(false);
+    }
+  }, [applyStatus, query, runOffline]);
+
+  useEffect(() => {
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [tick]);
+
+  // Flip exactly at the next start/end instead of on the next tick; when the stream is down
+  // also ask the server, since it knows what comes after the events we have
+  useEffect(() => {
+    const eventTimes = displayStatus?.eventTimes;
+    if (!eventTimes || displayStatus.mockTime) return;
+
+    const boundary = getNextInstantBoundary(Object.values(eventTimes), clock.now());
+    if (!boundary) return;
+
+    const timer = setTimeout(() => {
+      tick();
+      if (pollTimer.current) fetchStatus();
+    }, Math.min(boundary.getTime() - clock.now().getTime(), MAX_BOUNDARY_WAIT_MS));
+    return () => clearTimeout(timer);
+  }, [clock, displayStatus, fetchStatus, tick]);
+
+  useEffect(() => {
+    fetchWindow();
+    const interval = setInterval(fetchWindow, WINDOW_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [fetchWindow]);
+
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let watchdog: ReturnType<typeof setTimeout> | null = null;
+    let retryDelay = MIN_RETRY_MS;
+    let disposed = false;
+
+    const startPolling = () => {
+      setConnection('polling');
+      if (pollTimer.current) return;
+      fetchStatus();
+      pollTimer.current = setInterval(fetchStatus, POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (pollTimer.current) clearInterval(pollTimer.current);
+      pollTimer.current = null;
+    };
+
+    const resetWatchdog = () => {
+      if (watchdog) clearTimeout(watchdog);
+      watchdog = setTimeout(reconnect, STREAM_TIMEOUT_MS);
+    };
+
+    // Drop the connection, poll in the meantime and try the stream again later
+    function reconnect() {
+      source?.close();
+      source = null;
+      if (watchdog) clearTimeout(watchdog);
+      if (disposed) return;
+
+      startPolling();
+      retryTimer = setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+    }
+
+    function connect() {
+      if (disposed) return;
+      source = new EventSource(`/api/display/stream${query}`);
+      resetWatchdog();
+
+      source.addEventListener('status', (message) => {
+        applyStatus(JSON.parse((message as MessageEvent<string>).data));
+        setConnection('live');
+        retryDelay = MIN_RETRY_MS;
+        stopPolling();
+        resetWatchdog();
+      });
+      source.addEventListener('heartbeat', (message) => {
+        resetWatchdog();
+        const { time } = JSON.parse((message as MessageEvent<string>).data);
+        if (time) syncClock(time);
+      });
+      // EventSource would retry on its own at a fixed rate; we back off instead
+      source.onerror = reconnect;
+    }
+
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+    } else {
+      connect();
+    }
+
+    return () => {
+      disposed = true;
+      source?.close();
+      if (retryTimer) clearTimeout(retryTimer);
+      if (watchdog) clearTimeout(watchdog);
+      stopPolling();
+    };
+  }, [applyStatus, fetchStatus, query, syncClock]);
+
+  return { displayStatus, loading, error, lastUpdate, connection, offlineSince, clockOffsetMs, refresh: fetchStatus };
+}
@@ -0,0 +1,10 @@
+// jest.global-setup.mjs
+import { mkdtempSync } from 'fs'
+import os from 'os'
+import path from 'path'
+
+// One temporary root per run for server-side persistence (storage.json, snapshots);
+// workers inherit the variable and jest.global-teardown.mjs removes the directory
+export default async function globalSetup() {
+  process.env.TEST_DATA_ROOT = mkdtempSync(path.join(os.tmpdir(), 'makerspace-display-test-'))
+}
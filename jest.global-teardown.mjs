@@ -0,0 +1,8 @@
+// jest.global-teardown.mjs
+import { rmSync } from 'fs'
+
+export default async function globalTeardown() {
+  if (process.env.TEST_DATA_ROOT) {
+    rmSync(process.env.TEST_DATA_ROOT, { recursive: true, force: true })
+  }
+}
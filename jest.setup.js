@@ -22,3 +22,7 @@ afterEach(() => {
 
 // Set up timezone for consistent date testing
 process.env.TZ = 'UTC'
+
+// Keep server-side persistence (storage.json, snapshots) out of the working tree, in a
+// per-worker directory under the run's temporary root (see jest.global-setup.mjs)
+process.env.DATA_DIR = `${process.env.TEST_DATA_ROOT}/worker-${process.pid}`
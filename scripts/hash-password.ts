@@ -0,0 +1,21 @@
+#!/usr/bin/env tsx
+// scripts/hash-password.ts
+// Prints an ADMIN_PASSWORD_HASH value: npm run hash-password (reads the password from stdin)
+
+import { createInterface } from 'readline';
+import { hashPassword } from '../src/lib/password-hash';
+
+async function main() {
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  const password = await new Promise<string>(resolve => rl.question('Admin password: ', resolve));
+  rl.close();
+
+  if (password.length < 8) {
+    console.error('❌ Use at least 8 characters');
+    process.exit(1);
+  }
+
+  console.log(await hashPassword(password));
+}
+
+main();
@@ -10,28 +10,244 @@ export interface ProcessedEvent {
   end: string;   // ISO string format
   status: 'confirmed' | 'cancelled' | 'tentative';
   isAllDay: boolean;
-  ageGroup: AgeGroup;
+  ageGroup: AgeGroup; // Primary audience, used for theming
+  ageGroups?: AgeGroup[]; // Every audience, primary first
+  ageGroupMethod?: AgeGroupMethod; // How ageGroup was decided
   categories: string[];
   registrationUrl?: string;
   isRecurring: boolean;
+  recurringEventId?: string; // UID of the series this occurrence was expanded from
+  source?: CalendarSourceInfo; // Which configured calendar the event came from
+}
+
+export interface CalendarSourceInfo {
+  id: string;
+  name: string;
+  color?: string; // CSS color used to tag events from this calendar
+  room?: string;
 }
 
 export interface AgeGroup {
-  group: 'adults' | 'elementary' | 'allages' | 'teens' | 'unknown';
+  group: string; // AgeGroupRule id, or 'unknown' when no rule matched
   emoji: string;
   label: string;
   color: string; // CSS color for Frontend theming
 }
 
+// How an event's age group was decided: explicit #age:/[Audience:] tag, X-AUDIENCE property,
+// CATEGORIES entry, rule pattern match, or the "unknown" fallback
+export type AgeGroupMethod = 'tag' | 'property' | 'category' | 'pattern' | 'default';
+
+// Configurable age-group definition (see lib/age-group-config.ts)
+export interface AgeGroupRule {
+  id: string; // Also used as the display theme name
+  label: string;
+  emoji: string;
+  color: string;
+  patterns: string[]; // Regular expression sources, matched case-insensitively against title + description
+  priority: number; // Rules are tried in ascending priority order; the first match wins
+}
+
 export interface DisplayStatus {
   status: 'current' | 'between' | 'closed';
-  currentEvent?: ProcessedEvent;
+  currentEvent?: ProcessedEvent; // First of currentEvents; drives the theme
+  currentEvents?: ProcessedEvent[]; // Every event in progress, by start time
   nextEvent?: ProcessedEvent;
   currentTime: string;
   mockTime?: string; // For admin time override
   timeRemaining?: string;
+  timesRemaining?: Record<string, string>; // Time left per current event id
   timeUntilNext?: string;
   displayTheme?: string;
+  themeColor?: string; // Color of the age group behind displayTheme
+  dataAge?: number; // Seconds since the events were fetched from the calendar
+  degraded?: boolean; // Upstream fetch failing; showing last-known-good data
+  serverTime?: string; // The server's real clock when this was sent (never mocked), for clock sync
+  eventTimes?: Record<string, EventInstants>; // Start/end of every event above, by id
+}
+
+// ISO instants, so clients can count down without resolving all-day dates or time zones
+export interface EventInstants {
+  start: string;
+  end: string;
+}
+
+// GET /api/calendar/today - one local day of events for the agenda view
+export interface AgendaDay {
+  date: string; // "YYYY-MM-DD" in timeZone
+  timeZone: string;
+  dayStart: string; // ISO instants of local midnight..midnight
+  dayEnd: string;
+  currentTime: string;
+  mockTime?: string;
+  events: ProcessedEvent[]; // Every event overlapping the day, by start time
+  dataAge?: number;
+  degraded?: boolean;
+}
+
+// GET /api/display/window - the events a display caches so it keeps working offline
+export interface EventWindow {
+  from: string; // ISO; the server's current (or mocked) time
+  to: string;
+  servedAt: string; // Real time the window was built
+  mockTime?: string;
+  events: ProcessedEvent[]; // Every event overlapping from..to, plus the first one after it
+}
+
+// GET /api/calendar/timeline - every display status change in a time window
+export type StatusTransitionType = 'start' | 'end' | 'between' | 'closed';
+
+export interface StatusTransitionCause {
+  type: StatusTransitionType; // 'between' is the next event coming within two hours; 'closed' has no event
+  eventId?: string;
+}
+
+export interface StatusTransition {
+  at: string; // ISO instant the new status applies from
+  causes: StatusTransitionCause[];
+  status: DisplayStatus;
+}
+
+export interface StatusTimeline {
+  from: string;
+  to: string;
+  mockTime?: string;
+  initial: DisplayStatus; // The status at `from`
+  transitions: StatusTransition[]; // In time order
+  truncated?: boolean; // More transitions exist before `to` than were returned
+  degraded?: boolean;
+}
+
+// A signed-in admin browser (see lib/admin-session.ts). The token itself is only in the cookie
+export interface AdminSession {
+  id: string; // SHA-256 of the session token
+  createdAt: string;
+  expiresAt: string;
+  ip: string;
+}
+
+// Named bearer tokens for scripts and kiosks (see lib/api-tokens.ts)
+export type ApiTokenScope =
+  | 'read:status'
+  | 'write:overrides'
+  | 'write:announcements'
+  | 'write:emergency'
+  | 'write:displays'
+  | 'write:age-groups'
+  | 'admin:cache';
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  scopes: ApiTokenScope[];
+  prefix: string; // First characters of the secret, to tell tokens apart
+  createdAt: string;
+  expiresAt?: string; // Never expires when absent
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+}
+
+export interface StoredApiToken extends ApiToken {
+  secretHash: string; // SHA-256 of the secret; the secret itself is shown once at creation
+}
+
+// Full-screen takeover shown on every display until cleared or expired
+export type EmergencySeverity = 'warning' | 'critical';
+
+export interface EmergencyAlert {
+  id: string;
+  title: string; // e.g. "FIRE DRILL"
+  message: string; // Instructions for people in the building
+  severity: EmergencySeverity;
+  activatedAt: string;
+  expiresAt?: string; // ISO; stays up until cleared when missing
+}
+
+// Low and normal announcements scroll in the ticker; high ones also get a full slide
+export type AnnouncementPriority = 'low' | 'normal' | 'high';
+
+export interface Announcement {
+  id: string;
+  title: string;
+  body: string;
+  imageUrl?: string;
+  startsAt?: string; // ISO; visible from this time (immediately when missing)
+  endsAt?: string; // ISO; hidden after this time (never when missing)
+  priority: AnnouncementPriority;
+  displays?: string[]; // Display ids to show on; missing or empty means every display
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Display playlist: slides TVDisplay rotates through (see lib/playlist.ts)
+export type SlideType = 'live' | 'agenda' | 'week' | 'announcements';
+
+export interface PlaylistSlide {
+  id: string;
+  type: SlideType;
+  durationSeconds: number;
+  enabled?: boolean; // Defaults to true
+  skipWhenEmpty?: boolean; // Skip while the slide has nothing to show (e.g. no events today)
+}
+
+export interface PlaylistRules {
+  pinLiveMinutes: number; // Stay on the live view during the first N minutes of an event; 0 disables
+}
+
+export interface Playlist {
+  slides: PlaylistSlide[];
+  rules: PlaylistRules;
+}
+
+// GET /api/display/playlist
+export interface PlaylistResponse {
+  playlist: Playlist;
+  customized: boolean;
+  contentCounts: Partial<Record<SlideType, number>>; // Items each slide would show right now
+}
+
+// A named screen (e.g. /display/woodshop) and what it shows
+export type DisplayLayout = 'grid' | 'single'; // every in-progress event plus the next, or just one
+export type DisplayOrientation = 'landscape' | 'portrait';
+
+export interface DisplayConfig {
+  id: string; // URL-safe, e.g. "woodshop"
+  name: string;
+  rooms?: string[]; // Calendar source ids/rooms or location text to show; all when empty
+  ageGroups?: string[]; // AgeGroupRule ids to show; all when empty
+  layout: DisplayLayout;
+  orientation: DisplayOrientation;
+  theme: string; // 'auto' follows the event's age group; a hex color pins the screen to it
+  qrCodes?: boolean; // QR codes on upcoming events; on unless set to false
+  playlist?: Playlist; // Falls back to the shared playlist
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One local day column of the week view
+export interface WeekDay {
+  date: string; // "YYYY-MM-DD" in the makerspace's zone
+  start: string; // ISO instants of local midnight..midnight
+  end: string;
+  events: ProcessedEvent[]; // Timed events within the day, by start time
+}
+
+// An all-day or multi-day event drawn as a bar across day columns
+export interface WeekSpan {
+  event: ProcessedEvent;
+  startDay: number; // Column indexes into WeekSchedule.days, inclusive
+  endDay: number;
+}
+
+// GET /api/calendar/week - seven days starting today
+export interface WeekSchedule {
+  timeZone: string;
+  currentTime: string;
+  mockTime?: string;
+  days: WeekDay[];
+  spans: WeekSpan[];
+  dataAge?: number;
+  degraded?: boolean;
 }
 
 export interface CalendarFetchResult {
@@ -40,6 +256,15 @@ export interface CalendarFetchResult {
   errors: string[];
   lastFetch: string;
   nextFetch?: string;
+  sources?: SourceFetchStatus[]; // Per-calendar outcome when several sources are merged
+}
+
+export interface SourceFetchStatus {
+  source: CalendarSourceInfo;
+  success: boolean;
+  eventCount: number;
+  error?: string;
+  durationMs: number;
 }
 
 export interface SystemHealth {
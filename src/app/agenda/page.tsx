@@ -0,0 +1,9 @@
+import { AgendaView } from '@/components/AgendaView';
+
+export default function AgendaPage() {
+  return (
+    <main>
+      <AgendaView />
+    </main>
+  );
+}
@@ -28,7 +28,6 @@ interface StorageInfo {
 
 export default function ApiTestPage() {
   const [storageInfo, setStorageInfo] = useState<StorageInfo | null>(null);
-  const [password, setPassword] = useState('');
   const [message, setMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
@@ -37,6 +36,10 @@ export default function ApiTestPage() {
     try {
       const response = await fetch('/api/debug/storage');
       const data = await response.json();
+      if (!response.ok) {
+        setMessage(`❌ ${data.error || 'Failed to load storage info'} (sign in on the admin panel first)`);
+        return;
+      }
       setStorageInfo(data);
       setMessage('✅ Storage info loaded successfully');
     } catch (error) {
@@ -47,16 +50,11 @@ export default function ApiTestPage() {
   };
 
   const clearStorage = async () => {
-    if (!password) {
-      setMessage('❌ Password required to clear storage');
-      return;
-    }
+    if (!window.confirm('Clear cached calendar data and the time override?')) return;
 
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/debug/storage?password=${encodeURIComponent(password)}`, {
-        method: 'DELETE',
-      });
+      const response = await fetch('/api/debug/storage', { method: 'DELETE' });
       const data = await response.json();
       
       if (response.ok) {
@@ -162,17 +160,11 @@ export default function ApiTestPage() {
             <div className="space-y-4">
               <h2 className="text-xl font-semibold text-red-400">Storage Management</h2>
               
+              <p className="text-sm text-gray-400">Requires an admin session (sign in on the admin panel).</p>
               <div className="flex gap-2">
-                <input
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  placeholder="Admin password"
-                  className="bg-gray-700 border border-gray-600 rounded px-3 py-2 flex-1"
-                />
                 <button
                   onClick={clearStorage}
-                  disabled={isLoading || !password}
+                  disabled={isLoading}
                   className="bg-red-600 hover:bg-red-700 disabled:opacity-50 px-4 py-2 rounded"
                 >
                   Clear LocalStorage
@@ -0,0 +1,64 @@
+// app/api/admin/age-groups/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ageGroupConfig, AgeGroupRuleInput } from '@/lib/age-group-config';
+import { refreshScheduler } from '@/lib/refresh-scheduler';
+import { withScope } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/admin/age-groups/:id
+export const GET = withScope('write:age-groups', async (_request: NextRequest, { params }: RouteContext) => {
+  const { id } = await params;
+  const ageGroup = ageGroupConfig.getRule(id);
+
+  if (!ageGroup) {
+    return NextResponse.json({ success: false, error: `Age group "${id}" not found` }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, ageGroup });
+});
+
+// PUT /api/admin/age-groups/:id - Edit a rule (fields not sent are kept)
+export const PUT = withScope('write:age-groups', async (request: NextRequest, { params }: RouteContext) => {
+  const { id } = await params;
+  const existing = ageGroupConfig.getRule(id);
+  if (!existing) {
+    return NextResponse.json({ success: false, error: `Age group "${id}" not found` }, { status: 404 });
+  }
+
+  try {
+    const input = await request.json() as Partial<AgeGroupRuleInput>;
+    const errors = ageGroupConfig.validate({ ...existing, ...input }, id);
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: errors.join('; '), errors }, { status: 400 });
+    }
+
+    const ageGroup = ageGroupConfig.update(id, input);
+    console.log(`✅ Age group updated: ${id}`);
+    refreshScheduler.refreshNow().catch(() => {});
+
+    return NextResponse.json({ success: true, ageGroup });
+  } catch (error) {
+    console.error('❌ Age group update error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update age group',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/admin/age-groups/:id
+export const DELETE = withScope('write:age-groups', async (request: NextRequest, { params }: RouteContext) => {
+  const { id } = await params;
+  if (!ageGroupConfig.remove(id)) {
+    return NextResponse.json({ success: false, error: `Age group "${id}" not found` }, { status: 404 });
+  }
+
+  console.log(`✅ Age group deleted: ${id}`);
+  refreshScheduler.refreshNow().catch(() => {});
+  return NextResponse.json({ success: true });
+});
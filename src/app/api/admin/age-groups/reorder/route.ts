@@ -0,0 +1,33 @@
+// app/api/admin/age-groups/reorder/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ageGroupConfig } from '@/lib/age-group-config';
+import { refreshScheduler } from '@/lib/refresh-scheduler';
+import { withScope } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/admin/age-groups/reorder - Body: { ids: string[] } in the order rules should be tried
+export const POST = withScope('write:age-groups', async (request: NextRequest) => {
+  try {
+    const { ids } = await request.json();
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+      return NextResponse.json({ success: false, error: 'ids must be an array of age group ids' }, { status: 400 });
+    }
+
+    const error = ageGroupConfig.reorder(ids);
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 400 });
+    }
+
+    console.log(`✅ Age groups reordered: ${ids.join(', ')}`);
+    refreshScheduler.refreshNow().catch(() => {});
+    return NextResponse.json({ success: true, ageGroups: ageGroupConfig.getRules() });
+  } catch (error) {
+    console.error('❌ Age group reorder error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to reorder age groups',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
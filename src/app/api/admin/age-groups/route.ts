@@ -0,0 +1,51 @@
+// app/api/admin/age-groups/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ageGroupConfig, AgeGroupRuleInput } from '@/lib/age-group-config';
+import { refreshScheduler } from '@/lib/refresh-scheduler';
+import { withScope } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/age-groups - List rules in evaluation order
+export const GET = withScope('write:age-groups', async () => {
+  return NextResponse.json({
+    success: true,
+    ageGroups: ageGroupConfig.getRules(),
+    customized: ageGroupConfig.isCustomized()
+  });
+});
+
+// POST /api/admin/age-groups - Create a rule
+export const POST = withScope('write:age-groups', async (request: NextRequest) => {
+  try {
+    const input = await request.json() as Partial<AgeGroupRuleInput>;
+    const errors = ageGroupConfig.validate(input);
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: errors.join('; '), errors }, { status: 400 });
+    }
+
+    const ageGroup = ageGroupConfig.create(input as AgeGroupRuleInput);
+    console.log(`✅ Age group created: ${ageGroup.id}`);
+
+    // Re-detect age groups on cached events in the background
+    refreshScheduler.refreshNow().catch(() => {});
+
+    return NextResponse.json({ success: true, ageGroup }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Age group create error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create age group',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/admin/age-groups - Reset to the built-in rules
+export const DELETE = withScope('write:age-groups', async () => {
+  ageGroupConfig.reset();
+  console.log('✅ Age groups reset to defaults');
+  refreshScheduler.refreshNow().catch(() => {});
+
+  return NextResponse.json({ success: true, ageGroups: ageGroupConfig.getRules() });
+});
@@ -0,0 +1,35 @@
+// app/api/admin/age-groups/test/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ageGroupConfig } from '@/lib/age-group-config';
+import { AgeGroupDetector } from '@/lib/age-group-detector';
+import { withScope } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/admin/age-groups/test - Body: { text } or { title, description }, plus optional { audience, categories }
+// Shows which rule and pattern would match, without saving anything
+export const POST = withScope('write:age-groups', async (request: NextRequest) => {
+  try {
+    const { text, title, description, audience, categories } = await request.json();
+    const subject = typeof text === 'string' ? text : typeof title === 'string' ? title : null;
+
+    if (subject === null) {
+      return NextResponse.json({ success: false, error: 'Provide text or title to test' }, { status: 400 });
+    }
+
+    const detector = new AgeGroupDetector(ageGroupConfig.getRules());
+    const match = detector.detect(subject, typeof description === 'string' ? description : '', {
+      audience: typeof audience === 'string' ? audience : undefined,
+      categories: Array.isArray(categories) ? categories.filter((c): c is string => typeof c === 'string') : undefined
+    });
+
+    return NextResponse.json({ success: true, ...match });
+  } catch (error) {
+    console.error('❌ Age group test error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to test age group rules',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,59 @@
+// app/api/admin/announcements/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { announcementStore, AnnouncementInput } from '@/lib/announcement-store';
+import { withScope } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/admin/announcements/:id
+export const GET = withScope('write:announcements', async (request: NextRequest, { params }: RouteContext) => {
+  const { id } = await params;
+  const announcement = announcementStore.get(id);
+  if (!announcement) {
+    return NextResponse.json({ success: false, error: `Announcement "${id}" not found` }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, announcement });
+});
+
+// PUT /api/admin/announcements/:id - Edit an announcement (fields not sent are kept; send "" to clear)
+export const PUT = withScope('write:announcements', async (request: NextRequest, { params }: RouteContext) => {
+  const { id } = await params;
+  const existing = announcementStore.get(id);
+  if (!existing) {
+    return NextResponse.json({ success: false, error: `Announcement "${id}" not found` }, { status: 404 });
+  }
+
+  try {
+    const input = await request.json() as Partial<AnnouncementInput>;
+    const errors = announcementStore.validate({ ...existing, ...input });
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: errors.join('; '), errors }, { status: 400 });
+    }
+
+    const announcement = announcementStore.update(id, input);
+    console.log(`✅ Announcement updated: ${announcement?.title}`);
+    return NextResponse.json({ success: true, announcement });
+  } catch (error) {
+    console.error('❌ Announcement update error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update announcement',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/admin/announcements/:id
+export const DELETE = withScope('write:announcements', async (request: NextRequest, { params }: RouteContext) => {
+  const { id } = await params;
+  if (!announcementStore.remove(id)) {
+    return NextResponse.json({ success: false, error: `Announcement "${id}" not found` }, { status: 404 });
+  }
+
+  console.log(`✅ Announcement deleted: ${id}`);
+  return NextResponse.json({ success: true });
+});
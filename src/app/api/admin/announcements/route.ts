@@ -0,0 +1,34 @@
+// app/api/admin/announcements/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { announcementStore, AnnouncementInput } from '@/lib/announcement-store';
+import { withScope } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/announcements - Every announcement, including scheduled and expired ones
+export const GET = withScope('write:announcements', async () => {
+  return NextResponse.json({ success: true, announcements: announcementStore.list() });
+});
+
+// POST /api/admin/announcements - Create an announcement
+// Body: { title, body?, imageUrl?, startsAt?, endsAt?, priority?: 'low'|'normal'|'high', displays? }
+export const POST = withScope('write:announcements', async (request: NextRequest) => {
+  try {
+    const input = await request.json() as Partial<AnnouncementInput>;
+    const errors = announcementStore.validate(input);
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: errors.join('; '), errors }, { status: 400 });
+    }
+
+    const announcement = announcementStore.create(input as AnnouncementInput);
+    console.log(`✅ Announcement created: ${announcement.title}`);
+    return NextResponse.json({ success: true, announcement }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Announcement create error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create announcement',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,62 @@
+// app/api/admin/displays/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { displayRegistry, DisplayInput } from '@/lib/display-registry';
+import { statusNotifier } from '@/lib/status-notifier';
+import { withScope } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/admin/displays/:id
+export const GET = withScope('write:displays', async (request: NextRequest, { params }: RouteContext) => {
+  const { id } = await params;
+  const display = displayRegistry.get(id);
+  if (!display) {
+    return NextResponse.json({ success: false, error: `Display "${id}" not found` }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, display });
+});
+
+// PUT /api/admin/displays/:id - Edit a display (fields not sent are kept; `playlist: null` uses the shared one)
+export const PUT = withScope('write:displays', async (request: NextRequest, { params }: RouteContext) => {
+  const { id } = await params;
+  const existing = displayRegistry.get(id);
+  if (!existing) {
+    return NextResponse.json({ success: false, error: `Display "${id}" not found` }, { status: 404 });
+  }
+
+  try {
+    const input = await request.json() as Partial<DisplayInput>;
+    const errors = displayRegistry.validate({ ...existing, ...input, id });
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: errors.join('; '), errors }, { status: 400 });
+    }
+
+    const display = displayRegistry.update(id, input);
+    statusNotifier.notify('display config changed');
+    console.log(`✅ Display updated: ${id}`);
+    return NextResponse.json({ success: true, display });
+  } catch (error) {
+    console.error('❌ Display update error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update display',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/admin/displays/:id
+export const DELETE = withScope('write:displays', async (request: NextRequest, { params }: RouteContext) => {
+  const { id } = await params;
+  if (!displayRegistry.remove(id)) {
+    return NextResponse.json({ success: false, error: `Display "${id}" not found` }, { status: 404 });
+  }
+
+  statusNotifier.notify('display removed');
+  console.log(`✅ Display removed: ${id}`);
+  return NextResponse.json({ success: true });
+});
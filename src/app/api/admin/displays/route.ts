@@ -0,0 +1,40 @@
+// app/api/admin/displays/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { displayRegistry, DisplayInput } from '@/lib/display-registry';
+import { statusNotifier } from '@/lib/status-notifier';
+import { withScope } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/displays - Every registered display
+export const GET = withScope('write:displays', async () => {
+  return NextResponse.json({ success: true, displays: displayRegistry.list() });
+});
+
+// POST /api/admin/displays - Register a display
+// Body: { id, name, rooms?, ageGroups?, layout?: 'grid'|'single', orientation?: 'landscape'|'portrait', theme?, playlist? }
+export const POST = withScope('write:displays', async (request: NextRequest) => {
+  try {
+    const input = await request.json() as Partial<DisplayInput>;
+    const errors = displayRegistry.validate(input);
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: errors.join('; '), errors }, { status: 400 });
+    }
+
+    const display = displayRegistry.create(input as DisplayInput);
+    if (!display) {
+      return NextResponse.json({ success: false, error: `Display "${input.id}" already exists` }, { status: 409 });
+    }
+
+    statusNotifier.notify('display registered');
+    console.log(`✅ Display registered: ${display.id}`);
+    return NextResponse.json({ success: true, display }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Display registration error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to register display',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
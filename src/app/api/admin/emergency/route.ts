@@ -0,0 +1,36 @@
+// app/api/admin/emergency/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { emergencyAlerts, EmergencyAlertInput } from '@/lib/emergency-alert';
+import { withScope } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/admin/emergency - Take over every display
+// Body: { title, message?, severity?: 'warning'|'critical', expiresAt? | durationMinutes? }
+export const POST = withScope('write:emergency', async (request: NextRequest) => {
+  try {
+    const input = await request.json() as Partial<EmergencyAlertInput>;
+    const errors = emergencyAlerts.validate(input);
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: errors.join('; '), errors }, { status: 400 });
+    }
+
+    const alert = emergencyAlerts.activate(input as EmergencyAlertInput);
+    console.log(`🚨 Emergency alert activated: ${alert.title}`);
+    return NextResponse.json({ success: true, alert }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Emergency alert error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to activate emergency alert',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/admin/emergency - Clear the active alert
+export const DELETE = withScope('write:emergency', async () => {
+  const cleared = emergencyAlerts.clear();
+  console.log(cleared ? `✅ Emergency alert cleared: ${cleared.title}` : 'ℹ️ No emergency alert to clear');
+  return NextResponse.json({ success: true, cleared });
+});
@@ -0,0 +1,32 @@
+// app/api/admin/refresh/route.ts
+import { NextResponse } from 'next/server';
+import { refreshScheduler } from '@/lib/refresh-scheduler';
+import { withScope } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = withScope('admin:cache', async () => {
+  console.log('⚙️ Admin calendar refresh requested');
+
+  try {
+    const result = await refreshScheduler.refreshNow();
+
+    console.log(`✅ Calendar refreshed: ${result.eventCount} events in ${result.durationMs}ms`);
+    return NextResponse.json({
+      success: true,
+      ...result,
+      scheduler: refreshScheduler.getStatus()
+    });
+  } catch (error) {
+    console.error('❌ Calendar refresh error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to refresh calendar data',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 502 });
+  }
+});
+
+export const GET = withScope('read:status', async () => {
+  return NextResponse.json(refreshScheduler.getStatus());
+});
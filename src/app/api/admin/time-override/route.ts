@@ -1,22 +1,15 @@
 // app/api/admin/time-override/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import { LocalStorage } from '@/lib/local-storage';
+import { serverStorage } from '@/lib/server-storage';
+import { withScope } from '@/lib/admin-auth';
+import { statusNotifier } from '@/lib/status-notifier';
 
-export async function POST(request: NextRequest) {
-  const storage = new LocalStorage();
+export const POST = withScope('write:overrides', async (request: NextRequest) => {
+  const storage = serverStorage;
   
   try {
     const body = await request.json();
-    const { mockTime, password } = body;
-    
-    // Basic password check (in production, use proper auth)
-    if (!password || password !== process.env.ADMIN_PASSWORD) {
-      console.log('❌ Invalid admin password');
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid admin password'
-      }, { status: 401 });
-    }
+    const { mockTime } = body;
     
     console.log(`⚙️ Admin time override request: ${mockTime || 'CLEAR'}`);
     
@@ -30,6 +23,7 @@ export async function POST(request: NextRequest) {
     }
     
     storage.setTimeOverride(mockTime || null);
+    statusNotifier.notify('time override changed');
     
     const response = {
       success: true,
@@ -49,10 +43,10 @@ export async function POST(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
+});
 
-export async function GET() {
-  const storage = new LocalStorage();
+export const GET = withScope('read:status', async () => {
+  const storage = serverStorage;
   
   try {
     const mockTime = storage.getTimeOverride();
@@ -73,4 +67,4 @@ export async function GET() {
       message: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
+});
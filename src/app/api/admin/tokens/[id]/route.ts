@@ -0,0 +1,21 @@
+// app/api/admin/tokens/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { apiTokens } from '@/lib/api-tokens';
+import { withAdmin } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE /api/admin/tokens/:id - Revoke one token; the others keep working
+export const DELETE = withAdmin(async (_request: NextRequest, { params }: RouteContext) => {
+  const { id } = await params;
+  if (!apiTokens.revoke(id)) {
+    return NextResponse.json({ success: false, error: `API token "${id}" not found` }, { status: 404 });
+  }
+
+  console.log(`✅ API token revoked: ${id}`);
+  return NextResponse.json({ success: true });
+});
@@ -0,0 +1,36 @@
+// app/api/admin/tokens/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { apiTokens, ApiTokenInput, API_TOKEN_SCOPES } from '@/lib/api-tokens';
+import { withAdmin } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// Tokens are managed from a signed-in admin session only; a token can't mint or revoke tokens
+
+// GET /api/admin/tokens - Every API token (without secrets) and the scopes a token can have
+export const GET = withAdmin(async () => {
+  return NextResponse.json({ success: true, tokens: apiTokens.list(), scopes: API_TOKEN_SCOPES });
+});
+
+// POST /api/admin/tokens - Create a token. The secret is in this response only
+// Body: { name, scopes: string[], expiresAt? | expiresInDays? }
+export const POST = withAdmin(async (request: NextRequest) => {
+  try {
+    const input = await request.json() as Partial<ApiTokenInput>;
+    const errors = apiTokens.validate(input);
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: errors.join('; '), errors }, { status: 400 });
+    }
+
+    const { token, secret } = apiTokens.create(input as ApiTokenInput);
+    console.log(`🔑 API token created: ${token.name} (${token.scopes.join(' ')})`);
+    return NextResponse.json({ success: true, token, secret }, { status: 201 });
+  } catch (error) {
+    console.error('❌ API token create error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create API token',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
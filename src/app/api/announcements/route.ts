@@ -0,0 +1,18 @@
+// app/api/announcements/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { announcementStore } from '@/lib/announcement-store';
+import { serverStorage } from '@/lib/server-storage';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/announcements?display=<id> - Announcements visible now (honors the admin time override)
+export async function GET(request: NextRequest) {
+  const mockTime = serverStorage.getTimeOverride();
+  const now = mockTime ? new Date(mockTime) : new Date();
+  const displayId = request.nextUrl.searchParams.get('display') || undefined;
+
+  return NextResponse.json({
+    success: true,
+    announcements: announcementStore.getVisible(now, displayId)
+  });
+}
@@ -0,0 +1,50 @@
+// app/api/auth/login/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { adminSessions } from '@/lib/admin-session';
+import { loginThrottle } from '@/lib/login-throttle';
+import { getClientIp, isAdminLoginEnabled, setSessionCookie, verifyAdminPassword } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/auth/login - Exchange the admin password ({ password }) for an HttpOnly session cookie.
+// Repeated failures lock the client IP out for a while
+export async function POST(request: NextRequest) {
+  if (!isAdminLoginEnabled()) {
+    console.log('🔒 Admin login rejected: TRUSTED_PROXY_HOPS is not configured');
+    return NextResponse.json(
+      { success: false, error: 'Admin login is disabled until TRUSTED_PROXY_HOPS is configured' },
+      { status: 503 }
+    );
+  }
+
+  const ip = getClientIp(request);
+
+  // Reserved before the body is read and the password verified: a failure is already counted
+  const retryAfter = loginThrottle.reserveAttempt(ip);
+  if (retryAfter > 0) {
+    console.log(`🔒 Admin login from ${ip} rejected: locked out for ${retryAfter}s`);
+    return NextResponse.json(
+      { success: false, error: `Too many failed logins. Try again in ${Math.ceil(retryAfter / 60)} minutes.` },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+  }
+
+  let password: unknown;
+  try {
+    ({ password } = await request.json());
+  } catch {
+    return NextResponse.json({ success: false, error: 'Expected a JSON body with a password' }, { status: 400 });
+  }
+
+  if (!(await verifyAdminPassword(password))) {
+    console.log(`❌ Invalid admin password from ${ip}`);
+    return NextResponse.json({ success: false, error: 'Invalid admin password' }, { status: 401 });
+  }
+
+  loginThrottle.recordSuccess(ip);
+  const { token, session } = adminSessions.create(ip);
+  const response = NextResponse.json({ success: true, expiresAt: session.expiresAt });
+  setSessionCookie(response, token, session);
+  console.log(`✅ Admin signed in from ${ip}`);
+  return response;
+}
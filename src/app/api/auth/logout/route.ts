@@ -0,0 +1,15 @@
+// app/api/auth/logout/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { adminSessions } from '@/lib/admin-session';
+import { ADMIN_SESSION_COOKIE, clearSessionCookie } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/auth/logout - End the current admin session and clear its cookie
+export async function POST(request: NextRequest) {
+  adminSessions.revoke(request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,14 @@
+// app/api/auth/session/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminSession } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/auth/session - Whether this browser is signed in as admin, and until when
+export async function GET(request: NextRequest) {
+  const session = getAdminSession(request);
+  return NextResponse.json({
+    authenticated: Boolean(session),
+    expiresAt: session?.expiresAt ?? null
+  });
+}
@@ -1,6 +1,7 @@
 // app/api/cache/stats/route.ts
 import { NextResponse } from 'next/server';
 import { calendarCache } from '@/lib/calendar-cache';
+import { withScope } from '@/lib/admin-auth';
 
 export const dynamic = 'force-dynamic';
 
@@ -14,8 +15,8 @@ export async function GET() {
   });
 }
 
-// Optional: POST endpoint to manually clear cache
-export async function POST() {
+// POST endpoint to manually clear cache (admin only: the next fetch re-downloads every feed)
+export const POST = withScope('admin:cache', async () => {
   calendarCache.clear();
   
   return NextResponse.json({
@@ -23,4 +24,4 @@ export async function POST() {
     message: 'Cache cleared successfully',
     timestamp: new Date().toISOString()
   });
-}
+});
@@ -0,0 +1,63 @@
+// app/api/calendar/timeline/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { StatusTimeline } from '@/shared/types';
+import { getCalendarEvents } from '@/lib/refresh-scheduler';
+import { serverStorage } from '@/lib/server-storage';
+import { displayRegistry } from '@/lib/display-registry';
+import { buildStatusTimeline } from '@/lib/status-calculator';
+import { Logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_HOURS = 24;
+const MAX_DAYS = 7;
+
+// GET /api/calendar/timeline?from=<iso>&to=<iso>&display=<id> - Every status change in the window, with
+// the status after each. Defaults to the next 24 hours from now (honors the admin time override)
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const displayId = params.get('display') || undefined;
+  if (displayId && !displayRegistry.get(displayId)) {
+    return NextResponse.json({ error: `Display "${displayId}" not found` }, { status: 404 });
+  }
+
+  const mockTimeStr = serverStorage.getTimeOverride();
+  const fromParam = params.get('from');
+  const toParam = params.get('to');
+  const from = new Date(fromParam ?? mockTimeStr ?? Date.now());
+  const to = toParam ? new Date(toParam) : new Date(from.getTime() + DEFAULT_HOURS * 60 * 60 * 1000);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return NextResponse.json({ error: 'from and to must be ISO dates' }, { status: 400 });
+  }
+  if (to <= from) {
+    return NextResponse.json({ error: 'to must be after from' }, { status: 400 });
+  }
+  if (to.getTime() - from.getTime() > MAX_DAYS * 24 * 60 * 60 * 1000) {
+    return NextResponse.json({ error: `The window can be at most ${MAX_DAYS} days` }, { status: 400 });
+  }
+
+  try {
+    const { events: allEvents, degraded } = await getCalendarEvents();
+    const events = displayRegistry.scopeEvents(allEvents, displayId);
+    const { initial, transitions, truncated } = buildStatusTimeline(events, from, to);
+    Logger.info('CalendarTimelineAPI', `Returning ${transitions.length} transitions until ${to.toISOString()}`, {
+      display: displayId ?? null,
+      from: from.toISOString()
+    });
+
+    const response: StatusTimeline = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      mockTime: mockTimeStr || undefined,
+      initial,
+      transitions,
+      truncated: truncated || undefined,
+      degraded
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    Logger.error('CalendarTimelineAPI', 'Error building the status timeline', {}, error as Error);
+    return NextResponse.json({ error: 'Failed to build the status timeline.' }, { status: 500 });
+  }
+}
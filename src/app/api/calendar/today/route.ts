@@ -0,0 +1,45 @@
+// app/api/calendar/today/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { AgendaDay } from '@/shared/types';
+import { getCalendarEvents } from '@/lib/refresh-scheduler';
+import { serverStorage } from '@/lib/server-storage';
+import { displayRegistry } from '@/lib/display-registry';
+import { CalendarUtils } from '@/lib/calendar-utils';
+import { TimeZoneUtils } from '@/lib/timezone';
+import { Logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/calendar/today?display=<id> - Today's events in the makerspace's time zone (honors the admin
+// time override), scoped to a registered display when given
+export async function GET(request: NextRequest) {
+  const storage = serverStorage;
+
+  try {
+    const mockTimeStr = storage.getTimeOverride();
+    const currentTime = mockTimeStr ? new Date(mockTimeStr) : new Date();
+    const timeZone = TimeZoneUtils.getMakerspaceTimeZone();
+    const day = TimeZoneUtils.getLocalDayBounds(currentTime, timeZone);
+
+    const { events: allEvents, fetchedAt, degraded } = await getCalendarEvents();
+    const displayEvents = displayRegistry.scopeEvents(allEvents, request.nextUrl.searchParams.get('display'));
+    const events = CalendarUtils.getEventsForLocalDay(displayEvents, currentTime, timeZone);
+    Logger.info('CalendarTodayAPI', `Returning ${events.length} events for ${day.date} (${timeZone})`);
+
+    const response: AgendaDay = {
+      date: day.date,
+      timeZone,
+      dayStart: day.start.toISOString(),
+      dayEnd: day.end.toISOString(),
+      currentTime: currentTime.toISOString(),
+      mockTime: mockTimeStr || undefined,
+      events,
+      dataAge: fetchedAt ? Math.max(0, Math.round((Date.now() - new Date(fetchedAt).getTime()) / 1000)) : undefined,
+      degraded
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    Logger.error('CalendarTodayAPI', 'Error getting today\'s events', {}, error as Error);
+    return NextResponse.json({ error: 'Failed to retrieve today\'s events.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+// app/api/calendar/week/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { WeekSchedule } from '@/shared/types';
+import { getCalendarEvents } from '@/lib/refresh-scheduler';
+import { serverStorage } from '@/lib/server-storage';
+import { displayRegistry } from '@/lib/display-registry';
+import { CalendarUtils } from '@/lib/calendar-utils';
+import { TimeZoneUtils } from '@/lib/timezone';
+import { Logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/calendar/week?display=<id> - Seven local days from today (honors the admin time override),
+// scoped to a registered display when given
+export async function GET(request: NextRequest) {
+  const storage = serverStorage;
+
+  try {
+    const mockTimeStr = storage.getTimeOverride();
+    const currentTime = mockTimeStr ? new Date(mockTimeStr) : new Date();
+    const timeZone = TimeZoneUtils.getMakerspaceTimeZone();
+
+    const { events: allEvents, fetchedAt, degraded } = await getCalendarEvents();
+    const events = displayRegistry.scopeEvents(allEvents, request.nextUrl.searchParams.get('display'));
+    const { days, spans } = CalendarUtils.getWeekSchedule(events, currentTime, timeZone);
+    Logger.info('CalendarWeekAPI', `Returning week from ${days[0].date}`, {
+      timedEvents: days.reduce((count, day) => count + day.events.length, 0),
+      spans: spans.length
+    });
+
+    const response: WeekSchedule = {
+      timeZone,
+      currentTime: currentTime.toISOString(),
+      mockTime: mockTimeStr || undefined,
+      days,
+      spans,
+      dataAge: fetchedAt ? Math.max(0, Math.round((Date.now() - new Date(fetchedAt).getTime()) / 1000)) : undefined,
+      degraded
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    Logger.error('CalendarWeekAPI', 'Error getting week schedule', {}, error as Error);
+    return NextResponse.json({ error: 'Failed to retrieve the week schedule.' }, { status: 500 });
+  }
+}
@@ -1,10 +1,11 @@
 // app/api/debug/storage/route.ts
-import { NextRequest, NextResponse } from 'next/server';
-import { LocalStorage } from '@/lib/local-storage';
+import { NextResponse } from 'next/server';
+import { serverStorage } from '@/lib/server-storage';
+import { withScope } from '@/lib/admin-auth';
 
 // GET /api/debug/storage - Get storage info
-export async function GET() {
-  const storage = new LocalStorage();
+export const GET = withScope('read:status', async () => {
+  const storage = serverStorage;
   
   try {
     const storageInfo = storage.getStorageInfo();
@@ -21,25 +22,14 @@ export async function GET() {
       timestamp: new Date().toISOString()
     }, { status: 500 });
   }
-}
+});
 
-// DELETE /api/debug/storage - Clear all localStorage (requires admin password)
-export async function DELETE(request: NextRequest) {
-  const storage = new LocalStorage();
+// DELETE /api/debug/storage - Clear cached calendar data and the time override (admin only).
+// Admin sessions and API tokens are kept: this does not sign anyone out
+export const DELETE = withScope('admin:cache', async () => {
+  const storage = serverStorage;
   
   try {
-    const { searchParams } = new URL(request.url);
-    const password = searchParams.get('password');
-    
-    // Basic password check (same as admin routes)
-    if (!password || password !== process.env.ADMIN_PASSWORD) {
-      console.log('❌ Invalid admin password for storage clear');
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid admin password'
-      }, { status: 401 });
-    }
-    
     storage.clearAll();
     console.log('🗑️ Admin cleared all localStorage data');
     
@@ -57,4 +47,4 @@ export async function DELETE(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
+});
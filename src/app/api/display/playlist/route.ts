@@ -0,0 +1,79 @@
+// app/api/display/playlist/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { Playlist, PlaylistResponse, SlideType } from '@/shared/types';
+import { playlistConfig } from '@/lib/playlist-config';
+import { PlaylistEngine } from '@/lib/playlist';
+import { getCalendarEvents } from '@/lib/refresh-scheduler';
+import { serverStorage } from '@/lib/server-storage';
+import { CalendarUtils } from '@/lib/calendar-utils';
+import { announcementStore } from '@/lib/announcement-store';
+import { displayRegistry } from '@/lib/display-registry';
+import { withScope } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/display/playlist?display=<id> - The playlist plus how much each slide has to show right now.
+// A registered display with its own playlist gets that one instead of the shared playlist.
+export async function GET(request: NextRequest) {
+  const displayId = request.nextUrl.searchParams.get('display') || undefined;
+  const display = displayId ? displayRegistry.get(displayId) : undefined;
+
+  const response: PlaylistResponse = {
+    playlist: display?.playlist ?? playlistConfig.get(),
+    customized: !!display?.playlist || playlistConfig.isCustomized(),
+    contentCounts: await getContentCounts(display?.id)
+  };
+  return NextResponse.json({ success: true, ...response });
+}
+
+// PUT /api/display/playlist - Replace the playlist. Body: { slides, rules }
+export const PUT = withScope('write:displays', async (request: NextRequest) => {
+  try {
+    const input = await request.json();
+    const errors = PlaylistEngine.validate(input);
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: errors.join('; '), errors }, { status: 400 });
+    }
+
+    const playlist = playlistConfig.save(input as Playlist);
+    console.log(`✅ Playlist updated (${playlist.slides.length} slides)`);
+    return NextResponse.json({ success: true, playlist });
+  } catch (error) {
+    console.error('❌ Playlist update error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update playlist',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/display/playlist - Go back to the default playlist
+export const DELETE = withScope('write:displays', async () => {
+  playlistConfig.reset();
+  console.log('✅ Playlist reset to default');
+  return NextResponse.json({ success: true, playlist: playlistConfig.get() });
+});
+
+// Counts drive the skipWhenEmpty rule; when events can't be loaded they are left unknown
+async function getContentCounts(displayId?: string): Promise<Partial<Record<SlideType, number>>> {
+  const mockTime = serverStorage.getTimeOverride();
+  const now = mockTime ? new Date(mockTime) : new Date();
+  // Only high priority announcements get the full slide; the rest scroll in the ticker
+  const announcements = announcementStore.getVisible(now, displayId).filter(a => a.priority === 'high').length;
+
+  try {
+    const { events: allEvents } = await getCalendarEvents();
+    const events = displayRegistry.scopeEvents(allEvents, displayId);
+    const week = CalendarUtils.getWeekSchedule(events, now);
+
+    return {
+      agenda: CalendarUtils.getEventsForLocalDay(events, now).length,
+      week: week.spans.length + week.days.reduce((count, day) => count + day.events.length, 0),
+      announcements
+    };
+  } catch (error) {
+    console.error('❌ Playlist content count error:', error);
+    return { announcements };
+  }
+}
@@ -1,10 +1,11 @@
 // app/api/display/status/route.ts
 import { NextResponse } from 'next/server';
 import { DisplayStatus, ProcessedEvent, AgeGroup } from '@/shared/types';
-import { LocalStorage } from '@/lib/local-storage';
+import { serverStorage } from '@/lib/server-storage';
+import { TimeZoneUtils } from '@/lib/timezone';
 
 export async function GET() {
-  const storage = new LocalStorage();
+  const storage = serverStorage;
   
   try {
     console.log('📡 Display status API called');
@@ -25,8 +26,8 @@ export async function GET() {
     const upcomingEvents: ProcessedEvent[] = [];
     
     events.forEach(event => {
-      const eventStart = new Date(event.start);
-      const eventEnd = new Date(event.end);
+      const eventStart = TimeZoneUtils.parseEventDate(event.start);
+      const eventEnd = TimeZoneUtils.parseEventDate(event.end);
       
       if (eventStart <= now && now <= eventEnd) {
         currentEvents.push(event);
@@ -35,32 +36,43 @@ export async function GET() {
       }
     });
 
-    // Sort upcoming events by start time
-    upcomingEvents.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+    // Sort current and upcoming events by start time
+    const byStart = (a: ProcessedEvent, b: ProcessedEvent) =>
+      TimeZoneUtils.parseEventDate(a.start).getTime() - TimeZoneUtils.parseEventDate(b.start).getTime();
+    currentEvents.sort(byStart);
+    upcomingEvents.sort(byStart);
 
     // Determine display status
     let status: DisplayStatus['status'];
     let displayTheme: string;
+    let themeColor: string | undefined;
     let timeUntilNext: string | undefined;
+    const timesRemaining: Record<string, string> = {};
+    currentEvents.forEach(event => {
+      const msUntilEnd = TimeZoneUtils.parseEventDate(event.end).getTime() - now.getTime();
+      timesRemaining[event.id] = formatTimeRemaining(msUntilEnd);
+    });
     const currentEvent = currentEvents[0] || undefined;
     const nextEvent = upcomingEvents[0] || undefined;
 
     if (currentEvent) {
       status = 'current';
       displayTheme = getThemeFromAgeGroup(currentEvent.ageGroup.group);
+      themeColor = currentEvent.ageGroup.color;
       
       // Calculate time until current event ends
-      const endTime = new Date(currentEvent.end);
+      const endTime = TimeZoneUtils.parseEventDate(currentEvent.end);
       const msUntilEnd = endTime.getTime() - now.getTime();
       timeUntilNext = formatTimeRemaining(msUntilEnd);
     } else if (nextEvent) {
-      const startTime = new Date(nextEvent.start);
+      const startTime = TimeZoneUtils.parseEventDate(nextEvent.start);
       const msUntilStart = startTime.getTime() - now.getTime();
       
       // If next event is within 2 hours, show "between events"
       if (msUntilStart <= 2 * 60 * 60 * 1000) {
         status = 'between';
         displayTheme = getThemeFromAgeGroup(nextEvent.ageGroup.group);
+        themeColor = nextEvent.ageGroup.color;
         timeUntilNext = formatTimeRemaining(msUntilStart);
       } else {
         status = 'closed';
@@ -75,15 +87,18 @@ export async function GET() {
       status,
       currentTime: currentTimeStr,
       displayTheme,
+      themeColor,
       timeUntilNext,
+      timesRemaining: currentEvents.length > 0 ? timesRemaining : undefined,
       currentEvent,
+      currentEvents,
       nextEvent,
       mockTime: mockTime || undefined
     };
 
     console.log('📡 Returning status:', { 
       status: response.status, 
-      hasCurrentEvent: !!response.currentEvent,
+      currentEvents: currentEvents.length,
       hasNextEvent: !!response.nextEvent,
       theme: response.displayTheme
     });
@@ -0,0 +1,61 @@
+// app/api/display/stream/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { DisplayStatusStream, formatServerSentEvent } from '@/lib/status-stream';
+import { loadDisplayStatus } from '@/lib/display-status';
+import { displayRegistry } from '@/lib/display-registry';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/display/stream?display=<id> - Server-Sent Events: `status` (a DisplayStatus, sent when it changes)
+// and `heartbeat` every 25 seconds
+export async function GET(request: NextRequest) {
+  const displayId = request.nextUrl.searchParams.get('display') || undefined;
+  if (displayId && !displayRegistry.get(displayId)) {
+    return NextResponse.json({ error: `Display "${displayId}" not found` }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let statusStream: DisplayStatusStream | null = null;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      console.log(`📡 Display ${displayId ?? '(all events)'} connected to status stream`);
+
+      const close = () => {
+        if (!statusStream) return;
+        statusStream.stop();
+        statusStream = null;
+        console.log(`📡 Display ${displayId ?? '(all events)'} disconnected from status stream`);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      statusStream = new DisplayStatusStream((event, data) => {
+        try {
+          controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+        } catch {
+          close();
+        }
+      }, () => loadDisplayStatus(displayId));
+
+      request.signal.addEventListener('abort', close);
+      statusStream.start();
+    },
+    cancel() {
+      statusStream?.stop();
+      statusStream = null;
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no' // Stop nginx from buffering the stream
+    }
+  });
+}
@@ -0,0 +1,50 @@
+// app/api/display/window/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { EventWindow } from '@/shared/types';
+import { getCalendarEvents } from '@/lib/refresh-scheduler';
+import { serverStorage } from '@/lib/server-storage';
+import { displayRegistry } from '@/lib/display-registry';
+import { CalendarUtils } from '@/lib/calendar-utils';
+import { TimeZoneUtils } from '@/lib/timezone';
+import { Logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const WINDOW_HOURS = 24;
+
+// GET /api/display/window?display=<id> - The next 24 hours of events (honors the admin time override).
+// Displays cache this and compute their own status from it while the server is unreachable.
+export async function GET(request: NextRequest) {
+  const displayId = request.nextUrl.searchParams.get('display') || undefined;
+  if (displayId && !displayRegistry.get(displayId)) {
+    return NextResponse.json({ error: `Display "${displayId}" not found` }, { status: 404 });
+  }
+
+  try {
+    const mockTimeStr = serverStorage.getTimeOverride();
+    const from = mockTimeStr ? new Date(mockTimeStr) : new Date();
+    const to = new Date(from.getTime() + WINDOW_HOURS * 60 * 60 * 1000);
+
+    const { events: allEvents } = await getCalendarEvents();
+    const events = displayRegistry.scopeEvents(allEvents, displayId);
+    const inWindow = CalendarUtils.getEventsInDateRange(events, from, to, { overlapping: true });
+
+    // Keep the next event after the window too, so a quiet day still shows what's coming
+    const after = CalendarUtils.sortEventsByStartTime(
+      events.filter(event => TimeZoneUtils.parseEventDate(event.start) > to)
+    )[0];
+
+    const response: EventWindow = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      servedAt: new Date().toISOString(),
+      mockTime: mockTimeStr || undefined,
+      events: after ? [...inWindow, after] : inWindow
+    };
+    Logger.info('DisplayWindowAPI', `Returning ${response.events.length} events until ${response.to}`, { display: displayId ?? null });
+    return NextResponse.json(response);
+  } catch (error) {
+    Logger.error('DisplayWindowAPI', 'Error building the event window', {}, error as Error);
+    return NextResponse.json({ error: 'Failed to retrieve events.' }, { status: 500 });
+  }
+}
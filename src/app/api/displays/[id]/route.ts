@@ -0,0 +1,19 @@
+// app/api/displays/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { displayRegistry } from '@/lib/display-registry';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/displays/:id - A display's config, fetched by /display/<id> when it boots
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const display = displayRegistry.get(id);
+  if (!display) {
+    return NextResponse.json({ success: false, error: `Display "${id}" not found` }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, display });
+}
@@ -0,0 +1,13 @@
+// app/api/emergency/route.ts
+import { NextResponse } from 'next/server';
+import { emergencyAlerts } from '@/lib/emergency-alert';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/emergency - The active emergency alert, or null. Displays poll this every few seconds.
+export async function GET() {
+  return NextResponse.json(
+    { alert: emergencyAlerts.getActive() },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
@@ -1,12 +1,12 @@
 // app/api/health/route.ts
 import { NextResponse } from 'next/server';
-import { LocalStorage } from '@/lib/local-storage';
+import { serverStorage } from '@/lib/server-storage';
 
 export async function GET() {
   const startTime = Date.now();
   
   try {
-    const storage = new LocalStorage();
+    const storage = serverStorage;
     
     console.log('🔍 Health check requested');
     
@@ -23,7 +23,7 @@ export async function GET() {
       },
       database: {
         connected: true,
-        provider: 'LocalStorage'
+        provider: storage.getStorageInfo().type
       }
     };
     
@@ -0,0 +1,34 @@
+// app/api/qr/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { QrCode } from '@/lib/qr-code';
+
+export const dynamic = 'force-dynamic';
+
+// Plenty for a URL while keeping the code scannable from across a room
+const MAX_DATA_LENGTH = 500;
+
+// GET /api/qr?data=<text> - QR code as SVG. Without `data` it links to MAKERSPACE_EVENTS_URL.
+export async function GET(request: NextRequest) {
+  const data = request.nextUrl.searchParams.get('data') || process.env.MAKERSPACE_EVENTS_URL;
+
+  if (!data) {
+    return NextResponse.json({ error: 'Nothing to encode: pass ?data= or set MAKERSPACE_EVENTS_URL' }, { status: 404 });
+  }
+  if (data.length > MAX_DATA_LENGTH) {
+    return NextResponse.json({ error: `data must be at most ${MAX_DATA_LENGTH} characters` }, { status: 400 });
+  }
+
+  try {
+    const svg = QrCode.encodeText(data, 'M').toSvg();
+    return new NextResponse(svg, {
+      headers: {
+        'Content-Type': 'image/svg+xml',
+        // The same text always gives the same code; the fallback follows the env var
+        'Cache-Control': request.nextUrl.searchParams.has('data') ? 'public, max-age=86400, immutable' : 'public, max-age=300'
+      }
+    });
+  } catch (error) {
+    console.error('❌ QR code error:', error);
+    return NextResponse.json({ error: 'Failed to generate QR code' }, { status: 500 });
+  }
+}
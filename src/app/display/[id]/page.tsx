@@ -0,0 +1,16 @@
+import { TVDisplay } from '@/components/TVDisplay';
+
+interface DisplayPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// A registered display, e.g. /display/woodshop; its config comes from /api/displays/<id>
+export default async function DisplayPage({ params }: DisplayPageProps) {
+  const { id } = await params;
+
+  return (
+    <main>
+      <TVDisplay displayId={id} />
+    </main>
+  );
+}
@@ -0,0 +1,9 @@
+import { WeekView } from '@/components/WeekView';
+
+export default function WeekPage() {
+  return (
+    <main>
+      <WeekView />
+    </main>
+  );
+}
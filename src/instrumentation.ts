@@ -0,0 +1,12 @@
+// instrumentation.ts - Runs once when the Next.js server starts
+
+export async function register() {
+  // The scheduler uses Node APIs (fs, crypto, timers); skip the edge runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { refreshScheduler } = await import('./lib/refresh-scheduler');
+  refreshScheduler.start();
+
+  const { checkAdminLoginConfig } = await import('./lib/admin-auth');
+  checkAdminLoginConfig();
+}
@@ -0,0 +1,151 @@
+// lib/admin-auth.ts - Admin credentials and the session/token checks shared by every admin/debug route
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminSession, ApiToken, ApiTokenScope } from '@/shared/types';
+import { hashPassword, isPasswordHash, verifyPassword } from './password-hash';
+import { adminSessions } from './admin-session';
+import { apiTokens } from './api-tokens';
+import { Logger } from './logger';
+
+export const ADMIN_SESSION_COOKIE = 'makerspace_admin_session';
+
+// Who is making an admin request: a signed-in browser or a script with an API token
+export type AdminPrincipal =
+  | { type: 'session'; session: AdminSession }
+  | { type: 'token'; token: ApiToken };
+
+let plaintextHash: Promise<string> | null = null;
+
+/**
+ * The admin password hash: ADMIN_PASSWORD_HASH (see `npm run hash-password`), or a plaintext
+ * ADMIN_PASSWORD hashed in memory for older setups. Null when neither is configured.
+ */
+export function getAdminCredential(env: Record<string, string | undefined> = process.env): Promise<string> | null {
+  const hash = env.ADMIN_PASSWORD_HASH;
+  if (hash) {
+    if (isPasswordHash(hash)) return Promise.resolve(hash);
+    Logger.error('AdminAuth', 'ADMIN_PASSWORD_HASH is not a valid scrypt hash; admin login is disabled');
+    return null;
+  }
+
+  if (!env.ADMIN_PASSWORD) return null;
+  if (!plaintextHash) {
+    Logger.warn('AdminAuth', 'ADMIN_PASSWORD is plaintext; set ADMIN_PASSWORD_HASH instead (npm run hash-password)');
+    plaintextHash = hashPassword(env.ADMIN_PASSWORD);
+  }
+  return plaintextHash;
+}
+
+export async function verifyAdminPassword(password: unknown): Promise<boolean> {
+  const credential = getAdminCredential();
+  if (!credential || typeof password !== 'string' || password.length === 0) return false;
+  return verifyPassword(password, await credential);
+}
+
+/**
+ * TRUSTED_PROXY_HOPS: how many reverse proxies in front of the app append to X-Forwarded-For.
+ * 0 says there is no proxy, so clients can't be told apart. Null when unset or invalid.
+ */
+export function getTrustedProxyHops(env: Record<string, string | undefined> = process.env): number | null {
+  const value = env.TRUSTED_PROXY_HOPS?.trim();
+  if (!value) return null;
+
+  const hops = Number(value);
+  return Number.isInteger(hops) && hops >= 0 ? hops : null;
+}
+
+/**
+ * Admin login stays disabled until TRUSTED_PROXY_HOPS is set: without it the login lockout could
+ * only be one shared key that any client can trip. Logged at startup by instrumentation.ts.
+ */
+export function isAdminLoginEnabled(env: Record<string, string | undefined> = process.env): boolean {
+  return getTrustedProxyHops(env) !== null;
+}
+
+export function checkAdminLoginConfig(env: Record<string, string | undefined> = process.env): void {
+  if (isAdminLoginEnabled(env)) return;
+  Logger.error('AdminAuth', 'TRUSTED_PROXY_HOPS is not set; admin login is disabled. Set it to the number of reverse proxies in front of the app, or 0 when there is none');
+}
+
+/**
+ * The client address for throttling, sessions and token use. Forwarding headers are set by the
+ * client unless a proxy we trust overwrites them, so they are only read when TRUSTED_PROXY_HOPS
+ * says how many proxies append to X-Forwarded-For; the client is then the rightmost hop they
+ * didn't add. With 0 (no proxy) every client shares the 'unknown' key.
+ */
+export function getClientIp(request: NextRequest, env: Record<string, string | undefined> = process.env): string {
+  const hops = getTrustedProxyHops(env);
+  if (!hops) return 'unknown';
+
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').map(hop => hop.trim()).filter(Boolean) ?? [];
+  if (forwarded.length > 0) {
+    // Fewer hops than proxies: the first one is still the closest we have to the client
+    return forwarded[Math.max(0, forwarded.length - hops)];
+  }
+  return request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+export function getAdminSession(request: NextRequest): AdminSession | null {
+  return adminSessions.get(request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+}
+
+export function setSessionCookie(response: NextResponse, token: string, session: AdminSession): void {
+  response.cookies.set(ADMIN_SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    expires: new Date(session.expiresAt)
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(ADMIN_SESSION_COOKIE, '', { httpOnly: true, sameSite: 'strict', path: '/', maxAge: 0 });
+}
+
+function loginRequired(request: NextRequest): NextResponse {
+  console.log(`❌ Admin session required for ${request.method} ${request.nextUrl.pathname}`);
+  return NextResponse.json({ success: false, error: 'Admin login required' }, { status: 401 });
+}
+
+/**
+ * Wraps a route handler so it only runs for a signed-in admin (see /api/auth/login);
+ * everyone else gets a 401. API tokens are not accepted, e.g. for managing the tokens themselves.
+ */
+export function withAdmin<Context = unknown>(
+  handler: (request: NextRequest, context: Context, session: AdminSession) => Promise<Response> | Response
+) {
+  return async (request: NextRequest, context: Context): Promise<Response> => {
+    const session = getAdminSession(request);
+    if (!session) return loginRequired(request);
+    return handler(request, context, session);
+  };
+}
+
+/**
+ * Like withAdmin, but scripts may also call the route with `Authorization: Bearer <token>`
+ * when their API token has `scope` (401 for unknown/expired tokens, 403 for a missing scope)
+ */
+export function withScope<Context = unknown>(
+  scope: ApiTokenScope,
+  handler: (request: NextRequest, context: Context, principal: AdminPrincipal) => Promise<Response> | Response
+) {
+  return async (request: NextRequest, context: Context): Promise<Response> => {
+    const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (bearer) {
+      const token = apiTokens.authenticate(bearer, getClientIp(request));
+      if (!token) {
+        console.log(`❌ Invalid or expired API token for ${request.method} ${request.nextUrl.pathname}`);
+        return NextResponse.json({ success: false, error: 'Invalid or expired API token' }, { status: 401 });
+      }
+      if (!token.scopes.includes(scope)) {
+        console.log(`❌ API token "${token.name}" lacks ${scope} for ${request.method} ${request.nextUrl.pathname}`);
+        return NextResponse.json({ success: false, error: `API token lacks the ${scope} scope` }, { status: 403 });
+      }
+      return handler(request, context, { type: 'token', token });
+    }
+
+    const session = getAdminSession(request);
+    if (!session) return loginRequired(request);
+    return handler(request, context, { type: 'session', session });
+  };
+}
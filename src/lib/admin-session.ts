@@ -0,0 +1,61 @@
+// lib/admin-session.ts - Server-side admin sessions behind the HttpOnly session cookie
+import { createHash, randomBytes } from 'crypto';
+import { AdminSession } from '@/shared/types';
+import { LocalStorage } from './local-storage';
+import { serverStorage } from './server-storage';
+import { Logger } from './logger';
+
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const MAX_SESSIONS = 50;
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Only a hash of each token is stored, so a leaked storage.json can't be replayed as a cookie.
+ * Sessions live in server storage and survive restarts until they expire or are logged out.
+ */
+export class AdminSessionStore {
+  constructor(private storage: LocalStorage) {}
+
+  create(ip: string, now: Date = new Date()): { token: string; session: AdminSession } {
+    const token = randomBytes(32).toString('base64url');
+    const session: AdminSession = {
+      id: hashToken(token),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+      ip
+    };
+
+    // Drop expired sessions, and the oldest ones past the cap
+    const sessions = this.active(now);
+    sessions.push(session);
+    this.storage.setAdminSessions(sessions.slice(-MAX_SESSIONS));
+    Logger.info('AdminSession', 'Admin signed in', { ip, expiresAt: session.expiresAt });
+    return { token, session };
+  }
+
+  get(token: string | undefined, now: Date = new Date()): AdminSession | null {
+    if (!token) return null;
+    const id = hashToken(token);
+    return this.active(now).find(session => session.id === id) ?? null;
+  }
+
+  revoke(token: string | undefined): boolean {
+    if (!token) return false;
+    const id = hashToken(token);
+    const sessions = this.storage.getAdminSessions();
+    const remaining = sessions.filter(session => session.id !== id);
+    if (remaining.length === sessions.length) return false;
+
+    this.storage.setAdminSessions(remaining);
+    Logger.info('AdminSession', 'Admin signed out');
+    return true;
+  }
+
+  private active(now: Date): AdminSession[] {
+    return this.storage.getAdminSessions().filter(session => new Date(session.expiresAt) > now);
+  }
+}
+
+// Export singleton instance
+export const adminSessions = new AdminSessionStore(serverStorage);
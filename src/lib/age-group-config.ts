@@ -0,0 +1,155 @@
+// lib/age-group-config.ts - Persisted, admin-editable age group rules
+import { AgeGroupRule } from '@/shared/types';
+import { LocalStorage } from './local-storage';
+import { serverStorage } from './server-storage';
+import { DEFAULT_AGE_GROUP_RULES } from './age-group-detector';
+import { Logger } from './logger';
+
+// Theme names the display already uses for non-age-group states
+const RESERVED_IDS = ['unknown', 'closed'];
+const ID_PATTERN = /^[a-z][a-z0-9-]{0,39}$/;
+const COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export type AgeGroupRuleInput = Omit<AgeGroupRule, 'priority'> & { priority?: number };
+
+export class AgeGroupConfig {
+  private rules: AgeGroupRule[] | null = null;
+
+  constructor(private storage: LocalStorage) {}
+
+  /**
+   * Current rules in evaluation order. The same array is returned until the rules change.
+   */
+  getRules(): AgeGroupRule[] {
+    if (!this.rules) {
+      this.rules = sortRules(this.storage.getAgeGroupRules() ?? DEFAULT_AGE_GROUP_RULES);
+    }
+    return this.rules;
+  }
+
+  getRule(id: string): AgeGroupRule | undefined {
+    return this.getRules().find(rule => rule.id === id);
+  }
+
+  isCustomized(): boolean {
+    return this.storage.getAgeGroupRules() !== null;
+  }
+
+  /**
+   * Returns a list of problems with a rule; empty when it can be saved.
+   * Pass `existingId` when validating an edit of that rule.
+   */
+  validate(input: Partial<AgeGroupRuleInput>, existingId?: string): string[] {
+    const errors: string[] = [];
+
+    if (typeof input.id !== 'string' || !ID_PATTERN.test(input.id)) {
+      errors.push('id must be lowercase letters, digits and dashes, starting with a letter');
+    } else if (RESERVED_IDS.includes(input.id)) {
+      errors.push(`id "${input.id}" is reserved`);
+    } else if (input.id !== existingId && this.getRule(input.id)) {
+      errors.push(`An age group with id "${input.id}" already exists`);
+    }
+
+    if (typeof input.label !== 'string' || !input.label.trim()) errors.push('label is required');
+    if (typeof input.emoji !== 'string' || !input.emoji.trim()) errors.push('emoji is required');
+    if (typeof input.color !== 'string' || !COLOR_PATTERN.test(input.color)) {
+      errors.push('color must be a hex color such as #1e40af');
+    }
+    if (input.priority !== undefined && (typeof input.priority !== 'number' || !Number.isFinite(input.priority))) {
+      errors.push('priority must be a number');
+    }
+
+    if (!Array.isArray(input.patterns) || input.patterns.length === 0) {
+      errors.push('patterns must be a non-empty array of regular expressions');
+    } else {
+      for (const pattern of input.patterns) {
+        if (typeof pattern !== 'string' || !pattern.trim()) {
+          errors.push('patterns must not be empty');
+          continue;
+        }
+        try {
+          new RegExp(pattern, 'i');
+        } catch {
+          errors.push(`Invalid pattern: ${pattern}`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Adds a rule (validate first). Without a priority it is tried after every existing rule.
+   */
+  create(input: AgeGroupRuleInput): AgeGroupRule {
+    const rules = this.getRules();
+    const rule: AgeGroupRule = {
+      ...pickRule(input),
+      priority: input.priority ?? Math.max(0, ...rules.map(r => r.priority)) + 1
+    };
+    this.save([...rules, rule]);
+    Logger.info('AgeGroupConfig', `Created age group "${rule.id}"`);
+    return rule;
+  }
+
+  /**
+   * Replaces the fields of an existing rule (validate first). Returns null if it doesn't exist.
+   */
+  update(id: string, input: Partial<AgeGroupRuleInput>): AgeGroupRule | null {
+    const existing = this.getRule(id);
+    if (!existing) return null;
+
+    const rule: AgeGroupRule = { ...existing, ...pickRule({ ...existing, ...input }), priority: input.priority ?? existing.priority };
+    this.save(this.getRules().map(r => (r.id === id ? rule : r)));
+    Logger.info('AgeGroupConfig', `Updated age group "${id}"${rule.id !== id ? ` (now "${rule.id}")` : ''}`);
+    return rule;
+  }
+
+  remove(id: string): boolean {
+    if (!this.getRule(id)) return false;
+    this.save(this.getRules().filter(rule => rule.id !== id));
+    Logger.info('AgeGroupConfig', `Deleted age group "${id}"`);
+    return true;
+  }
+
+  /**
+   * Sets evaluation order from a complete list of rule ids. Returns an error message if the
+   * list doesn't name every rule exactly once.
+   */
+  reorder(ids: string[]): string | null {
+    const rules = this.getRules();
+    const unique = new Set(ids);
+    if (unique.size !== ids.length || ids.length !== rules.length || ids.some(id => !this.getRule(id))) {
+      return `ids must list every age group exactly once: ${rules.map(r => r.id).join(', ')}`;
+    }
+
+    this.save(ids.map((id, index) => ({ ...this.getRule(id)!, priority: index + 1 })));
+    Logger.info('AgeGroupConfig', `Reordered age groups: ${ids.join(', ')}`);
+    return null;
+  }
+
+  /**
+   * Drops the saved rules and goes back to the built-in defaults
+   */
+  reset(): void {
+    this.storage.setAgeGroupRules(null);
+    this.rules = null;
+  }
+
+  private save(rules: AgeGroupRule[]): void {
+    this.rules = sortRules(rules);
+    this.storage.setAgeGroupRules(this.rules);
+  }
+}
+
+function sortRules(rules: AgeGroupRule[]): AgeGroupRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority);
+}
+
+// Only keep known fields from request bodies
+function pickRule({ id, label, emoji, color, patterns }: AgeGroupRuleInput): Omit<AgeGroupRule, 'priority'> {
+  return { id, label: label.trim(), emoji: emoji.trim(), color, patterns: [...patterns] };
+}
+
+// Export singleton instance
+export const ageGroupConfig = new AgeGroupConfig(serverStorage);
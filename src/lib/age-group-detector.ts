@@ -1,58 +1,188 @@
 // lib/age-group-detector.ts
-import { AgeGroup, ProcessedEvent } from '@/shared/types';
+import { AgeGroup, AgeGroupMethod, AgeGroupRule, ProcessedEvent } from '@/shared/types';
+
+// Built-in rules, used until an admin saves their own (see age-group-config.ts)
+export const DEFAULT_AGE_GROUP_RULES: AgeGroupRule[] = [
+  {
+    id: 'adults',
+    label: 'Adults (19+)',
+    emoji: '🧑',
+    color: '#1e40af', // Blue
+    patterns: [
+      'Adults?\\s*\\(19\\+?\\s*and\\s*up\\)',
+      'Adults?\\s*\\(19\\s*and\\s*up\\)',
+      'Adult.*(?:19|only)',
+      // Adults listed alongside another audience: "Teens & Adults", "Adults and Kids"
+      '(?:&|\\band|\\+|/)\\s*Adults?\\b',
+      '\\bAdults?\\s*(?:&|and\\b|\\+|/)'
+    ],
+    priority: 1
+  },
+  {
+    id: 'elementary',
+    label: 'Kids (6-11)',
+    emoji: '👶',
+    color: '#059669', // Green
+    patterns: [
+      'Elementary.*\\(6[-\\s]*11\\s*years?\\)',
+      'Ages?\\s*6[-\\s]*11',
+      'Kids?.*6[-\\s]*11',
+      'elementary.*kids',
+      'Summer.*camp.*elementary'
+    ],
+    priority: 2
+  },
+  {
+    id: 'allages',
+    label: 'All Ages',
+    emoji: '👪',
+    color: '#7c3aed', // Purple
+    patterns: ['All\\s*Ages?', 'Family.*Friendly', 'Intergenerational', 'Everyone.*Welcome'],
+    priority: 3
+  },
+  {
+    id: 'teens',
+    label: 'Teens (12-18)',
+    emoji: '🧒',
+    color: '#ea580c', // Orange
+    patterns: [
+      'Teens?.*\\(1[2-8][-\\s]*1[8-9]\\)',
+      'Teen.*robotics',
+      'Middle.*School',
+      'High.*School',
+      'Teens?.*\\(1[4-7][-\\s]*1[7-9]\\)',
+      '\\bTeens?\\b'
+    ],
+    priority: 4
+  }
+];
+
+export const UNKNOWN_AGE_GROUP: AgeGroup = {
+  group: 'unknown',
+  emoji: '🤖',
+  label: 'All Welcome',
+  color: '#6b7280' // Gray
+};
+
+// Which rule produced a detection, and how (also used by the admin "test this text" tool)
+export interface AgeGroupMatch {
+  ageGroup: AgeGroup; // Primary group, used for theming
+  ageGroups: AgeGroup[]; // Every matched group, primary first
+  method: AgeGroupMethod;
+  ruleId: string | null;
+  pattern: string | null;
+  matchedText: string | null;
+}
+
+// Audience information from outside the title/description (iCal X-AUDIENCE and CATEGORIES)
+export interface AudienceHints {
+  audience?: string;
+  categories?: string[];
+}
+
+// Explicit markers coordinators can add anywhere in a title or description:
+// "#age:teens" (rule id or label) and "[Audience: Kids 6-11]" (id, label or free text)
+const HASHTAG_PATTERN = /(^|\s)#age:([\w-]+)/gi;
+const AUDIENCE_PATTERN = /\[\s*Audience\s*:\s*([^\]]+?)\s*\]/gi;
+
+type RuleMatch = Omit<AgeGroupMatch, 'ageGroups' | 'method'>;
+
+interface CompiledRule {
+  rule: AgeGroupRule;
+  patterns: { source: string; regex: RegExp }[];
+}
+
+type RuleSource = AgeGroupRule[] | (() => AgeGroupRule[]);
+
+// Compiled regexes per rules array; config hands out a new array whenever rules change
+const compiledCache = new WeakMap<AgeGroupRule[], CompiledRule[]>();
 
 export class AgeGroupDetector {
-  private agePatterns = [
-    {
-      pattern: /Adults?\s*\(19\+?\s*and\s*up\)|Adults?\s*\(19\s*and\s*up\)|Adult.*(?:19|only)/i,
-      group: 'adults' as const,
-      emoji: '🧑',
-      label: 'Adults (19+)',
-      color: '#1e40af' // Blue
-    },
-    {
-      pattern: /Elementary.*\(6[-\s]*11\s*years?\)|Ages?\s*6[-\s]*11|Kids?.*6[-\s]*11|elementary.*kids|Summer.*camp.*elementary/i,
-      group: 'elementary' as const,
-      emoji: '👶',
-      label: 'Kids (6-11)',
-      color: '#059669' // Green
-    },
-    {
-      pattern: /All\s*Ages?|Family.*Friendly|Intergenerational|Everyone.*Welcome/i,
-      group: 'allages' as const,
-      emoji: '👪',
-      label: 'All Ages',
-      color: '#7c3aed' // Purple
-    },
-    {
-      pattern: /Teens?.*\(1[2-8][-\s]*1[8-9]\)|Teen.*robotics|Middle.*School|High.*School|Teens?.*\(1[4-7][-\s]*1[7-9]\)/i,
-      group: 'teens' as const,
-      emoji: '🧒',
-      label: 'Teens (12-18)',
-      color: '#ea580c' // Orange
-    }
-  ];
-  
-  detectAgeGroup(title: string, description: string): AgeGroup {
-    const combinedText = `${title} ${description}`;
-    
-    for (const { pattern, group, emoji, label, color } of this.agePatterns) {
-      if (pattern.test(combinedText)) {
-        return { group, emoji, label, color };
-      }
-    }
-    
+  private rules: RuleSource;
+
+  /**
+   * @param rules rule list, or a function returning the current rules so admin edits apply immediately
+   */
+  constructor(rules: RuleSource = DEFAULT_AGE_GROUP_RULES) {
+    this.rules = rules;
+  }
+
+  detectAgeGroup(title: string, description: string = '', hints: AudienceHints = {}): AgeGroup {
+    return this.detect(title, description, hints).ageGroup;
+  }
+
+  /**
+   * Like detectAgeGroup, but also reports every matching group, which rule decided the primary
+   * one and how. Explicit markers win: #age:/[Audience:] tags, then X-AUDIENCE, then CATEGORIES,
+   * then the rules' patterns. Within a step all matches count, so "Teens & Adults" yields both.
+   */
+  detect(title: string, description: string = '', hints: AudienceHints = {}): AgeGroupMatch {
+    title = title || '';
+    description = description || '';
+
+    const tags = [...AgeGroupDetector.extractAudienceTags(title), ...AgeGroupDetector.extractAudienceTags(description)];
+    const tagMatches = tags.flatMap(tag => this.resolveAudience(tag, true));
+    if (tagMatches.length > 0) return combine(tagMatches, 'tag');
+
+    // X-AUDIENCE may list several audiences separated by commas
+    const audiences = (hints.audience || '').split(',');
+    const propertyMatches = audiences.flatMap(audience => this.resolveAudience(audience, true));
+    if (propertyMatches.length > 0) return combine(propertyMatches, 'property');
+
+    // Categories are often topics ("Woodworking"), so only exact group names count
+    const categoryMatches = (hints.categories || []).flatMap(category => this.resolveAudience(category, false));
+    if (categoryMatches.length > 0) return combine(categoryMatches, 'category');
+
+    const combinedText = `${AgeGroupDetector.stripAudienceTags(title)} ${AgeGroupDetector.stripAudienceTags(description)}`;
+    const patternMatches = this.matchPatterns(combinedText);
+    if (patternMatches.length > 0) return combine(patternMatches, 'pattern');
+
     return {
-      group: 'unknown',
-      emoji: '🤖',
-      label: 'All Welcome',
-      color: '#6b7280' // Gray
+      ageGroup: { ...UNKNOWN_AGE_GROUP },
+      ageGroups: [{ ...UNKNOWN_AGE_GROUP }],
+      method: 'default',
+      ruleId: null,
+      pattern: null,
+      matchedText: null
     };
   }
-  
+
+  /**
+   * All of an event's groups, primary first. Events cached before multi-group support only
+   * carry ageGroup.
+   */
+  static groupsOf(event: ProcessedEvent): AgeGroup[] {
+    return event.ageGroups?.length ? event.ageGroups : [event.ageGroup];
+  }
+
+  /**
+   * Values of every #age: and [Audience: ...] marker in the text
+   */
+  static extractAudienceTags(text: string): string[] {
+    return [
+      ...Array.from(text.matchAll(HASHTAG_PATTERN), match => match[2]),
+      ...Array.from(text.matchAll(AUDIENCE_PATTERN), match => match[1])
+    ];
+  }
+
+  /**
+   * Removes audience markers so they don't show up on the display
+   */
+  static stripAudienceTags(text: string): string {
+    return text
+      .replace(HASHTAG_PATTERN, '$1')
+      .replace(AUDIENCE_PATTERN, '')
+      .replace(/[ \t]{2,}/g, ' ')
+      .replace(/[ \t]+$/gm, '')
+      .trim();
+  }
+
+  // Counts each event once under every one of its groups
   analyzeEvents(events: ProcessedEvent[]): Record<string, number> {
     const stats = events.reduce((acc, event) => {
-      acc[event.ageGroup.group] = (acc[event.ageGroup.group] || 0) + 1;
+      for (const { group } of AgeGroupDetector.groupsOf(event)) {
+        acc[group] = (acc[group] || 0) + 1;
+      }
       return acc;
     }, {} as Record<string, number>);
     
@@ -61,17 +191,78 @@ export class AgeGroupDetector {
   }
   
   getAgeGroupByName(groupName: string): AgeGroup | null {
-    const pattern = this.agePatterns.find(p => p.group === groupName);
-    if (pattern) {
-      const { group, emoji, label, color } = pattern;
-      return { group, emoji, label, color };
-    }
-    return null;
+    const compiled = this.getCompiledRules().find(({ rule }) => rule.id === groupName);
+    return compiled ? toAgeGroup(compiled.rule) : null;
   }
   
   getAllAgeGroups(): AgeGroup[] {
-    return this.agePatterns.map(({ group, emoji, label, color }) => ({
-      group, emoji, label, color
-    }));
+    return this.getCompiledRules().map(({ rule }) => toAgeGroup(rule));
+  }
+
+  // Matches an explicit audience value by rule id, label ("Teens (12-18)") or label without
+  // the age range ("Teens"), then optionally by the rules' patterns ("Kids 6-11")
+  private resolveAudience(value: string, allowPatterns: boolean): RuleMatch[] {
+    const wanted = value.trim().toLowerCase();
+    if (!wanted) return [];
+
+    for (const { rule } of this.getCompiledRules()) {
+      const label = rule.label.toLowerCase();
+      const shortLabel = label.replace(/\s*\(.*\)\s*$/, '');
+      if (rule.id === wanted || label === wanted || shortLabel === wanted) {
+        return [{ ageGroup: toAgeGroup(rule), ruleId: rule.id, pattern: null, matchedText: value.trim() }];
+      }
+    }
+
+    return allowPatterns ? this.matchPatterns(value) : [];
+  }
+
+  // First matching pattern of every rule, in priority order
+  private matchPatterns(text: string): RuleMatch[] {
+    const matches: RuleMatch[] = [];
+    for (const { rule, patterns } of this.getCompiledRules()) {
+      for (const { source, regex } of patterns) {
+        const match = text.match(regex);
+        if (match) {
+          matches.push({ ageGroup: toAgeGroup(rule), ruleId: rule.id, pattern: source, matchedText: match[0] });
+          break;
+        }
+      }
+    }
+    return matches;
   }
-}
\ No newline at end of file
+
+  private getCompiledRules(): CompiledRule[] {
+    const rules = typeof this.rules === 'function' ? this.rules() : this.rules;
+
+    let compiled = compiledCache.get(rules);
+    if (!compiled) {
+      compiled = [...rules]
+        .sort((a, b) => a.priority - b.priority)
+        .map(rule => ({
+          rule,
+          patterns: rule.patterns.flatMap(source => {
+            try {
+              return [{ source, regex: new RegExp(source, 'i') }];
+            } catch {
+              console.warn(`Skipping invalid age group pattern for "${rule.id}": ${source}`);
+              return [];
+            }
+          })
+        }));
+      compiledCache.set(rules, compiled);
+    }
+    return compiled;
+  }
+}
+
+function toAgeGroup({ id, emoji, label, color }: AgeGroupRule): AgeGroup {
+  return { group: id, emoji, label, color };
+}
+
+// The first match decides the primary group; the rest add distinct extra groups
+function combine(matches: RuleMatch[], method: AgeGroupMethod): AgeGroupMatch {
+  const ageGroups = matches
+    .map(match => match.ageGroup)
+    .filter((ageGroup, index, all) => all.findIndex(other => other.group === ageGroup.group) === index);
+  return { ...matches[0], ageGroups, method };
+}
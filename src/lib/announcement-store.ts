@@ -0,0 +1,165 @@
+// lib/announcement-store.ts - Admin-managed announcements with visibility windows and target displays
+import { randomUUID } from 'crypto';
+import { Announcement, AnnouncementPriority } from '@/shared/types';
+import { LocalStorage } from './local-storage';
+import { serverStorage } from './server-storage';
+import { DISPLAY_ID_PATTERN } from './display-registry';
+import { Logger } from './logger';
+
+export const ANNOUNCEMENT_PRIORITIES: AnnouncementPriority[] = ['low', 'normal', 'high'];
+
+export type AnnouncementInput = Omit<Announcement, 'id' | 'createdAt' | 'updatedAt' | 'priority' | 'body'> & {
+  body?: string;
+  priority?: AnnouncementPriority;
+};
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_BODY_LENGTH = 1000;
+
+export class AnnouncementStore {
+  constructor(private storage: LocalStorage) {}
+
+  /**
+   * Every announcement, including scheduled and expired ones, in display order
+   */
+  list(): Announcement[] {
+    return sortAnnouncements(this.storage.getAnnouncements());
+  }
+
+  get(id: string): Announcement | undefined {
+    return this.storage.getAnnouncements().find(announcement => announcement.id === id);
+  }
+
+  /**
+   * Announcements to show at `now` on a display, highest priority first. Without a `displayId`
+   * (the unnamed `/` display) only announcements for every display are shown
+   */
+  getVisible(now: Date = new Date(), displayId?: string): Announcement[] {
+    return this.list().filter(announcement => isVisible(announcement, now, displayId));
+  }
+
+  /**
+   * Returns a list of problems with an announcement; empty when it can be saved
+   */
+  validate(input: Partial<AnnouncementInput>): string[] {
+    const errors: string[] = [];
+
+    if (typeof input.title !== 'string' || !input.title.trim()) {
+      errors.push('title is required');
+    } else if (input.title.length > MAX_TITLE_LENGTH) {
+      errors.push(`title must be at most ${MAX_TITLE_LENGTH} characters`);
+    }
+    if (input.body !== undefined && typeof input.body !== 'string') errors.push('body must be text');
+    if (typeof input.body === 'string' && input.body.length > MAX_BODY_LENGTH) {
+      errors.push(`body must be at most ${MAX_BODY_LENGTH} characters`);
+    }
+    if (input.imageUrl !== undefined && input.imageUrl !== '' && !isImageUrl(input.imageUrl)) {
+      errors.push('imageUrl must be an http(s) URL or a path starting with /');
+    }
+    if (input.priority !== undefined && !ANNOUNCEMENT_PRIORITIES.includes(input.priority)) {
+      errors.push(`priority must be one of: ${ANNOUNCEMENT_PRIORITIES.join(', ')}`);
+    }
+
+    const startsAt = parseTime(input.startsAt);
+    const endsAt = parseTime(input.endsAt);
+    if (startsAt === null) errors.push('startsAt must be an ISO date-time');
+    if (endsAt === null) errors.push('endsAt must be an ISO date-time');
+    if (startsAt && endsAt && endsAt <= startsAt) errors.push('endsAt must be after startsAt');
+
+    if (input.displays !== undefined) {
+      if (!Array.isArray(input.displays) || input.displays.some(id => typeof id !== 'string' || !DISPLAY_ID_PATTERN.test(id))) {
+        errors.push('displays must be a list of display ids');
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Adds an announcement (validate first)
+   */
+  create(input: AnnouncementInput): Announcement {
+    const now = new Date().toISOString();
+    const announcement: Announcement = { ...pickAnnouncement(input), id: randomUUID(), createdAt: now, updatedAt: now };
+    this.storage.setAnnouncements([...this.storage.getAnnouncements(), announcement]);
+    Logger.info('AnnouncementStore', `Created announcement "${announcement.title}"`, { id: announcement.id });
+    return announcement;
+  }
+
+  /**
+   * Replaces the fields sent (validate the merged result first). Returns null if it doesn't exist.
+   */
+  update(id: string, input: Partial<AnnouncementInput>): Announcement | null {
+    const existing = this.get(id);
+    if (!existing) return null;
+
+    const announcement: Announcement = {
+      ...pickAnnouncement({ ...existing, ...input }),
+      id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString()
+    };
+    this.storage.setAnnouncements(this.storage.getAnnouncements().map(a => (a.id === id ? announcement : a)));
+    Logger.info('AnnouncementStore', `Updated announcement "${announcement.title}"`, { id });
+    return announcement;
+  }
+
+  remove(id: string): boolean {
+    const announcements = this.storage.getAnnouncements();
+    if (!announcements.some(a => a.id === id)) return false;
+
+    this.storage.setAnnouncements(announcements.filter(a => a.id !== id));
+    Logger.info('AnnouncementStore', 'Deleted announcement', { id });
+    return true;
+  }
+}
+
+function isVisible(announcement: Announcement, now: Date, displayId?: string): boolean {
+  if (announcement.startsAt && new Date(announcement.startsAt) > now) return false;
+  if (announcement.endsAt && new Date(announcement.endsAt) <= now) return false;
+  if (announcement.displays?.length && !(displayId && announcement.displays.includes(displayId))) return false;
+  return true;
+}
+
+// Highest priority first, then the most recently started
+function sortAnnouncements(announcements: Announcement[]): Announcement[] {
+  const rank = (a: Announcement) => ANNOUNCEMENT_PRIORITIES.indexOf(a.priority);
+  const start = (a: Announcement) => new Date(a.startsAt ?? a.createdAt).getTime();
+  return [...announcements].sort((a, b) => rank(b) - rank(a) || start(b) - start(a));
+}
+
+// undefined/empty: not set; null: invalid
+function parseTime(value: unknown): Date | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function isImageUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  if (value.startsWith('/') && !value.startsWith('//')) return true;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+// Drops unknown fields and normalizes optional ones
+function pickAnnouncement(input: AnnouncementInput): Omit<Announcement, 'id' | 'createdAt' | 'updatedAt'> {
+  const announcement: Omit<Announcement, 'id' | 'createdAt' | 'updatedAt'> = {
+    title: input.title.trim(),
+    body: (input.body ?? '').trim(),
+    priority: input.priority ?? 'normal'
+  };
+  if (input.imageUrl) announcement.imageUrl = input.imageUrl;
+  if (input.startsAt) announcement.startsAt = new Date(input.startsAt).toISOString();
+  if (input.endsAt) announcement.endsAt = new Date(input.endsAt).toISOString();
+  if (input.displays?.length) announcement.displays = [...input.displays];
+  return announcement;
+}
+
+// Export singleton instance
+export const announcementStore = new AnnouncementStore(serverStorage);
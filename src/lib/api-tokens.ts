@@ -0,0 +1,149 @@
+// lib/api-tokens.ts - Named, scoped bearer tokens so scripts don't need the admin password
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { ApiToken, ApiTokenScope, StoredApiToken } from '@/shared/types';
+import { LocalStorage } from './local-storage';
+import { serverStorage } from './server-storage';
+import { Logger } from './logger';
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = [
+  'read:status',
+  'write:overrides',
+  'write:announcements',
+  'write:emergency',
+  'write:displays',
+  'write:age-groups',
+  'admin:cache'
+];
+
+export interface ApiTokenInput {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresAt?: string; // ISO date-time
+  expiresInDays?: number; // Alternative to expiresAt
+}
+
+const SECRET_PREFIX = 'msd_';
+const MAX_NAME_LENGTH = 60;
+const MAX_EXPIRY_DAYS = 3650;
+// A kiosk pinging every few seconds shouldn't rewrite storage every time
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const hashSecret = (secret: string) => createHash('sha256').update(secret).digest('hex');
+
+// What's safe to return from the API: everything but the hash
+const toApiToken = (stored: StoredApiToken): ApiToken => {
+  const token: Partial<StoredApiToken> = { ...stored };
+  delete token.secretHash;
+  return token as ApiToken;
+};
+
+/**
+ * Tokens are stored as SHA-256 hashes of their 256-bit secrets, so a lookup is a hash match.
+ * Each token is independent: revoking or expiring one leaves the others working.
+ */
+export class ApiTokenStore {
+  constructor(private storage: LocalStorage) {}
+
+  list(): ApiToken[] {
+    return this.storage.getApiTokens().map(toApiToken);
+  }
+
+  /**
+   * Returns a list of problems with a new token; empty when it can be created
+   */
+  validate(input: Partial<ApiTokenInput>, now: Date = new Date()): string[] {
+    const errors: string[] = [];
+
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      errors.push('name is required');
+    } else if (input.name.length > MAX_NAME_LENGTH) {
+      errors.push(`name must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+      errors.push('scopes must list at least one scope');
+    } else if (input.scopes.some(scope => !API_TOKEN_SCOPES.includes(scope))) {
+      errors.push(`scopes must be among: ${API_TOKEN_SCOPES.join(', ')}`);
+    }
+
+    if (input.expiresAt !== undefined && input.expiresInDays !== undefined) {
+      errors.push('Send either expiresAt or expiresInDays, not both');
+    } else if (input.expiresAt !== undefined) {
+      const expiresAt = typeof input.expiresAt === 'string' ? new Date(input.expiresAt) : new Date(NaN);
+      if (isNaN(expiresAt.getTime())) errors.push('expiresAt must be an ISO date-time');
+      else if (expiresAt <= now) errors.push('expiresAt must be in the future');
+    } else if (input.expiresInDays !== undefined) {
+      const days = input.expiresInDays;
+      if (typeof days !== 'number' || !Number.isFinite(days) || days <= 0 || days > MAX_EXPIRY_DAYS) {
+        errors.push(`expiresInDays must be between 1 and ${MAX_EXPIRY_DAYS}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Creates a token (validate first). The secret is only ever returned here.
+   */
+  create(input: ApiTokenInput, now: Date = new Date()): { token: ApiToken; secret: string } {
+    const secret = `${SECRET_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const expiresAt = input.expiresAt
+      ? new Date(input.expiresAt)
+      : input.expiresInDays
+        ? new Date(now.getTime() + input.expiresInDays * 24 * 60 * 60 * 1000)
+        : undefined;
+
+    const stored: StoredApiToken = {
+      id: randomUUID(),
+      name: input.name.trim(),
+      scopes: API_TOKEN_SCOPES.filter(scope => input.scopes.includes(scope)),
+      prefix: secret.slice(0, SECRET_PREFIX.length + 6),
+      createdAt: now.toISOString(),
+      secretHash: hashSecret(secret)
+    };
+    if (expiresAt) stored.expiresAt = expiresAt.toISOString();
+
+    this.storage.setApiTokens([...this.storage.getApiTokens(), stored]);
+    Logger.info('ApiTokens', `Token created: ${stored.name}`, {
+      id: stored.id,
+      scopes: stored.scopes.join(' '),
+      expiresAt: stored.expiresAt ?? null
+    });
+    return { token: toApiToken(stored), secret };
+  }
+
+  revoke(id: string): boolean {
+    const tokens = this.storage.getApiTokens();
+    const revoked = tokens.find(token => token.id === id);
+    if (!revoked) return false;
+
+    this.storage.setApiTokens(tokens.filter(token => token.id !== id));
+    Logger.info('ApiTokens', `Token revoked: ${revoked.name}`, { id });
+    return true;
+  }
+
+  /**
+   * The unexpired token with this secret, or null. Records when and from where it was used.
+   */
+  authenticate(secret: string, ip: string, now: Date = new Date()): ApiToken | null {
+    const tokens = this.storage.getApiTokens();
+    const secretHash = hashSecret(secret);
+    const token = tokens.find(candidate => candidate.secretHash === secretHash);
+    if (!token) return null;
+
+    if (token.expiresAt && new Date(token.expiresAt) <= now) {
+      Logger.warn('ApiTokens', `Expired token used: ${token.name}`, { id: token.id, ip });
+      return null;
+    }
+
+    const lastUsed = token.lastUsedAt ? new Date(token.lastUsedAt).getTime() : 0;
+    if (now.getTime() - lastUsed >= LAST_USED_RESOLUTION_MS || token.lastUsedIp !== ip) {
+      token.lastUsedAt = now.toISOString();
+      token.lastUsedIp = ip;
+      this.storage.setApiTokens(tokens);
+    }
+    return toApiToken(token);
+  }
+}
+
+// Export singleton instance
+export const apiTokens = new ApiTokenStore(serverStorage);
@@ -0,0 +1,98 @@
+// lib/calendar-aggregator.ts - Fetches several named calendars in parallel and merges them
+import { CalendarFetchResult, ProcessedEvent, SourceFetchStatus } from '@/shared/types';
+import { Logger } from './logger';
+import { CalendarFetcher } from './calendar-fetcher';
+import { TimeZoneUtils } from './timezone';
+import { NamedCalendarSource, createNamedSourcesFromEnv } from './calendar-sources';
+
+export class CalendarAggregator {
+  private fetchers: CalendarFetcher[];
+
+  constructor(sources: NamedCalendarSource[]) {
+    this.fetchers = sources.map(({ source, info }) => new CalendarFetcher(source, info));
+    Logger.info('CalendarAggregator', `Configured ${sources.length} calendar source(s)`, {
+      sources: sources.map(({ info }) => info.id)
+    });
+  }
+
+  getSourceCount(): number {
+    return this.fetchers.length;
+  }
+
+  /**
+   * Fetches every source, merging events sorted by start time. Events that appear in several
+   * calendars (same UID/instance id) are kept once, from the first configured source.
+   * The result is successful as long as at least one source loaded.
+   */
+  async fetchAll(): Promise<CalendarFetchResult> {
+    const lastFetch = new Date().toISOString();
+
+    if (this.fetchers.length === 0) {
+      return {
+        success: false,
+        events: [],
+        errors: ['No calendar source is configured.'],
+        lastFetch,
+        sources: []
+      };
+    }
+
+    const outcomes = await Promise.all(this.fetchers.map(fetcher => this.fetchOne(fetcher)));
+
+    const seen = new Set<string>();
+    const events: ProcessedEvent[] = [];
+    for (const { events: sourceEvents } of outcomes) {
+      for (const event of sourceEvents) {
+        if (seen.has(event.id)) continue;
+        seen.add(event.id);
+        events.push(event);
+      }
+    }
+    events.sort((a, b) => TimeZoneUtils.parseEventDate(a.start).getTime() - TimeZoneUtils.parseEventDate(b.start).getTime());
+
+    const sources = outcomes.map(({ status }) => status);
+    const errors = sources
+      .filter(status => !status.success)
+      .map(status => `${status.source.name}: ${status.error}`);
+
+    Logger.info('CalendarAggregator', `Merged ${events.length} events from ${sources.length} source(s)`, {
+      failed: errors.length
+    });
+
+    return {
+      success: sources.some(status => status.success),
+      events,
+      errors,
+      lastFetch,
+      sources
+    };
+  }
+
+  private async fetchOne(fetcher: CalendarFetcher): Promise<{ events: ProcessedEvent[]; status: SourceFetchStatus }> {
+    const info = fetcher.getSourceInfo() ?? { id: fetcher.getSource()?.id ?? 'unknown', name: 'Calendar' };
+    const startedAt = Date.now();
+
+    try {
+      const events = await fetcher.fetchAllEvents();
+      return {
+        events,
+        status: { source: info, success: true, eventCount: events.length, durationMs: Date.now() - startedAt }
+      };
+    } catch (error) {
+      Logger.warn('CalendarAggregator', `Source ${info.id} failed`, { error: (error as Error).message });
+      return {
+        events: [],
+        status: {
+          source: info,
+          success: false,
+          eventCount: 0,
+          error: error instanceof Error ? error.message : String(error),
+          durationMs: Date.now() - startedAt
+        }
+      };
+    }
+  }
+}
+
+// Export a singleton instance built from CALENDAR_SOURCES (or the single-calendar variables)
+export const calendarAggregator = new CalendarAggregator(createNamedSourcesFromEnv());
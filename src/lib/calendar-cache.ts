@@ -1,6 +1,8 @@
 // lib/calendar-cache.ts - Server-side cache for calendar data
 import { ProcessedEvent } from '@/shared/types';
 import { Logger } from './logger';
+import { statusNotifier } from './status-notifier';
+import { processSingleton } from './process-singleton';
 
 interface CacheEntry {
   events: ProcessedEvent[];
@@ -8,26 +10,41 @@ interface CacheEntry {
   expiresAt: number;
 }
 
+/**
+ * What we learned about an upstream payload last time, used to send conditional requests
+ * and to notice that a re-downloaded feed is byte-for-byte unchanged
+ */
+export interface UpstreamValidators {
+  etag?: string;
+  lastModified?: string;
+  contentHash?: string;
+}
+
 /**
  * Server-side in-memory cache for calendar data
- * Reduces Google Calendar API calls from every 30 seconds to every 30 minutes
+ * Reduces Google Calendar API calls from every 30 seconds to every 30 minutes.
+ * Expired entries are kept and served stale while a single background refresh runs.
  */
 class CalendarCache {
   private cache: CacheEntry | null = null;
+  private validators = new Map<string, UpstreamValidators>();
+  private refreshing: Promise<ProcessedEvent[]> | null = null;
+  private lastRefreshError: string | null = null;
   private readonly CACHE_TTL = 30 * 60 * 1000; // 30 minutes in milliseconds
 
   /**
-   * Store events in cache with 30-minute expiration
+   * Store events in cache with 30-minute expiration.
+   * Pass `fetchedAt` when restoring older data (e.g. a disk snapshot) so it expires accordingly.
    */
-  set(events: ProcessedEvent[]): void {
-    const now = Date.now();
+  set(events: ProcessedEvent[], fetchedAt: number = Date.now()): void {
     this.cache = {
       events,
-      timestamp: now,
-      expiresAt: now + this.CACHE_TTL
+      timestamp: fetchedAt,
+      expiresAt: fetchedAt + this.CACHE_TTL
     };
     
     Logger.info('CalendarCache', `Cached ${events.length} events, expires at ${new Date(this.cache.expiresAt).toISOString()}`);
+    statusNotifier.notify('calendar data updated');
   }
 
   /**
@@ -43,7 +60,6 @@ class CalendarCache {
     const now = Date.now();
     if (now >= this.cache.expiresAt) {
       Logger.info('CalendarCache', 'Cache expired, will fetch fresh data');
-      this.cache = null;
       return null;
     }
 
@@ -53,6 +69,92 @@ class CalendarCache {
     return this.cache.events;
   }
 
+  /**
+   * Retrieve cached events even if they have expired
+   * Returns null only if nothing has been cached yet
+   */
+  getStale(): ProcessedEvent[] | null {
+    return this.cache ? this.cache.events : null;
+  }
+
+  /**
+   * Stale-while-revalidate read:
+   * - fresh cache: returned as-is
+   * - expired cache: returned immediately, one background refresh is started
+   * - empty cache: waits for the (shared) refresh
+   */
+  async getOrRefresh(loader: () => Promise<ProcessedEvent[]>): Promise<ProcessedEvent[]> {
+    const fresh = this.get();
+    if (fresh) return fresh;
+
+    const stale = this.getStale();
+    if (stale) {
+      this.refresh(loader).catch(() => {
+        // Already logged in refresh(); keep serving stale events
+      });
+      return stale;
+    }
+
+    return this.refresh(loader);
+  }
+
+  /**
+   * Runs the loader and caches its result. Concurrent callers share one in-flight refresh.
+   */
+  refresh(loader: () => Promise<ProcessedEvent[]>): Promise<ProcessedEvent[]> {
+    if (this.refreshing) {
+      Logger.debug('CalendarCache', 'Refresh already in progress, joining it');
+      return this.refreshing;
+    }
+
+    Logger.info('CalendarCache', 'Refreshing calendar data');
+    this.refreshing = loader()
+      .then(events => {
+        this.set(events);
+        this.lastRefreshError = null;
+        return events;
+      })
+      .catch(error => {
+        this.lastRefreshError = error instanceof Error ? error.message : String(error);
+        Logger.error('CalendarCache', 'Calendar refresh failed', {}, error as Error);
+        throw error;
+      })
+      .finally(() => {
+        this.refreshing = null;
+      });
+
+    return this.refreshing;
+  }
+
+  isRefreshing(): boolean {
+    return this.refreshing !== null;
+  }
+
+  /**
+   * Error from the most recent refresh, or null if it succeeded (or none has run)
+   */
+  getLastRefreshError(): string | null {
+    return this.lastRefreshError;
+  }
+
+  /**
+   * When the cached events were fetched, in ms since epoch
+   */
+  getCachedAt(): number | null {
+    return this.cache ? this.cache.timestamp : null;
+  }
+
+  /**
+   * Validators from the last successful download of a source
+   */
+  getValidators(sourceId: string): UpstreamValidators | undefined {
+    return this.validators.get(sourceId);
+  }
+
+  setValidators(sourceId: string, validators: UpstreamValidators): void {
+    this.validators.set(sourceId, validators);
+  }
+
   /**
    * Check if cache is valid without retrieving data
    */
@@ -70,14 +172,26 @@ class CalendarCache {
     cachedAt: string | null;
     expiresAt: string | null;
     timeRemaining: string | null;
+    isStale: boolean;
+    isRefreshing: boolean;
+    lastRefreshError: string | null;
+    upstream: Record<string, UpstreamValidators>;
   } {
+    const refreshState = {
+      isRefreshing: this.isRefreshing(),
+      lastRefreshError: this.lastRefreshError,
+      upstream: Object.fromEntries(this.validators)
+    };
+
     if (!this.cache) {
       return {
         isCached: false,
         eventCount: 0,
         cachedAt: null,
         expiresAt: null,
-        timeRemaining: null
+        timeRemaining: null,
+        isStale: false,
+        ...refreshState
       };
     }
 
@@ -90,18 +204,23 @@ class CalendarCache {
       eventCount: this.cache.events.length,
       cachedAt: new Date(this.cache.timestamp).toISOString(),
       expiresAt: new Date(this.cache.expiresAt).toISOString(),
-      timeRemaining: isExpired ? 'expired' : `${minutesRemaining} minutes`
+      timeRemaining: isExpired ? 'expired' : `${minutesRemaining} minutes`,
+      isStale: isExpired,
+      ...refreshState
     };
   }
 
   /**
-   * Manually clear the cache (useful for testing or admin operations)
+   * Manually clear the cache (useful for testing or admin operations).
+   * Validators are dropped too so the next fetch is a full download.
    */
   clear(): void {
     Logger.info('CalendarCache', 'Cache manually cleared');
     this.cache = null;
+    this.validators.clear();
+    this.lastRefreshError = null;
   }
 }
 
-// Export singleton instance
-export const calendarCache = new CalendarCache();
+// Export singleton instance (shared by the instrumentation and route handler bundles)
+export const calendarCache = processSingleton('calendarCache', () => new CalendarCache());
@@ -1,30 +1,53 @@
 // lib/calendar-fetcher.ts
-import { ProcessedEvent } from '@/shared/types';
+import { CalendarSourceInfo, ProcessedEvent } from '@/shared/types';
 import { Logger } from './logger';
 import { AgeGroupDetector } from './age-group-detector';
+import { RecurrenceExpander } from './recurrence-expander';
+import { TimeZoneUtils, VTimeZone, ZoneResolver } from './timezone';
+import { CalendarSource, GoogleCalendarSource, JsonFeedEvent, createCalendarSourceFromEnv } from './calendar-sources';
+import { calendarCache } from './calendar-cache';
+import { ageGroupConfig } from './age-group-config';
 
 // Define a type for the raw iCal event data
 type RawCalEvent = Record<string, string>;
 
-// Main class for fetching and processing Google Calendar data
-export class GoogleCalendarFetcher {
-  private calendarId: string;
+// Parsed feed plus the zones its events refer to (keyed by the `tzid` stored on each raw event)
+interface ParsedCalendar {
+  events: RawCalEvent[];
+  zones: Map<string, ZoneResolver>;
+}
+
+// Main class for fetching and processing calendar data from any CalendarSource
+export class CalendarFetcher {
+  protected source: CalendarSource | null;
+  private sourceInfo?: CalendarSourceInfo;
   private ageDetector: AgeGroupDetector;
+  // Last parsed payload, reused when the upstream reports (or hashes as) unchanged
+  private lastParsed: { contentHash?: string; calendar: ParsedCalendar } | null = null;
 
-  constructor(calendarId: string) {
-    this.calendarId = calendarId;
-    this.ageDetector = new AgeGroupDetector();
+  constructor(source: CalendarSource | null, sourceInfo?: CalendarSourceInfo) {
+    this.source = source;
+    this.sourceInfo = sourceInfo;
+    this.ageDetector = new AgeGroupDetector(() => ageGroupConfig.getRules());
     
-    // **Debug Log:** Check if the calendar ID is being loaded.
-    if (!calendarId) {
-      console.error("🚨 FATAL: CALENDAR_ID environment variable not set. Live data will not work.");
-      Logger.error('GoogleCalendarFetcher', 'Initialization failed: CALENDAR_ID not provided.');
+    // **Debug Log:** Check if a calendar source is configured.
+    if (!source) {
+      console.error("🚨 FATAL: No calendar source configured (CALENDAR_ID, CALENDAR_ICAL_URL, CALENDAR_ICS_FILE or CALENDAR_JSON_FEED). Live data will not work.");
+      Logger.error('CalendarFetcher', 'Initialization failed: no calendar source provided.');
     } else {
-      console.log(`✅ GoogleCalendarFetcher initialized with Calendar ID: ${this.calendarId}`);
-      Logger.info('GoogleCalendarFetcher', `Initialized with Calendar ID: ${this.calendarId}`);
+      console.log(`✅ CalendarFetcher initialized with ${source.type} source: ${source.id}`);
+      Logger.info('CalendarFetcher', `Initialized with ${source.type} source: ${source.id}`);
     }
   }
 
+  getSource(): CalendarSource | null {
+    return this.source;
+  }
+
+  getSourceInfo(): CalendarSourceInfo | undefined {
+    return this.sourceInfo;
+  }
+
   // Fetch all events within a 3-month range
   async fetchAllEvents(): Promise<ProcessedEvent[]> {
     const now = new Date();
@@ -32,60 +55,238 @@ export class GoogleCalendarFetcher {
     startDate.setDate(now.getDate() - 1); // Yesterday
     const endDate = new Date(now.getFullYear(), now.getMonth() + 2, 1);   // Next month
     
-    Logger.info('GoogleCalendarFetcher', `Fetching events from ${startDate.toISOString()} to ${endDate.toISOString()}`);
+    Logger.info('CalendarFetcher', `Fetching events from ${startDate.toISOString()} to ${endDate.toISOString()}`);
     return this.fetchEvents(startDate, endDate);
   }
 
   // Fetch events for a specific date range
   async fetchEvents(startDate: Date, endDate: Date): Promise<ProcessedEvent[]> {
-    if (!this.calendarId) {
-      return Promise.reject(new Error('Google Calendar ID is not configured.'));
+    if (!this.source) {
+      return Promise.reject(new Error('No calendar source is configured.'));
     }
     try {
-      const icalUrl = `https://calendar.google.com/calendar/ical/${this.calendarId}/public/basic.ics`;
-      console.log(`Attempting to fetch live data from: ${icalUrl}`);
-      Logger.info('GoogleCalendarFetcher', `Fetching calendar data from URL: ${icalUrl}`);
-      
-      const response = await fetch(icalUrl, { next: { revalidate: 600 } }); // Revalidate every 10 minutes
-      
-      if (!response.ok) {
-        // **Debug Log:** Log the failed fetch attempt
-        const errorText = await response.text();
-        console.error(`🚨 Calendar fetch failed! Status: ${response.status}. Response: ${errorText}`);
-        throw new Error(`Calendar fetch failed with status: ${response.status}`);
+      // Only ask for a conditional response when there is a parsed payload to fall back on
+      const previous = this.lastParsed ? calendarCache.getValidators(this.source.id) : undefined;
+      const payload = await this.source.load(previous);
+      if (payload.validators) calendarCache.setValidators(this.source.id, payload.validators);
+
+      const unchanged =
+        this.lastParsed !== null &&
+        (payload.format === 'not-modified' ||
+          (payload.validators?.contentHash !== undefined && payload.validators.contentHash === this.lastParsed.contentHash));
+
+      if (unchanged && this.lastParsed) {
+        Logger.info('CalendarFetcher', `Calendar data from ${this.source.id} unchanged, skipping parse`);
+      } else if (payload.format === 'not-modified') {
+        throw new Error('Upstream returned 304 Not Modified but no previous payload is available');
+      } else {
+        this.lastParsed = {
+          contentHash: payload.validators?.contentHash,
+          calendar: payload.format === 'ical' ? this.parseICalData(payload.data) : this.parseJsonFeed(payload.events)
+        };
       }
-      
-      const icalData = await response.text();
-      console.log(`✅ Successfully fetched ${icalData.length} bytes of iCal data.`);
-      Logger.info('GoogleCalendarFetcher', `Successfully fetched ${icalData.length} bytes of iCal data`);
-      
-      return this.parseICalData(icalData, startDate, endDate);
+
+      const { events, zones } = this.lastParsed.calendar;
+      return this.processRawEvents(events, zones, startDate, endDate);
     } catch (error) {
       // **Debug Log:** Log any error during the process
       console.error('🚨 Error during calendar fetch or parse:', error);
-      Logger.error('GoogleCalendarFetcher', 'Error fetching or parsing calendar data', {}, error as Error);
+      Logger.error('CalendarFetcher', `Error fetching or parsing calendar data from ${this.source.id}`, {}, error as Error);
       throw error;
     }
   }
 
-  private parseICalData(icalData: string, startDate: Date, endDate: Date): ProcessedEvent[] {
-    const rawEvents = this.parseICalContent(icalData);
-    Logger.info('GoogleCalendarFetcher', `Parsed ${rawEvents.length} raw events from iCal data`);
+  private parseICalData(icalData: string): ParsedCalendar {
+    const parsed = this.parseICalContent(icalData);
+    Logger.info('CalendarFetcher', `Parsed ${parsed.events.length} raw events from iCal data`);
+    return parsed;
+  }
+
+  // Maps JSON feed events onto the same raw shape the iCal parser produces
+  private parseJsonFeed(feedEvents: JsonFeedEvent[]): ParsedCalendar {
+    const zones = new Map<string, ZoneResolver>([[TimeZoneUtils.UTC.id, TimeZoneUtils.UTC]]);
+    const normalizeTime = (value: string | undefined) => {
+      if (!value) return '';
+      return TimeZoneUtils.isDateOnly(value) ? value : this.formatISODateTime(new Date(value));
+    };
+
+    const rawEvents: RawCalEvent[] = feedEvents.map(feedEvent => {
+      const zone = TimeZoneUtils.resolveZone(feedEvent.timeZone) ?? TimeZoneUtils.UTC;
+      zones.set(zone.id, zone);
+
+      const raw: RawCalEvent = {
+        summary: feedEvent.title || '',
+        description: feedEvent.description || '',
+        location: feedEvent.location || '',
+        dtstart: normalizeTime(feedEvent.start),
+        tzid: zone.id,
+        status: (feedEvent.status || 'confirmed').toLowerCase()
+      };
+      if (feedEvent.id) raw.uid = feedEvent.id;
+      if (feedEvent.end) raw.dtend = normalizeTime(feedEvent.end);
+      if (feedEvent.rrule) raw.rrule = feedEvent.rrule;
+      if (feedEvent.exdates?.length) raw.exdate = feedEvent.exdates.map(normalizeTime).join(',');
+      if (feedEvent.audience) raw.audience = feedEvent.audience;
+      if (feedEvent.categories?.length) raw.categories = feedEvent.categories.join('\n');
+      return raw;
+    });
+
+    Logger.info('CalendarFetcher', `Parsed ${rawEvents.length} raw events from JSON feed`);
+    return { events: rawEvents, zones };
+  }
+
+  private processRawEvents(
+    rawEvents: RawCalEvent[],
+    zones: Map<string, ZoneResolver>,
+    startDate: Date,
+    endDate: Date
+  ): ProcessedEvent[] {
+    const expandedEvents = this.expandRecurrences(rawEvents, zones, startDate, endDate);
+    if (expandedEvents.length !== rawEvents.length) {
+      Logger.info('CalendarFetcher', `Expanded recurrences into ${expandedEvents.length} event instances`);
+    }
 
-    const processed = rawEvents
+    const processed = expandedEvents
       .map(event => this.processEvent(event))
       .filter(event => this.isValidEvent(event) && this.isInDateRange(event, startDate, endDate));
       
-    Logger.info('GoogleCalendarFetcher', `Found ${processed.length} valid events in the date range`);
+    Logger.info('CalendarFetcher', `Found ${processed.length} valid events in the date range`);
     return processed;
   }
 
-  private parseICalContent(icalData: string): RawCalEvent[] {
+  /**
+   * Turns each RRULE master into one raw event per occurrence inside the window,
+   * applying EXDATE exclusions and RECURRENCE-ID overrides/cancellations.
+   */
+  private expandRecurrences(
+    rawEvents: RawCalEvent[],
+    zones: Map<string, ZoneResolver>,
+    startDate: Date,
+    endDate: Date
+  ): RawCalEvent[] {
+    // Overrides are keyed by series UID + the original start of the instance they replace
+    const overrides = new Map<string, RawCalEvent>();
+    for (const event of rawEvents) {
+      if (event.recurrenceId && event.uid) {
+        overrides.set(`${event.uid}|${new Date(event.recurrenceId).getTime()}`, event);
+      }
+    }
+
+    const expanded: RawCalEvent[] = [];
+    const usedOverrides = new Set<string>();
+
+    for (const event of rawEvents) {
+      if (event.recurrenceId) continue;
+
+      const rule = event.rrule ? RecurrenceExpander.parseRule(event.rrule) : null;
+      if (!rule || !event.dtstart) {
+        if (event.rrule) {
+          Logger.warn('CalendarFetcher', `Unsupported RRULE "${event.rrule}" for "${event.summary}", showing first occurrence only`);
+        }
+        expanded.push(event);
+        continue;
+      }
+
+      // Expand in wall clock time so "every Monday at 6pm" stays at 6pm across DST changes.
+      // Floating all-day dates are already wall clock dates.
+      const isAllDay = TimeZoneUtils.isDateOnly(event.dtstart);
+      const zone = isAllDay ? TimeZoneUtils.UTC : zones.get(event.tzid) ?? TimeZoneUtils.UTC;
+      const toWall = (value: string) => TimeZoneUtils.utcToWallClock(new Date(value), zone);
+
+      const seriesStart = toWall(event.dtstart);
+      const durationMs = event.dtend ? toWall(event.dtend).getTime() - seriesStart.getTime() : 0;
+      const exdates = (event.exdate || '').split(',').filter(Boolean).map(toWall);
+      if (rule.until && !rule.untilIsDate) rule.until = TimeZoneUtils.utcToWallClock(rule.until, zone);
+
+      const occurrences = RecurrenceExpander.expand(
+        rule,
+        seriesStart,
+        TimeZoneUtils.utcToWallClock(startDate, zone),
+        TimeZoneUtils.utcToWallClock(endDate, zone),
+        exdates
+      );
+
+      for (const occurrence of occurrences) {
+        const instant = TimeZoneUtils.wallClockToUtc(occurrence, zone);
+        const occurrenceEnd = new Date(occurrence.getTime() + durationMs);
+        const key = `${event.uid}|${instant.getTime()}`;
+        const instanceKey = RecurrenceExpander.formatInstanceKey(instant);
+        const instanceId = `${event.uid}_${isAllDay ? instanceKey.substring(0, 8) : instanceKey}`;
+        const override = overrides.get(key);
+
+        if (override) {
+          usedOverrides.add(key);
+          if (override.status !== 'cancelled') {
+            expanded.push({ ...override, instanceId });
+          }
+          continue;
+        }
+
+        expanded.push({
+          ...event,
+          instanceId,
+          dtstart: isAllDay ? this.formatDateOnly(occurrence) : this.formatISODateTime(instant),
+          dtend: isAllDay
+            ? this.formatDateOnly(occurrenceEnd)
+            : this.formatISODateTime(TimeZoneUtils.wallClockToUtc(occurrenceEnd, zone))
+        });
+      }
+    }
+
+    // Overrides whose original slot fell outside the window may have been moved into it
+    for (const [key, override] of overrides) {
+      if (usedOverrides.has(key) || override.status === 'cancelled') continue;
+      expanded.push({
+        ...override,
+        instanceId: `${override.uid}_${RecurrenceExpander.formatInstanceKey(new Date(override.recurrenceId))}`
+      });
+    }
+
+    return expanded;
+  }
+
+  private formatISODateTime(date: Date): string {
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  }
+
+  private formatDateOnly(date: Date): string {
+    return date.toISOString().substring(0, 10);
+  }
+
+  private parseICalContent(icalData: string): ParsedCalendar {
     const events: RawCalEvent[] = [];
     // Unfold multi-line properties. A line starting with a space or tab is a continuation of the previous line.
     const unfoldedData = icalData.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '');
     const lines = unfoldedData.split(/\r\n|\n/);
     let currentEvent: RawCalEvent | null = null;
+
+    // Floating times (no TZID, no trailing Z) use the calendar's X-WR-TIMEZONE, then the makerspace zone
+    const vtimezones = VTimeZone.parseAll(lines);
+    const calendarTimeZone = lines.find(line => line.startsWith('X-WR-TIMEZONE:'))?.substring('X-WR-TIMEZONE:'.length).trim();
+    const floatingZone =
+      TimeZoneUtils.resolveZone(calendarTimeZone, vtimezones) ??
+      TimeZoneUtils.resolveZone(TimeZoneUtils.getMakerspaceTimeZone()) ??
+      TimeZoneUtils.UTC;
+    const zones = new Map<string, ZoneResolver>([[floatingZone.id, floatingZone]]);
+
+    const parseDate = (key: string, value: string, event: RawCalEvent): string => {
+      const params = this.parseParams(key);
+      if (params.VALUE === 'DATE' || /^\d{8}$/.test(value)) {
+        return this.formatDateOnly(TimeZoneUtils.parseWallClock(value) ?? new Date(NaN));
+      }
+
+      let zone: ZoneResolver = TimeZoneUtils.UTC;
+      if (!value.endsWith('Z')) {
+        zone = TimeZoneUtils.resolveZone(params.TZID, vtimezones) ?? floatingZone;
+        if (params.TZID && zone === floatingZone && zone.id !== params.TZID) {
+          Logger.warn('CalendarFetcher', `Unknown TZID "${params.TZID}" on "${event.summary || event.uid}", using ${zone.id}`);
+        }
+      }
+      zones.set(zone.id, zone);
+      if (key.startsWith('DTSTART')) event.tzid = zone.id;
+
+      return this.parseICalDateTime(value, zone);
+    };
     
     for (const line of lines) {
       if (line.startsWith('BEGIN:VEVENT')) {
@@ -106,14 +307,37 @@ export class GoogleCalendarFetcher {
         if (key.startsWith('SUMMARY')) currentEvent.summary = this.decodeICalValue(value);
         if (key.startsWith('DESCRIPTION')) currentEvent.description = this.decodeICalValue(value);
         if (key.startsWith('LOCATION')) currentEvent.location = this.decodeICalValue(value);
-        if (key.startsWith('DTSTART')) currentEvent.dtstart = this.parseICalDateTime(value);
-        if (key.startsWith('DTEND')) currentEvent.dtend = this.parseICalDateTime(value);
+        if (key.startsWith('DTSTART')) currentEvent.dtstart = parseDate(key, value, currentEvent);
+        if (key.startsWith('DTEND')) currentEvent.dtend = parseDate(key, value, currentEvent);
         if (key.startsWith('UID')) currentEvent.uid = value;
         if (key.startsWith('RRULE')) currentEvent.rrule = value;
+        if (key.startsWith('RECURRENCE-ID')) currentEvent.recurrenceId = parseDate(key, value, currentEvent);
+        if (key.startsWith('EXDATE')) {
+          // EXDATE may repeat and may carry several comma-separated dates per line
+          const event = currentEvent;
+          const exdates = value.split(',').map(date => parseDate(key, date.trim(), event));
+          currentEvent.exdate = [currentEvent.exdate, ...exdates].filter(Boolean).join(',');
+        }
         if (key.startsWith('STATUS')) currentEvent.status = this.decodeICalValue(value).toLowerCase();
+        if (key.startsWith('X-AUDIENCE')) currentEvent.audience = this.decodeICalValue(value);
+        if (key.startsWith('CATEGORIES')) {
+          // CATEGORIES may repeat; values are split on unescaped commas and kept one per line
+          const categories = value.split(/(?<!\\),/).map(category => this.decodeICalValue(category).trim());
+          currentEvent.categories = [currentEvent.categories, ...categories].filter(Boolean).join('\n');
+        }
       }
     }
-    return events;
+    return { events, zones };
+  }
+
+  // Splits "DTSTART;TZID=America/Chicago;VALUE=DATE-TIME" into its parameters
+  private parseParams(key: string): Record<string, string> {
+    const params: Record<string, string> = {};
+    for (const param of key.split(';').slice(1)) {
+      const [name, ...rest] = param.split('=');
+      if (name && rest.length) params[name.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    }
+    return params;
   }
   
   private formatDescription(text: string): string {
@@ -148,21 +372,32 @@ export class GoogleCalendarFetcher {
   }
 
   private processEvent(rawEvent: RawCalEvent): ProcessedEvent {
-    const ageGroup = this.ageDetector.detectAgeGroup(rawEvent.summary || '', rawEvent.description || '');
+    const calendarCategories = rawEvent.categories ? rawEvent.categories.split('\n') : [];
+    const { ageGroup, ageGroups, method } = this.ageDetector.detect(rawEvent.summary || '', rawEvent.description || '', {
+      audience: rawEvent.audience,
+      categories: calendarCategories
+    });
+    // Audience markers decide the age group but aren't meant to be shown
+    const summary = AgeGroupDetector.stripAudienceTags(rawEvent.summary || '');
+    const description = AgeGroupDetector.stripAudienceTags(rawEvent.description || '');
     
     return {
-      id: rawEvent.uid || this.generateId(),
-      title: this.cleanText(rawEvent.summary || 'Untitled Event'),
-      description: this.formatDescription(rawEvent.description || ''),
+      id: rawEvent.instanceId || rawEvent.uid || this.generateId(),
+      title: this.cleanText(summary || 'Untitled Event'),
+      description: this.formatDescription(description),
       location: this.cleanText(rawEvent.location || ''),
       start: rawEvent.dtstart || new Date().toISOString(),
-      end: rawEvent.dtend || new Date().toISOString(),
+      end: rawEvent.dtend || this.defaultEnd(rawEvent.dtstart),
       status: this.validateStatus(rawEvent.status),
       isAllDay: this.isAllDayEvent(rawEvent),
       ageGroup,
-      categories: this.extractCategories(rawEvent.description || ''),
+      ageGroups,
+      ageGroupMethod: method,
+      categories: Array.from(new Set([...this.extractCategories(description), ...calendarCategories])),
       registrationUrl: this.extractRegistrationUrl(rawEvent.description || ''),
-      isRecurring: Boolean(rawEvent.rrule)
+      isRecurring: Boolean(rawEvent.rrule || rawEvent.recurrenceId),
+      recurringEventId: rawEvent.rrule || rawEvent.recurrenceId ? rawEvent.uid : undefined,
+      source: this.sourceInfo
     };
   }
   
@@ -179,19 +414,25 @@ export class GoogleCalendarFetcher {
     return value.replace(/\\n/g, '\n').replace(/\\,/g, ',').replace(/\\;/g, ';').replace(/\\\\/g, '\\');
   }
   
-  private parseICalDateTime(value: string): string {
-    if (value.includes('T')) {
-      const clean = value.replace(/[^0-9T]/g, '');
-      const y = clean.substring(0, 4), m = clean.substring(4, 6), d = clean.substring(6, 8);
-      const h = clean.substring(9, 11), min = clean.substring(11, 13), s = clean.substring(13, 15);
-      return `${y}-${m}-${d}T${h}:${min}:${s}Z`;
+  // Converts a local date-time in `zone` (or a UTC value ending in Z) to an ISO UTC string
+  private parseICalDateTime(value: string, zone: ZoneResolver): string {
+    const wallClock = TimeZoneUtils.parseWallClock(value.replace(/[^0-9T]/g, ''));
+    if (!wallClock) return '';
+    return this.formatISODateTime(TimeZoneUtils.wallClockToUtc(wallClock, zone));
+  }
+
+  // Events without DTEND last one day (all-day) or end when they start, which fails validation
+  private defaultEnd(dtstart: string | undefined): string {
+    if (dtstart && TimeZoneUtils.isDateOnly(dtstart)) {
+      const nextDay = new Date(`${dtstart}T00:00:00Z`);
+      nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+      return this.formatDateOnly(nextDay);
     }
-    const y = value.substring(0, 4), m = value.substring(4, 6), d = value.substring(6, 8);
-    return `${y}-${m}-${d}T00:00:00Z`;
+    return new Date().toISOString();
   }
   
   private isInDateRange(event: ProcessedEvent, startDate: Date, endDate: Date): boolean {
-    const eventStart = new Date(event.start);
+    const eventStart = TimeZoneUtils.parseEventDate(event.start);
     return eventStart >= startDate && eventStart <= endDate;
   }
   
@@ -200,7 +441,7 @@ export class GoogleCalendarFetcher {
     if (!hasRequiredFields) return false;
     
     try {
-      return new Date(event.start) < new Date(event.end);
+      return TimeZoneUtils.parseEventDate(event.start) < TimeZoneUtils.parseEventDate(event.end);
     } catch {
       return false;
     }
@@ -230,5 +471,12 @@ export class GoogleCalendarFetcher {
   }
 }
 
-// Export a singleton instance for live data
-export const calendarFetcher = new GoogleCalendarFetcher(process.env.CALENDAR_ID!);
\ No newline at end of file
+// Google Calendar convenience wrapper, kept for existing callers and tests
+export class GoogleCalendarFetcher extends CalendarFetcher {
+  constructor(calendarId: string) {
+    super(calendarId ? new GoogleCalendarSource(calendarId) : null);
+  }
+}
+
+// Export a singleton instance for live data, using whichever source the environment configures
+export const calendarFetcher = new CalendarFetcher(createCalendarSourceFromEnv());
\ No newline at end of file
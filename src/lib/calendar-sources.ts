@@ -0,0 +1,247 @@
+// lib/calendar-sources.ts - Pluggable calendar data sources (iCal URL, local .ics file, JSON feed)
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CalendarSourceInfo } from '@/shared/types';
+import { Logger } from './logger';
+import { UpstreamValidators } from './calendar-cache';
+
+/**
+ * Event shape accepted from JSON feeds. Times are ISO strings; date-only values ("2025-08-11")
+ * are treated as all-day floating dates.
+ */
+export interface JsonFeedEvent {
+  id?: string;
+  title: string;
+  description?: string;
+  location?: string;
+  start: string;
+  end?: string;
+  status?: string;
+  rrule?: string;
+  exdates?: string[];
+  timeZone?: string; // IANA zone used when expanding rrule occurrences
+  audience?: string; // Same as the iCal X-AUDIENCE property
+  categories?: string[];
+}
+
+// 'not-modified' means the upstream confirmed (HTTP 304) that the previous payload is still current
+export type CalendarPayload =
+  | { format: 'ical'; data: string; validators?: UpstreamValidators }
+  | { format: 'json'; events: JsonFeedEvent[]; validators?: UpstreamValidators }
+  | { format: 'not-modified'; validators?: UpstreamValidators };
+
+/**
+ * A place calendar data comes from. Adapters only load raw data; parsing, recurrence
+ * expansion and age-group detection stay in CalendarFetcher.
+ * When `previous` validators are passed, URL sources send a conditional request.
+ */
+export interface CalendarSource {
+  readonly id: string;
+  readonly type: 'ical-url' | 'ical-file' | 'json-feed';
+  readonly location: string;
+  load(previous?: UpstreamValidators): Promise<CalendarPayload>;
+}
+
+interface LoadedText {
+  text: string | null; // null when the server answered 304 Not Modified
+  validators: UpstreamValidators;
+}
+
+/**
+ * One entry of CALENDAR_SOURCES. Exactly one of calendarId/url/file/json should be set.
+ */
+export interface CalendarSourceConfig {
+  name: string;
+  id?: string;
+  calendarId?: string;
+  url?: string;
+  file?: string;
+  json?: string;
+  color?: string;
+  room?: string;
+}
+
+export interface NamedCalendarSource {
+  source: CalendarSource;
+  info: CalendarSourceInfo;
+}
+
+export function hashContent(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+async function fetchText(url: string, component: string, previous?: UpstreamValidators): Promise<LoadedText> {
+  console.log(`Attempting to fetch live data from: ${url}`);
+  Logger.info(component, `Fetching calendar data from URL: ${url}`, { conditional: Boolean(previous?.etag || previous?.lastModified) });
+
+  const headers: Record<string, string> = {};
+  if (previous?.etag) headers['If-None-Match'] = previous.etag;
+  if (previous?.lastModified) headers['If-Modified-Since'] = previous.lastModified;
+
+  // calendarCache handles freshness itself, so bypass the Next.js data cache
+  const response = await fetch(url, { cache: 'no-store', headers });
+
+  if (response.status === 304) {
+    console.log('✅ Calendar data not modified since last fetch.');
+    Logger.info(component, 'Upstream returned 304 Not Modified');
+    return {
+      text: null,
+      validators: {
+        ...previous,
+        etag: response.headers?.get('etag') ?? previous?.etag,
+        lastModified: response.headers?.get('last-modified') ?? previous?.lastModified
+      }
+    };
+  }
+
+  if (!response.ok) {
+    // **Debug Log:** Log the failed fetch attempt
+    const errorText = await response.text();
+    console.error(`🚨 Calendar fetch failed! Status: ${response.status}. Response: ${errorText}`);
+    throw new Error(`Calendar fetch failed with status: ${response.status}`);
+  }
+
+  const text = await response.text();
+  console.log(`✅ Successfully fetched ${text.length} bytes of calendar data.`);
+  Logger.info(component, `Successfully fetched ${text.length} bytes of calendar data`);
+  return {
+    text,
+    validators: {
+      etag: response.headers?.get('etag') ?? undefined,
+      lastModified: response.headers?.get('last-modified') ?? undefined,
+      contentHash: hashContent(text)
+    }
+  };
+}
+
+async function readLocalFile(filePath: string, component: string): Promise<LoadedText> {
+  const resolved = path.resolve(process.cwd(), filePath);
+  Logger.info(component, `Reading calendar data from file: ${resolved}`);
+  const text = await fs.readFile(resolved, 'utf8');
+  Logger.info(component, `Read ${text.length} bytes of calendar data`);
+  return { text, validators: { contentHash: hashContent(text) } };
+}
+
+function isUrl(location: string): boolean {
+  return /^https?:\/\//i.test(location);
+}
+
+/**
+ * Any public iCal (.ics) URL
+ */
+export class ICalUrlSource implements CalendarSource {
+  readonly type = 'ical-url' as const;
+
+  constructor(readonly location: string, readonly id: string = location) {}
+
+  async load(previous?: UpstreamValidators): Promise<CalendarPayload> {
+    const { text, validators } = await fetchText(this.location, 'ICalUrlSource', previous);
+    return text === null ? { format: 'not-modified', validators } : { format: 'ical', data: text, validators };
+  }
+}
+
+/**
+ * The public iCal export of a Google Calendar
+ */
+export class GoogleCalendarSource extends ICalUrlSource {
+  constructor(calendarId: string) {
+    super(`https://calendar.google.com/calendar/ical/${calendarId}/public/basic.ics`, calendarId);
+  }
+}
+
+/**
+ * A .ics file on disk - useful offline and as a test fixture
+ */
+export class LocalFileSource implements CalendarSource {
+  readonly type = 'ical-file' as const;
+
+  constructor(readonly location: string, readonly id: string = location) {}
+
+  async load(): Promise<CalendarPayload> {
+    const { text, validators } = await readLocalFile(this.location, 'LocalFileSource');
+    return { format: 'ical', data: text ?? '', validators };
+  }
+}
+
+/**
+ * A JSON feed (URL or file) shaped as `{ "events": JsonFeedEvent[] }` or a bare array
+ */
+export class JsonFeedSource implements CalendarSource {
+  readonly type = 'json-feed' as const;
+
+  constructor(readonly location: string, readonly id: string = location) {}
+
+  async load(previous?: UpstreamValidators): Promise<CalendarPayload> {
+    const { text, validators } = isUrl(this.location)
+      ? await fetchText(this.location, 'JsonFeedSource', previous)
+      : await readLocalFile(this.location, 'JsonFeedSource');
+    if (text === null) return { format: 'not-modified', validators };
+
+    const parsed = JSON.parse(text);
+    const events = Array.isArray(parsed) ? parsed : parsed?.events;
+    if (!Array.isArray(events)) {
+      throw new Error('JSON feed must be an array of events or an object with an "events" array');
+    }
+    return { format: 'json', events, validators };
+  }
+}
+
+/**
+ * Builds the configured source. Checked in order: CALENDAR_ICAL_URL, CALENDAR_ICS_FILE,
+ * CALENDAR_JSON_FEED, then the original CALENDAR_ID (Google Calendar).
+ */
+export function createCalendarSourceFromEnv(env: Record<string, string | undefined> = process.env): CalendarSource | null {
+  if (env.CALENDAR_ICAL_URL) return new ICalUrlSource(env.CALENDAR_ICAL_URL);
+  if (env.CALENDAR_ICS_FILE) return new LocalFileSource(env.CALENDAR_ICS_FILE);
+  if (env.CALENDAR_JSON_FEED) return new JsonFeedSource(env.CALENDAR_JSON_FEED);
+  if (env.CALENDAR_ID) return new GoogleCalendarSource(env.CALENDAR_ID);
+  return null;
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'calendar';
+}
+
+function createSourceFromConfig(config: CalendarSourceConfig): CalendarSource | null {
+  if (config.url) return new ICalUrlSource(config.url);
+  if (config.file) return new LocalFileSource(config.file);
+  if (config.json) return new JsonFeedSource(config.json);
+  if (config.calendarId) return new GoogleCalendarSource(config.calendarId);
+  return null;
+}
+
+/**
+ * Builds the list of named calendars. CALENDAR_SOURCES holds a JSON array of
+ * CalendarSourceConfig; without it the single source from createCalendarSourceFromEnv is used.
+ */
+export function createNamedSourcesFromEnv(env: Record<string, string | undefined> = process.env): NamedCalendarSource[] {
+  if (env.CALENDAR_SOURCES) {
+    let configs: CalendarSourceConfig[];
+    try {
+      configs = JSON.parse(env.CALENDAR_SOURCES);
+      if (!Array.isArray(configs)) throw new Error('CALENDAR_SOURCES must be a JSON array');
+    } catch (error) {
+      Logger.error('CalendarSources', 'Invalid CALENDAR_SOURCES configuration', {}, error as Error);
+      return [];
+    }
+
+    const usedIds = new Set<string>();
+    return configs.flatMap(config => {
+      const source = config?.name ? createSourceFromConfig(config) : null;
+      if (!source) {
+        Logger.warn('CalendarSources', 'Skipping CALENDAR_SOURCES entry without a name and calendarId/url/file/json', { config });
+        return [];
+      }
+
+      let id = config.id || slugify(config.name);
+      while (usedIds.has(id)) id = `${id}-2`;
+      usedIds.add(id);
+
+      return [{ source, info: { id, name: config.name, color: config.color, room: config.room } }];
+    });
+  }
+
+  const source = createCalendarSourceFromEnv(env);
+  return source ? [{ source, info: { id: 'main', name: env.CALENDAR_NAME || 'Makerspace Calendar' } }] : [];
+}
@@ -1,5 +1,7 @@
 // lib/calendar-utils.ts
-import { ProcessedEvent, DisplayStatus } from '@/shared/types';
+import { ProcessedEvent, DisplayStatus, WeekDay, WeekSpan } from '@/shared/types';
+import { TimeZoneUtils } from './timezone';
+import { AgeGroupDetector } from './age-group-detector';
 
 export class CalendarUtils {
   /**
@@ -10,19 +12,20 @@ export class CalendarUtils {
     
     // Sort events by start time
     const sortedEvents = [...events].sort((a, b) => 
-      new Date(a.start).getTime() - new Date(b.start).getTime()
+      TimeZoneUtils.parseEventDate(a.start).getTime() - TimeZoneUtils.parseEventDate(b.start).getTime()
     );
     
-    // Find current event (if any)
-    const currentEvent = sortedEvents.find(event => {
-      const start = new Date(event.start);
-      const end = new Date(event.end);
+    // Find every event in progress; the earliest-started one is the primary current event
+    const currentEvents = sortedEvents.filter(event => {
+      const start = TimeZoneUtils.parseEventDate(event.start);
+      const end = TimeZoneUtils.parseEventDate(event.end);
       return effectiveTime >= start && effectiveTime <= end;
     });
+    const currentEvent = currentEvents[0];
     
     // Find next event
     const futureEvents = sortedEvents.filter(event => 
-      new Date(event.start) > effectiveTime
+      TimeZoneUtils.parseEventDate(event.start) > effectiveTime
     );
     const nextEvent = futureEvents[0];
     
@@ -41,6 +44,7 @@ export class CalendarUtils {
     return {
       status,
       currentEvent,
+      currentEvents,
       nextEvent,
       currentTime: mockTime ? mockTime : effectiveTime.toISOString(),
       mockTime,
@@ -54,7 +58,7 @@ export class CalendarUtils {
    */
   static getTodaysEvents(events: ProcessedEvent[], date: Date = new Date()): ProcessedEvent[] {
     return events.filter(event => {
-      const eventStart = new Date(event.start);
+      const eventStart = TimeZoneUtils.parseEventDate(event.start);
       return (
         eventStart.getUTCFullYear() === date.getUTCFullYear() &&
         eventStart.getUTCMonth() === date.getUTCMonth() &&
@@ -63,6 +67,24 @@ export class CalendarUtils {
     });
   }
 
+  /**
+   * Events overlapping the makerspace's local day containing `date`, sorted by start time.
+   * Unlike getTodaysEvents this follows the local midnight, and keeps events that began
+   * before midnight but are still running.
+   */
+  static getEventsForLocalDay(
+    events: ProcessedEvent[],
+    date: Date = new Date(),
+    timeZone: string = TimeZoneUtils.getMakerspaceTimeZone()
+  ): ProcessedEvent[] {
+    const { start: dayStart, end: dayEnd } = TimeZoneUtils.getLocalDayBounds(date, timeZone);
+    const startOf = (event: ProcessedEvent) => TimeZoneUtils.parseEventDate(event.start, timeZone).getTime();
+
+    return events
+      .filter(event => startOf(event) < dayEnd.getTime() && TimeZoneUtils.parseEventDate(event.end, timeZone) > dayStart)
+      .sort((a, b) => startOf(a) - startOf(b));
+  }
+
   // ... (rest of the class remains the same)
 
   /**
@@ -111,25 +133,82 @@ export class CalendarUtils {
   }
 
   /**
-   * Returns events whose start is within [startDate, endDate] inclusive
+   * Returns events whose start is within [startDate, endDate] inclusive. With `overlapping`,
+   * events that started earlier but are still running at startDate are included too.
    */
-  static getEventsInDateRange(events: ProcessedEvent[], startDate: Date, endDate: Date): ProcessedEvent[] {
+  static getEventsInDateRange(
+    events: ProcessedEvent[],
+    startDate: Date,
+    endDate: Date,
+    { overlapping = false, timeZone }: { overlapping?: boolean; timeZone?: string } = {}
+  ): ProcessedEvent[] {
     const startMs = startDate.getTime();
     const endMs = endDate.getTime();
     return events.filter(e => {
-      const s = new Date(e.start).getTime();
-      return s >= startMs && s <= endMs;
+      const s = TimeZoneUtils.parseEventDate(e.start, timeZone).getTime();
+      if (s > endMs) return false;
+      return s >= startMs || (overlapping && TimeZoneUtils.parseEventDate(e.end, timeZone).getTime() > startMs);
+    });
+  }
+
+  /**
+   * Seven local days starting with the day containing `from`. Timed events that fit in a day
+   * are listed under it; all-day and multi-day events become spans across day columns.
+   */
+  static getWeekSchedule(
+    events: ProcessedEvent[],
+    from: Date = new Date(),
+    timeZone: string = TimeZoneUtils.getMakerspaceTimeZone()
+  ): { days: WeekDay[]; spans: WeekSpan[] } {
+    const bounds = [TimeZoneUtils.getLocalDayBounds(from, timeZone)];
+    while (bounds.length < 7) {
+      bounds.push(TimeZoneUtils.getLocalDayBounds(bounds[bounds.length - 1].end, timeZone));
+    }
+
+    const days: WeekDay[] = bounds.map(({ date, start, end }) => ({
+      date,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      events: []
+    }));
+    const spans: WeekSpan[] = [];
+    const weekEvents = this.getEventsInDateRange(events, bounds[0].start, new Date(bounds[6].end.getTime() - 1), {
+      overlapping: true,
+      timeZone
     });
+
+    for (const event of weekEvents) {
+      const startMs = TimeZoneUtils.parseEventDate(event.start, timeZone).getTime();
+      // End is exclusive: an all-day event ending at the next midnight stays on one day
+      const lastMs = Math.max(startMs, TimeZoneUtils.parseEventDate(event.end, timeZone).getTime() - 1);
+      const startDay = Math.max(0, bounds.findIndex(day => day.end.getTime() > startMs));
+      const lastIndex = bounds.findIndex(day => day.end.getTime() > lastMs);
+      const endDay = lastIndex === -1 ? 6 : lastIndex;
+
+      if (event.isAllDay || endDay !== startDay || startMs < bounds[0].start.getTime()) {
+        spans.push({ event, startDay, endDay });
+      } else {
+        days[startDay].events.push(event);
+      }
+    }
+
+    const byStart = (a: ProcessedEvent, b: ProcessedEvent) =>
+      TimeZoneUtils.parseEventDate(a.start, timeZone).getTime() - TimeZoneUtils.parseEventDate(b.start, timeZone).getTime();
+    days.forEach(day => day.events.sort(byStart));
+    spans.sort((a, b) => a.startDay - b.startDay || b.endDay - a.endDay || byStart(a.event, b.event));
+
+    return { days, spans };
   }
   
   /**
-   * Groups events by age group for statistics
+   * Groups events by age group for statistics. Events for several audiences appear under each.
    */
   static groupEventsByAgeGroup(events: ProcessedEvent[]): Record<string, ProcessedEvent[]> {
     return events.reduce((acc, event) => {
-      const group = event.ageGroup.group;
-      if (!acc[group]) acc[group] = [];
-      acc[group].push(event);
+      for (const { group } of AgeGroupDetector.groupsOf(event)) {
+        if (!acc[group]) acc[group] = [];
+        acc[group].push(event);
+      }
       return acc;
     }, {} as Record<string, ProcessedEvent[]>);
   }
@@ -139,8 +218,8 @@ export class CalendarUtils {
    */
   static getUpcomingEvents(events: ProcessedEvent[], count: number = 5, fromTime: Date = new Date()): ProcessedEvent[] {
     return events
-      .filter(event => new Date(event.start) > fromTime)
-      .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime())
+      .filter(event => TimeZoneUtils.parseEventDate(event.start) > fromTime)
+      .sort((a, b) => TimeZoneUtils.parseEventDate(a.start).getTime() - TimeZoneUtils.parseEventDate(b.start).getTime())
       .slice(0, count);
   }
 
@@ -149,8 +228,8 @@ export class CalendarUtils {
    */
   static isEventHappeningNow(event: ProcessedEvent, mockTime?: string): boolean {
     const now = mockTime ? new Date(mockTime) : new Date(Date.now());
-    const start = new Date(event.start);
-    const end = new Date(event.end);
+    const start = TimeZoneUtils.parseEventDate(event.start);
+    const end = TimeZoneUtils.parseEventDate(event.end);
     return now >= start && now <= end;
   }
 
@@ -158,14 +237,14 @@ export class CalendarUtils {
    * Stable sort by start time ascending, without mutating input
    */
   static sortEventsByStartTime(events: ProcessedEvent[]): ProcessedEvent[] {
-    return [...events].sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+    return [...events].sort((a, b) => TimeZoneUtils.parseEventDate(a.start).getTime() - TimeZoneUtils.parseEventDate(b.start).getTime());
   }
   
   /**
    * Checks if an event is happening soon (within threshold)
    */
   static isEventSoon(event: ProcessedEvent, thresholdMinutes: number = 30, currentTime: Date = new Date()): boolean {
-    const eventStart = new Date(event.start);
+    const eventStart = TimeZoneUtils.parseEventDate(event.start);
     const diffMs = eventStart.getTime() - currentTime.getTime();
     const diffMinutes = diffMs / (1000 * 60);
     
@@ -176,8 +255,8 @@ export class CalendarUtils {
    * Formats event time for display
    */
   static formatEventTime(event: ProcessedEvent, format: 'short' | 'long' = 'short'): string {
-    const start = new Date(event.start);
-    const end = new Date(event.end);
+    const start = TimeZoneUtils.parseEventDate(event.start);
+    const end = TimeZoneUtils.parseEventDate(event.end);
     
     if (event.isAllDay) {
       return 'All Day';
@@ -209,8 +288,8 @@ export class CalendarUtils {
    * Generates a friendly duration string
    */
   static formatEventDuration(event: ProcessedEvent): string {
-    const start = new Date(event.start);
-    const end = new Date(event.end);
+    const start = TimeZoneUtils.parseEventDate(event.start);
+    const end = TimeZoneUtils.parseEventDate(event.end);
     const durationMs = end.getTime() - start.getTime();
     const durationMinutes = Math.floor(durationMs / (1000 * 60));
     
@@ -247,15 +326,15 @@ export class CalendarUtils {
     
     // Sort events by start time for validation
     const sortedEvents = [...events].sort((a, b) => 
-      new Date(a.start).getTime() - new Date(b.start).getTime()
+      TimeZoneUtils.parseEventDate(a.start).getTime() - TimeZoneUtils.parseEventDate(b.start).getTime()
     );
     
     for (let i = 0; i < sortedEvents.length - 1; i++) {
       const current = sortedEvents[i];
       const next = sortedEvents[i + 1];
       
-      const currentEnd = new Date(current.end);
-      const nextStart = new Date(next.start);
+      const currentEnd = TimeZoneUtils.parseEventDate(current.end);
+      const nextStart = TimeZoneUtils.parseEventDate(next.start);
       
       // Check for overlapping events
       if (currentEnd > nextStart) {
@@ -0,0 +1,22 @@
+// lib/data-dir.ts - Location for files the server persists between restarts
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DEFAULT_DATA_DIR = '.data';
+
+/**
+ * DATA_DIR (absolute or relative to the working directory), defaulting to ./.data
+ */
+export function getDataDir(): string {
+  return path.resolve(process.cwd(), process.env.DATA_DIR || DEFAULT_DATA_DIR);
+}
+
+export function getDataFilePath(fileName: string): string {
+  return path.join(getDataDir(), fileName);
+}
+
+export async function ensureDataDir(): Promise<string> {
+  const dir = getDataDir();
+  await fs.mkdir(dir, { recursive: true });
+  return dir;
+}
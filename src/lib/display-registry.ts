@@ -0,0 +1,165 @@
+// lib/display-registry.ts - Named displays (/display/<id>) and what each one shows
+import { DisplayConfig, DisplayLayout, DisplayOrientation, Playlist, ProcessedEvent } from '@/shared/types';
+import { LocalStorage } from './local-storage';
+import { serverStorage } from './server-storage';
+import { PlaylistEngine } from './playlist';
+import { pickPlaylist } from './playlist-config';
+import { AgeGroupDetector } from './age-group-detector';
+import { Logger } from './logger';
+
+export const DISPLAY_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+export const DISPLAY_LAYOUTS: DisplayLayout[] = ['grid', 'single'];
+export const DISPLAY_ORIENTATIONS: DisplayOrientation[] = ['landscape', 'portrait'];
+
+export type DisplayInput = Omit<DisplayConfig, 'createdAt' | 'updatedAt' | 'layout' | 'orientation' | 'theme'> & {
+  layout?: DisplayLayout;
+  orientation?: DisplayOrientation;
+  theme?: string;
+};
+
+const MAX_NAME_LENGTH = 60;
+const MAX_FILTER_ENTRIES = 20;
+const THEME_PATTERN = /^(auto|#[0-9a-f]{3}|#[0-9a-f]{6})$/i;
+
+export class DisplayRegistry {
+  constructor(private storage: LocalStorage) {}
+
+  list(): DisplayConfig[] {
+    return [...this.storage.getDisplays()].sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  get(id: string): DisplayConfig | undefined {
+    return this.storage.getDisplays().find(display => display.id === id);
+  }
+
+  /**
+   * Returns a list of problems with a display; empty when it can be saved
+   */
+  validate(input: Partial<DisplayInput>): string[] {
+    const errors: string[] = [];
+
+    if (typeof input.id !== 'string' || !DISPLAY_ID_PATTERN.test(input.id)) {
+      errors.push('id must be 1-40 lowercase letters, digits or dashes');
+    }
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      errors.push('name is required');
+    } else if (input.name.length > MAX_NAME_LENGTH) {
+      errors.push(`name must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+
+    for (const field of ['rooms', 'ageGroups'] as const) {
+      const value = input[field];
+      if (value === undefined) continue;
+      if (!Array.isArray(value) || value.length > MAX_FILTER_ENTRIES || value.some(entry => typeof entry !== 'string' || !entry.trim())) {
+        errors.push(`${field} must be a list of at most ${MAX_FILTER_ENTRIES} names`);
+      }
+    }
+
+    if (input.layout !== undefined && !DISPLAY_LAYOUTS.includes(input.layout)) {
+      errors.push(`layout must be one of: ${DISPLAY_LAYOUTS.join(', ')}`);
+    }
+    if (input.orientation !== undefined && !DISPLAY_ORIENTATIONS.includes(input.orientation)) {
+      errors.push(`orientation must be one of: ${DISPLAY_ORIENTATIONS.join(', ')}`);
+    }
+    if (input.theme !== undefined && (typeof input.theme !== 'string' || !THEME_PATTERN.test(input.theme))) {
+      errors.push('theme must be "auto" or a hex color like #1e40af');
+    }
+    if (input.qrCodes !== undefined && typeof input.qrCodes !== 'boolean') {
+      errors.push('qrCodes must be true or false');
+    }
+    if (input.playlist !== undefined && input.playlist !== null) {
+      errors.push(...PlaylistEngine.validate(input.playlist).map(error => `playlist: ${error}`));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Registers a display (validate first). Returns null if the id is taken.
+   */
+  create(input: DisplayInput): DisplayConfig | null {
+    if (this.get(input.id)) return null;
+
+    const now = new Date().toISOString();
+    const display: DisplayConfig = { ...pickDisplay(input), createdAt: now, updatedAt: now };
+    this.storage.setDisplays([...this.storage.getDisplays(), display]);
+    Logger.info('DisplayRegistry', `Registered display "${display.id}"`, { name: display.name });
+    return display;
+  }
+
+  /**
+   * Replaces the fields sent (validate the merged result first). The id can't change.
+   * Send `playlist: null` to go back to the shared playlist. Returns null if it doesn't exist.
+   */
+  update(id: string, input: Partial<DisplayInput>): DisplayConfig | null {
+    const existing = this.get(id);
+    if (!existing) return null;
+
+    const display: DisplayConfig = {
+      ...pickDisplay({ ...existing, ...input, id }),
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString()
+    };
+    this.storage.setDisplays(this.storage.getDisplays().map(d => (d.id === id ? display : d)));
+    Logger.info('DisplayRegistry', `Updated display "${id}"`);
+    return display;
+  }
+
+  remove(id: string): boolean {
+    const displays = this.storage.getDisplays();
+    if (!displays.some(d => d.id === id)) return false;
+
+    this.storage.setDisplays(displays.filter(d => d.id !== id));
+    Logger.info('DisplayRegistry', `Removed display "${id}"`);
+    return true;
+  }
+
+  /**
+   * Events scoped to a registered display; every event when `displayId` is omitted or unknown
+   */
+  scopeEvents(events: ProcessedEvent[], displayId?: string | null): ProcessedEvent[] {
+    const display = displayId ? this.get(displayId) : undefined;
+    return display ? DisplayRegistry.filterEvents(events, display) : events;
+  }
+
+  /**
+   * The events a display shows: those in one of its rooms and for one of its age groups.
+   * A room matches the calendar source id or room exactly, or appears in the event location.
+   */
+  static filterEvents(events: ProcessedEvent[], display: Pick<DisplayConfig, 'rooms' | 'ageGroups'>): ProcessedEvent[] {
+    const rooms = (display.rooms ?? []).map(room => room.trim().toLowerCase());
+    const ageGroups = new Set(display.ageGroups ?? []);
+
+    return events.filter(event => {
+      if (rooms.length > 0) {
+        const sourceNames = [event.source?.id, event.source?.room].filter((name): name is string => !!name).map(name => name.toLowerCase());
+        const location = (event.location ?? '').toLowerCase();
+        const inRoom = rooms.some(room => sourceNames.includes(room) || location.includes(room));
+        if (!inRoom) return false;
+      }
+      if (ageGroups.size > 0) {
+        return AgeGroupDetector.groupsOf(event).some(group => ageGroups.has(group.group));
+      }
+      return true;
+    });
+  }
+}
+
+// Drops unknown fields and normalizes optional ones
+function pickDisplay(input: DisplayInput): Omit<DisplayConfig, 'createdAt' | 'updatedAt'> {
+  const display: Omit<DisplayConfig, 'createdAt' | 'updatedAt'> = {
+    id: input.id,
+    name: input.name.trim(),
+    layout: input.layout ?? 'grid',
+    orientation: input.orientation ?? 'landscape',
+    theme: input.theme ?? 'auto'
+  };
+  if (input.qrCodes === false) display.qrCodes = false;
+  if (input.rooms?.length) display.rooms = input.rooms.map(room => room.trim());
+  if (input.ageGroups?.length) display.ageGroups = [...input.ageGroups];
+  if (input.playlist) display.playlist = pickPlaylist(input.playlist as Playlist);
+  return display;
+}
+
+// Export singleton instance
+export const displayRegistry = new DisplayRegistry(serverStorage);
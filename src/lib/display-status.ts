@@ -0,0 +1,42 @@
+// lib/display-status.ts - Builds the DisplayStatus served to TVDisplay (polled and streamed)
+import { DisplayStatus, ProcessedEvent } from '@/shared/types';
+import { getCalendarEvents } from './refresh-scheduler';
+import { serverStorage } from './server-storage';
+import { displayRegistry } from './display-registry';
+import { buildDisplayStatus } from './status-calculator';
+import { Logger } from './logger';
+
+export interface DisplayStatusSnapshot {
+  status: DisplayStatus;
+  events: ProcessedEvent[];
+}
+
+/**
+ * The current display status (honoring the admin time override) and the events behind it,
+ * scoped to a registered display's rooms and age groups when `displayId` is given
+ */
+export async function loadDisplayStatus(displayId?: string): Promise<DisplayStatusSnapshot> {
+  const mockTimeStr = serverStorage.getTimeOverride();
+  const currentTime = mockTimeStr ? new Date(mockTimeStr) : new Date();
+
+  // The refresh scheduler normally keeps the cache warm; if it is empty or expired we fall
+  // back to the same shared refresh (stale events are returned immediately when available),
+  // and to the disk snapshot if the fetch fails
+  const { events: allEvents, fetchedAt, degraded } = await getCalendarEvents();
+  const events = displayRegistry.scopeEvents(allEvents, displayId);
+  const dataAge = fetchedAt ? Math.max(0, Math.round((Date.now() - new Date(fetchedAt).getTime()) / 1000)) : undefined;
+  Logger.debug('DisplayStatus', `Using ${events.length} events at ${currentTime.toISOString()}`, {
+    display: displayId ?? null,
+    mock: !!mockTimeStr,
+    dataAge: dataAge ?? null,
+    degraded
+  });
+
+  return {
+    status: {
+      ...buildDisplayStatus(events, currentTime, { mockTime: mockTimeStr || undefined, dataAge, degraded }),
+      serverTime: new Date().toISOString()
+    },
+    events
+  };
+}
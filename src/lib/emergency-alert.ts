@@ -0,0 +1,122 @@
+// lib/emergency-alert.ts - The single emergency alert that takes over every display
+import { randomUUID } from 'crypto';
+import { EmergencyAlert, EmergencySeverity } from '@/shared/types';
+import { LocalStorage } from './local-storage';
+import { serverStorage } from './server-storage';
+import { Logger } from './logger';
+
+export const EMERGENCY_SEVERITIES: EmergencySeverity[] = ['warning', 'critical'];
+
+export interface EmergencyAlertInput {
+  title: string;
+  message?: string;
+  severity?: EmergencySeverity;
+  expiresAt?: string; // ISO date-time
+  durationMinutes?: number; // Alternative to expiresAt
+}
+
+const MAX_TITLE_LENGTH = 80;
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_DURATION_MINUTES = 7 * 24 * 60;
+
+// Emergencies always use the real clock, never the admin time override
+export class EmergencyAlertManager {
+  constructor(private storage: LocalStorage) {}
+
+  /**
+   * The alert to show now, or null. An expired alert is removed (and logged) on first read.
+   */
+  getActive(now: Date = new Date()): EmergencyAlert | null {
+    const alert = this.storage.getEmergencyAlert();
+    if (!alert) return null;
+
+    if (alert.expiresAt && new Date(alert.expiresAt) <= now) {
+      this.storage.setEmergencyAlert(null);
+      Logger.warn('EmergencyAlert', `Alert expired: ${alert.title}`, { id: alert.id, expiresAt: alert.expiresAt });
+      return null;
+    }
+    return alert;
+  }
+
+  /**
+   * Returns a list of problems with an alert; empty when it can be activated
+   */
+  validate(input: Partial<EmergencyAlertInput>, now: Date = new Date()): string[] {
+    const errors: string[] = [];
+
+    if (typeof input.title !== 'string' || !input.title.trim()) {
+      errors.push('title is required');
+    } else if (input.title.length > MAX_TITLE_LENGTH) {
+      errors.push(`title must be at most ${MAX_TITLE_LENGTH} characters`);
+    }
+    if (input.message !== undefined && (typeof input.message !== 'string' || input.message.length > MAX_MESSAGE_LENGTH)) {
+      errors.push(`message must be text of at most ${MAX_MESSAGE_LENGTH} characters`);
+    }
+    if (input.severity !== undefined && !EMERGENCY_SEVERITIES.includes(input.severity)) {
+      errors.push(`severity must be one of: ${EMERGENCY_SEVERITIES.join(', ')}`);
+    }
+
+    if (input.expiresAt !== undefined && input.durationMinutes !== undefined) {
+      errors.push('Send either expiresAt or durationMinutes, not both');
+    } else if (input.expiresAt !== undefined) {
+      const expiresAt = typeof input.expiresAt === 'string' ? new Date(input.expiresAt) : new Date(NaN);
+      if (isNaN(expiresAt.getTime())) errors.push('expiresAt must be an ISO date-time');
+      else if (expiresAt <= now) errors.push('expiresAt must be in the future');
+    } else if (input.durationMinutes !== undefined) {
+      const minutes = input.durationMinutes;
+      if (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_DURATION_MINUTES) {
+        errors.push(`durationMinutes must be between 1 and ${MAX_DURATION_MINUTES}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Shows an alert on every display (validate first), replacing any active one
+   */
+  activate(input: EmergencyAlertInput, now: Date = new Date()): EmergencyAlert {
+    const expiresAt = input.expiresAt
+      ? new Date(input.expiresAt)
+      : input.durationMinutes
+        ? new Date(now.getTime() + input.durationMinutes * 60 * 1000)
+        : undefined;
+
+    const alert: EmergencyAlert = {
+      id: randomUUID(),
+      title: input.title.trim(),
+      message: (input.message ?? '').trim(),
+      severity: input.severity ?? 'critical',
+      activatedAt: now.toISOString()
+    };
+    if (expiresAt) alert.expiresAt = expiresAt.toISOString();
+
+    const replaced = this.getActive(now);
+    this.storage.setEmergencyAlert(alert);
+    Logger.warn('EmergencyAlert', `Alert activated: ${alert.title}`, {
+      id: alert.id,
+      severity: alert.severity,
+      expiresAt: alert.expiresAt ?? null,
+      replaced: replaced?.id ?? null
+    });
+    return alert;
+  }
+
+  /**
+   * Takes the active alert down. Returns it, or null if there was none.
+   */
+  clear(now: Date = new Date()): EmergencyAlert | null {
+    const alert = this.getActive(now);
+    if (!alert) return null;
+
+    this.storage.setEmergencyAlert(null);
+    Logger.warn('EmergencyAlert', `Alert cleared: ${alert.title}`, {
+      id: alert.id,
+      activeForSeconds: Math.round((now.getTime() - new Date(alert.activatedAt).getTime()) / 1000)
+    });
+    return alert;
+  }
+}
+
+// Export singleton instance
+export const emergencyAlerts = new EmergencyAlertManager(serverStorage);
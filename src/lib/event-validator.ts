@@ -1,28 +1,36 @@
 // lib/event-validator.ts
 import { ProcessedEvent } from '@/shared/types';
+import { TimeZoneUtils } from './timezone';
 
 export class EventValidator {
   
-  filterCurrentAndUpcoming(events: ProcessedEvent[], currentTime: string): { current?: ProcessedEvent, upcoming: ProcessedEvent[] } {
+  /**
+   * Splits events into those in progress and those still to come, both sorted by start time.
+   * `current` is the earliest-started in-progress event, kept for single-event consumers.
+   */
+  filterCurrentAndUpcoming(
+    events: ProcessedEvent[],
+    currentTime: string
+  ): { current?: ProcessedEvent, currentEvents: ProcessedEvent[], upcoming: ProcessedEvent[] } {
     const now = new Date(currentTime);
     
-    const sortedEvents = [...events].sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+    const sortedEvents = [...events].sort((a, b) => TimeZoneUtils.parseEventDate(a.start).getTime() - TimeZoneUtils.parseEventDate(b.start).getTime());
     
-    let current: ProcessedEvent | undefined;
+    const currentEvents: ProcessedEvent[] = [];
     const upcoming: ProcessedEvent[] = [];
     
     for (const event of sortedEvents) {
-      const start = new Date(event.start);
-      const end = new Date(event.end);
+      const start = TimeZoneUtils.parseEventDate(event.start);
+      const end = TimeZoneUtils.parseEventDate(event.end);
       
       if (now >= start && now <= end) {
-        current = event;
+        currentEvents.push(event);
       } else if (start > now) {
         upcoming.push(event);
       }
     }
     
-    return { current, upcoming };
+    return { current: currentEvents[0], currentEvents, upcoming };
   }
 
   validateEvent(event: ProcessedEvent): { valid: boolean; errors: string[] } {
@@ -42,8 +50,8 @@ export class EventValidator {
     }
     
     // Date validation
-    const start = new Date(event.start);
-    const end = new Date(event.end);
+    const start = TimeZoneUtils.parseEventDate(event.start);
+    const end = TimeZoneUtils.parseEventDate(event.end);
     
     if (isNaN(start.getTime())) {
       errors.push('Invalid start time format');
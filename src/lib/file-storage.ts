@@ -0,0 +1,80 @@
+// lib/file-storage.ts - Durable StorageAdapter backed by a JSON file
+import fs from 'fs';
+import path from 'path';
+import { StorageAdapter } from './local-storage';
+import { Logger } from './logger';
+
+/**
+ * Keeps every key in one JSON file. Reads are served from memory; each write rewrites the
+ * file via temp file + rename so a crash never leaves it half-written.
+ * If the file can't be written (e.g. read-only filesystem) it keeps working in memory.
+ */
+export class FileStorage implements StorageAdapter {
+  readonly type = 'file';
+  private data: Record<string, string> | null = null;
+  private writeFailed = false;
+
+  constructor(private filePath: string) {}
+
+  getItem(key: string): string | null {
+    return this.load()[key] ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.load()[key] = value;
+    this.persist();
+  }
+
+  removeItem(key: string): void {
+    const data = this.load();
+    if (!(key in data)) return;
+    delete data[key];
+    this.persist();
+  }
+
+  keys(): string[] {
+    return Object.keys(this.load());
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  private load(): Record<string, string> {
+    if (this.data) return this.data;
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      this.data = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        Logger.error('FileStorage', `Could not read ${this.filePath}, starting empty`, {}, error as Error);
+      }
+      this.data = {};
+    }
+
+    return this.data as Record<string, string>;
+  }
+
+  private persist(): void {
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(temp, JSON.stringify(this.data), 'utf8');
+      fs.renameSync(temp, this.filePath);
+      this.writeFailed = false;
+    } catch (error) {
+      // Log once per failure streak; values stay available in memory
+      if (!this.writeFailed) {
+        Logger.error('FileStorage', `Could not write ${this.filePath}, keeping data in memory only`, {}, error as Error);
+      }
+      this.writeFailed = true;
+      try {
+        fs.rmSync(temp, { force: true });
+      } catch {
+        // Nothing more to clean up
+      }
+    }
+  }
+}
@@ -1,5 +1,5 @@
 // lib/local-storage.ts - Local Storage wrapper for caching calendar data
-import { ProcessedEvent, CalendarFetchResult, SystemHealth } from '@/shared/types';
+import { ProcessedEvent, CalendarFetchResult, SystemHealth, AgeGroupRule, Playlist, Announcement, EmergencyAlert, DisplayConfig, EventWindow, AdminSession, StoredApiToken } from '@/shared/types';
 
 // Storage key prefix for namespacing
 const STORAGE_PREFIX = 'makerspace-display:';
@@ -8,14 +8,17 @@ const STORAGE_PREFIX = 'makerspace-display:';
 const createKey = (key: string) => `${STORAGE_PREFIX}${key}`;
 
 // Storage interface that works both client and server side
-interface StorageAdapter {
+export interface StorageAdapter {
+  readonly type?: string; // Shown by getStorageInfo()
   getItem(key: string): string | null;
   setItem(key: string, value: string): void;
   removeItem(key: string): void;
+  keys?(): string[]; // Lets getStorageInfo() enumerate server-side adapters
 }
 
 // In-memory fallback for server-side or when localStorage is unavailable
-class MemoryStorage implements StorageAdapter {
+export class MemoryStorage implements StorageAdapter {
+  readonly type = 'memory';
   private storage: Record<string, string> = {};
 
   getItem(key: string): string | null {
@@ -29,6 +32,10 @@ class MemoryStorage implements StorageAdapter {
   removeItem(key: string): void {
     delete this.storage[key];
   }
+
+  keys(): string[] {
+    return Object.keys(this.storage);
+  }
 }
 
 // Get storage adapter based on environment
@@ -56,8 +63,9 @@ export class LocalStorage {
   private storage: StorageAdapter;
   private memoryStorage: MemoryStorage; // Fallback for server-side operations
 
-  constructor() {
-    this.storage = getStorageAdapter();
+  // Pass an adapter to use durable storage on the server (see server-storage.ts)
+  constructor(adapter?: StorageAdapter) {
+    this.storage = adapter ?? getStorageAdapter();
     this.memoryStorage = new MemoryStorage();
   }
 
@@ -200,6 +208,171 @@ export class LocalStorage {
     }
   }
 
+  // Admin-defined age group rules (null = use the built-in defaults)
+  setAgeGroupRules(rules: AgeGroupRule[] | null): void {
+    try {
+      if (rules) {
+        this.storage.setItem(createKey('config:ageGroups'), JSON.stringify(rules));
+        console.log(`🏷️ Stored ${rules.length} age group rules`);
+      } else {
+        this.storage.removeItem(createKey('config:ageGroups'));
+        console.log('🏷️ Age group rules reset to defaults');
+      }
+    } catch (error) {
+      console.error('🏷️ Error storing age group rules:', error);
+    }
+  }
+
+  getAgeGroupRules(): AgeGroupRule[] | null {
+    try {
+      const rules = this.storage.getItem(createKey('config:ageGroups'));
+      return rules ? JSON.parse(rules) : null;
+    } catch (error) {
+      console.error('🏷️ Error getting age group rules:', error);
+      return null;
+    }
+  }
+
+  setPlaylist(playlist: Playlist | null): void {
+    try {
+      if (playlist) {
+        this.storage.setItem(createKey('config:playlist'), JSON.stringify(playlist));
+        console.log(`🎞️ Stored playlist with ${playlist.slides.length} slides`);
+      } else {
+        this.storage.removeItem(createKey('config:playlist'));
+        console.log('🎞️ Playlist reset to default');
+      }
+    } catch (error) {
+      console.error('🎞️ Error storing playlist:', error);
+    }
+  }
+
+  getPlaylist(): Playlist | null {
+    try {
+      const playlist = this.storage.getItem(createKey('config:playlist'));
+      return playlist ? JSON.parse(playlist) : null;
+    } catch (error) {
+      console.error('🎞️ Error getting playlist:', error);
+      return null;
+    }
+  }
+
+  setAnnouncements(announcements: Announcement[]): void {
+    try {
+      this.storage.setItem(createKey('announcements'), JSON.stringify(announcements));
+      console.log(`📢 Stored ${announcements.length} announcements`);
+    } catch (error) {
+      console.error('📢 Error storing announcements:', error);
+    }
+  }
+
+  getAnnouncements(): Announcement[] {
+    try {
+      const announcements = this.storage.getItem(createKey('announcements'));
+      return announcements ? JSON.parse(announcements) : [];
+    } catch (error) {
+      console.error('📢 Error getting announcements:', error);
+      return [];
+    }
+  }
+
+  setDisplays(displays: DisplayConfig[]): void {
+    try {
+      this.storage.setItem(createKey('config:displays'), JSON.stringify(displays));
+      console.log(`🖥️ Stored ${displays.length} display configs`);
+    } catch (error) {
+      console.error('🖥️ Error storing displays:', error);
+    }
+  }
+
+  getDisplays(): DisplayConfig[] {
+    try {
+      const displays = this.storage.getItem(createKey('config:displays'));
+      return displays ? JSON.parse(displays) : [];
+    } catch (error) {
+      console.error('🖥️ Error getting displays:', error);
+      return [];
+    }
+  }
+
+  setEmergencyAlert(alert: EmergencyAlert | null): void {
+    try {
+      if (alert) {
+        this.storage.setItem(createKey('emergencyAlert'), JSON.stringify(alert));
+      } else {
+        this.storage.removeItem(createKey('emergencyAlert'));
+      }
+    } catch (error) {
+      console.error('🚨 Error storing emergency alert:', error);
+    }
+  }
+
+  getEmergencyAlert(): EmergencyAlert | null {
+    try {
+      const alert = this.storage.getItem(createKey('emergencyAlert'));
+      return alert ? JSON.parse(alert) : null;
+    } catch (error) {
+      console.error('🚨 Error getting emergency alert:', error);
+      return null;
+    }
+  }
+
+  setAdminSessions(sessions: AdminSession[]): void {
+    try {
+      this.storage.setItem(createKey('admin:sessions'), JSON.stringify(sessions));
+    } catch (error) {
+      console.error('🔐 Error storing admin sessions:', error);
+    }
+  }
+
+  getAdminSessions(): AdminSession[] {
+    try {
+      const sessions = this.storage.getItem(createKey('admin:sessions'));
+      return sessions ? JSON.parse(sessions) : [];
+    } catch (error) {
+      console.error('🔐 Error getting admin sessions:', error);
+      return [];
+    }
+  }
+
+  setApiTokens(tokens: StoredApiToken[]): void {
+    try {
+      this.storage.setItem(createKey('admin:apiTokens'), JSON.stringify(tokens));
+    } catch (error) {
+      console.error('🔑 Error storing API tokens:', error);
+    }
+  }
+
+  getApiTokens(): StoredApiToken[] {
+    try {
+      const tokens = this.storage.getItem(createKey('admin:apiTokens'));
+      return tokens ? JSON.parse(tokens) : [];
+    } catch (error) {
+      console.error('🔑 Error getting API tokens:', error);
+      return [];
+    }
+  }
+
+  // Displays keep the next day of events so they can run without the server
+  setEventWindow(displayId: string | undefined, eventWindow: EventWindow): void {
+    try {
+      this.storage.setItem(createKey(`offline:${displayId ?? 'all'}`), JSON.stringify(eventWindow));
+      console.log(`📦 Cached ${eventWindow.events.length} events until ${eventWindow.to}`);
+    } catch (error) {
+      console.error('📦 Error caching event window:', error);
+    }
+  }
+
+  getEventWindow(displayId: string | undefined): EventWindow | null {
+    try {
+      const eventWindow = this.storage.getItem(createKey(`offline:${displayId ?? 'all'}`));
+      return eventWindow ? JSON.parse(eventWindow) : null;
+    } catch (error) {
+      console.error('📦 Error getting event window:', error);
+      return null;
+    }
+  }
+
   // Health monitoring data
   getSystemHealth(): SystemHealth {
     try {
@@ -304,6 +477,15 @@ export class LocalStorage {
           }
         });
         usage = `${(totalSize / 1024).toFixed(2)} KB`;
+      } else if (this.storage.keys) {
+        storageType = this.storage.type || 'server';
+        keys.push(...this.storage.keys().filter(key => key.startsWith(STORAGE_PREFIX)));
+
+        let totalSize = 0;
+        keys.forEach(key => {
+          totalSize += key.length + (this.storage.getItem(key)?.length || 0);
+        });
+        usage = `${(totalSize / 1024).toFixed(2)} KB`;
       } else {
         storageType = 'memory';
         // For memory storage, we can't easily enumerate keys
@@ -0,0 +1,90 @@
+// lib/login-throttle.ts - Per-IP limit on failed admin logins
+import { Logger } from './logger';
+
+export interface LoginThrottleOptions {
+  maxFailures: number; // Failures within windowMs before the IP is locked out
+  windowMs: number;
+  lockoutMs: number;
+}
+
+interface AttemptRecord {
+  failures: number;
+  firstFailureAt: number;
+  lockedUntil?: number;
+}
+
+// Forget stale records once this many IPs are tracked
+const MAX_TRACKED_IPS = 1000;
+
+const DEFAULT_OPTIONS: LoginThrottleOptions = {
+  maxFailures: 5,
+  windowMs: 15 * 60 * 1000,
+  lockoutMs: 15 * 60 * 1000
+};
+
+/**
+ * Counts failed logins per IP in memory. After maxFailures within windowMs the IP is locked out
+ * for lockoutMs, even for the right password. A successful login resets the count.
+ */
+export class LoginThrottle {
+  private attempts = new Map<string, AttemptRecord>();
+
+  constructor(private options: LoginThrottleOptions = DEFAULT_OPTIONS) {}
+
+  // Seconds until the IP may try again, or 0 when it isn't locked out
+  getRetryAfterSeconds(ip: string, now: number = Date.now()): number {
+    const record = this.attempts.get(ip);
+    if (!record?.lockedUntil) return 0;
+
+    if (record.lockedUntil <= now) {
+      this.attempts.delete(ip);
+      return 0;
+    }
+    return Math.ceil((record.lockedUntil - now) / 1000);
+  }
+
+  /**
+   * Counts a login attempt as a failure before the password is checked, so parallel requests
+   * can't all pass the lockout check while the slow verify runs. Returns the seconds to wait
+   * when the IP is locked out (nothing is counted then); recordSuccess() clears the count.
+   */
+  reserveAttempt(ip: string, now: number = Date.now()): number {
+    const retryAfter = this.getRetryAfterSeconds(ip, now);
+    if (retryAfter > 0) return retryAfter;
+
+    this.recordFailure(ip, now);
+    return 0;
+  }
+
+  recordFailure(ip: string, now: number = Date.now()): void {
+    if (this.attempts.size >= MAX_TRACKED_IPS) this.prune(now);
+
+    let record = this.attempts.get(ip);
+    if (!record || now - record.firstFailureAt > this.options.windowMs) {
+      record = { failures: 0, firstFailureAt: now };
+      this.attempts.set(ip, record);
+    }
+
+    record.failures++;
+    if (record.failures >= this.options.maxFailures) {
+      record.lockedUntil = now + this.options.lockoutMs;
+      Logger.warn('LoginThrottle', `Locked out ${ip} after ${record.failures} failed logins`, {
+        lockedUntil: new Date(record.lockedUntil).toISOString()
+      });
+    }
+  }
+
+  recordSuccess(ip: string): void {
+    this.attempts.delete(ip);
+  }
+
+  private prune(now: number): void {
+    for (const [ip, record] of this.attempts) {
+      const expired = record.lockedUntil ? record.lockedUntil <= now : now - record.firstFailureAt > this.options.windowMs;
+      if (expired) this.attempts.delete(ip);
+    }
+  }
+}
+
+// Export singleton instance
+export const loginThrottle = new LoginThrottle();
@@ -0,0 +1,16 @@
+// lib/offline-status.ts - Display status computed on the display itself while the server is unreachable
+import { DisplayStatus, EventWindow } from '@/shared/types';
+import { buildDisplayStatus } from './status-calculator';
+
+/**
+ * The status for `now` from a cached event window. A mocked time stays frozen, as it does on
+ * the server. Past the end of the window events may be missing, so the status is marked degraded.
+ */
+export function computeOfflineStatus(eventWindow: EventWindow, now: Date = new Date()): DisplayStatus {
+  const currentTime = eventWindow.mockTime ? new Date(eventWindow.mockTime) : now;
+
+  return buildDisplayStatus(eventWindow.events, currentTime, {
+    mockTime: eventWindow.mockTime,
+    degraded: currentTime.getTime() >= new Date(eventWindow.to).getTime() || undefined
+  });
+}
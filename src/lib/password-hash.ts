@@ -0,0 +1,47 @@
+// lib/password-hash.ts - scrypt password hashes in a self-describing string format
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+// Parameters are stored in each hash, so they can be raised later without breaking old ones
+const COST = 16384;
+const BLOCK_SIZE = 8;
+const PARALLELISM = 1;
+const KEY_LENGTH = 32;
+
+function derive(password: string, salt: Buffer, cost: number, blockSize: number, parallelism: number, keyLength: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, { N: cost, r: blockSize, p: parallelism, maxmem: 256 * cost * blockSize }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+/**
+ * Hashes a password as `scrypt:N:r:p:<salt>:<hash>` (salt and hash base64). No `$`, so .env
+ * files don't try to expand it
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await derive(password, salt, COST, BLOCK_SIZE, PARALLELISM, KEY_LENGTH);
+  return ['scrypt', COST, BLOCK_SIZE, PARALLELISM, salt.toString('base64'), key.toString('base64')].join(':');
+}
+
+export function isPasswordHash(value: string): boolean {
+  return /^scrypt:\d+:\d+:\d+:[A-Za-z0-9+/=]+:[A-Za-z0-9+/=]+$/.test(value);
+}
+
+/**
+ * Checks a password against a hash from hashPassword() in constant time. Malformed hashes never match.
+ */
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  if (!isPasswordHash(hash)) return false;
+
+  const [, cost, blockSize, parallelism, salt, expected] = hash.split(':');
+  const expectedKey = Buffer.from(expected, 'base64');
+  try {
+    const key = await derive(password, Buffer.from(salt, 'base64'), Number(cost), Number(blockSize), Number(parallelism), expectedKey.length);
+    return timingSafeEqual(key, expectedKey);
+  } catch {
+    return false;
+  }
+}
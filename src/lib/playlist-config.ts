@@ -0,0 +1,50 @@
+// lib/playlist-config.ts - Persisted, admin-editable display playlist
+import { Playlist, PlaylistSlide } from '@/shared/types';
+import { LocalStorage } from './local-storage';
+import { serverStorage } from './server-storage';
+import { DEFAULT_PLAYLIST } from './playlist';
+import { Logger } from './logger';
+
+export class PlaylistConfig {
+  constructor(private storage: LocalStorage) {}
+
+  get(): Playlist {
+    return this.storage.getPlaylist() ?? DEFAULT_PLAYLIST;
+  }
+
+  isCustomized(): boolean {
+    return this.storage.getPlaylist() !== null;
+  }
+
+  /**
+   * Replaces the playlist (validate first with PlaylistEngine.validate)
+   */
+  save(input: Playlist): Playlist {
+    const playlist = pickPlaylist(input);
+    this.storage.setPlaylist(playlist);
+    Logger.info('PlaylistConfig', `Saved playlist: ${playlist.slides.map(s => s.id).join(', ')}`);
+    return playlist;
+  }
+
+  reset(): void {
+    this.storage.setPlaylist(null);
+  }
+}
+
+// Drops unknown fields sent by clients
+export function pickPlaylist(input: Playlist): Playlist {
+  return {
+    slides: input.slides.map(pickSlide),
+    rules: { pinLiveMinutes: input.rules.pinLiveMinutes }
+  };
+}
+
+function pickSlide({ id, type, durationSeconds, enabled, skipWhenEmpty }: PlaylistSlide): PlaylistSlide {
+  const slide: PlaylistSlide = { id, type, durationSeconds };
+  if (enabled !== undefined) slide.enabled = enabled;
+  if (skipWhenEmpty !== undefined) slide.skipWhenEmpty = skipWhenEmpty;
+  return slide;
+}
+
+// Export singleton instance
+export const playlistConfig = new PlaylistConfig(serverStorage);
@@ -0,0 +1,115 @@
+// lib/playlist.ts - Display playlist defaults, validation and slide selection.
+// No server imports: TVDisplay runs the same rules in the browser.
+import { Playlist, PlaylistSlide, SlideType } from '@/shared/types';
+
+export const SLIDE_TYPES: SlideType[] = ['live', 'agenda', 'week', 'announcements'];
+
+// Fallback when nothing else is playable, and the slide shown while the live view is pinned
+export const LIVE_SLIDE: PlaylistSlide = { id: 'live', type: 'live', durationSeconds: 30 };
+
+export const DEFAULT_PLAYLIST: Playlist = {
+  slides: [
+    { id: 'live', type: 'live', durationSeconds: 45 },
+    { id: 'agenda', type: 'agenda', durationSeconds: 20, skipWhenEmpty: true },
+    { id: 'week', type: 'week', durationSeconds: 20, skipWhenEmpty: true },
+    { id: 'announcements', type: 'announcements', durationSeconds: 15, skipWhenEmpty: true }
+  ],
+  rules: { pinLiveMinutes: 5 }
+};
+
+const ID_PATTERN = /^[a-z][a-z0-9-]{0,39}$/;
+const MAX_SLIDES = 20;
+
+export interface PlaylistContext {
+  now: Date;
+  currentEventStarts: string[]; // Start times of the events in progress
+  contentCounts: Partial<Record<SlideType, number>>; // Unknown counts are treated as non-empty
+}
+
+export class PlaylistEngine {
+  /**
+   * Returns a list of problems with a playlist; empty when it can be saved
+   */
+  static validate(input: unknown): string[] {
+    const errors: string[] = [];
+    const playlist = input as Partial<Playlist> | null;
+
+    if (!playlist || !Array.isArray(playlist.slides) || playlist.slides.length === 0) {
+      return ['slides must be a non-empty array'];
+    }
+    if (playlist.slides.length > MAX_SLIDES) errors.push(`A playlist can have at most ${MAX_SLIDES} slides`);
+
+    const ids = new Set<string>();
+    playlist.slides.forEach((slide: Partial<PlaylistSlide>, index) => {
+      const name = `slides[${index}]`;
+      if (typeof slide?.id !== 'string' || !ID_PATTERN.test(slide.id)) {
+        errors.push(`${name}.id must be lowercase letters, digits and dashes, starting with a letter`);
+      } else if (ids.has(slide.id)) {
+        errors.push(`${name}.id "${slide.id}" is used twice`);
+      } else {
+        ids.add(slide.id);
+      }
+      if (!SLIDE_TYPES.includes(slide?.type as SlideType)) {
+        errors.push(`${name}.type must be one of: ${SLIDE_TYPES.join(', ')}`);
+      }
+      if (typeof slide?.durationSeconds !== 'number' || slide.durationSeconds < 5 || slide.durationSeconds > 3600) {
+        errors.push(`${name}.durationSeconds must be between 5 and 3600`);
+      }
+      if (slide?.enabled !== undefined && typeof slide.enabled !== 'boolean') errors.push(`${name}.enabled must be true or false`);
+      if (slide?.skipWhenEmpty !== undefined && typeof slide.skipWhenEmpty !== 'boolean') {
+        errors.push(`${name}.skipWhenEmpty must be true or false`);
+      }
+    });
+
+    if (!playlist.slides.some(slide => slide?.enabled !== false)) errors.push('At least one slide must be enabled');
+
+    const pin = playlist.rules?.pinLiveMinutes;
+    if (typeof pin !== 'number' || pin < 0 || pin > 240) errors.push('rules.pinLiveMinutes must be between 0 and 240');
+
+    return errors;
+  }
+
+  /**
+   * True while an event started less than `rules.pinLiveMinutes` ago
+   */
+  static isLivePinned(playlist: Playlist, context: PlaylistContext): boolean {
+    const pinMs = playlist.rules.pinLiveMinutes * 60 * 1000;
+    if (pinMs <= 0) return false;
+
+    const now = context.now.getTime();
+    return context.currentEventStarts.some(start => {
+      const elapsed = now - new Date(start).getTime();
+      return elapsed >= 0 && elapsed < pinMs;
+    });
+  }
+
+  /**
+   * Enabled slides that have something to show, in playlist order
+   */
+  static getPlayableSlides(playlist: Playlist, context: PlaylistContext): PlaylistSlide[] {
+    return playlist.slides.filter(slide =>
+      slide.enabled !== false && !(slide.skipWhenEmpty && context.contentCounts[slide.type] === 0)
+    );
+  }
+
+  /**
+   * The slide to show after `currentId`: the live view while pinned, otherwise the next
+   * playable slide in order (wrapping around), or the live view if none are playable.
+   */
+  static getNextSlide(playlist: Playlist, context: PlaylistContext, currentId: string | null): PlaylistSlide {
+    const liveSlide = playlist.slides.find(slide => slide.type === 'live' && slide.enabled !== false) ?? LIVE_SLIDE;
+    if (this.isLivePinned(playlist, context)) return liveSlide;
+
+    const playable = this.getPlayableSlides(playlist, context);
+    if (playable.length === 0) return liveSlide;
+
+    const currentIndex = playlist.slides.findIndex(slide => slide.id === currentId);
+    if (currentIndex === -1) return playable[0];
+
+    for (let offset = 1; offset <= playlist.slides.length; offset++) {
+      const candidate = playlist.slides[(currentIndex + offset) % playlist.slides.length];
+      if (playable.includes(candidate)) return candidate;
+    }
+    return playable[0];
+  }
+}
@@ -0,0 +1,16 @@
+// lib/process-singleton.ts - One shared instance per server process
+/**
+ * Next bundles instrumentation.ts separately from the route handlers, so a module-level
+ * `new Thing()` can run once per bundle and leave each with its own copy. Pinning the instance
+ * on globalThis under a Symbol.for() key (the same symbol in every bundle) makes the first
+ * bundle to load create it and the others reuse it.
+ */
+export function processSingleton<T>(name: string, create: () => T): T {
+  const key = Symbol.for(`makerspace-display.${name}`);
+  const registry = globalThis as typeof globalThis & Record<symbol, T | undefined>;
+
+  if (registry[key] === undefined) {
+    registry[key] = create();
+  }
+  return registry[key] as T;
+}
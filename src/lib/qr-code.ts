@@ -0,0 +1,432 @@
+// lib/qr-code.ts - Dependency-free QR Code encoder (ISO/IEC 18004, byte mode) for on-screen links
+//
+// Follows the reference algorithm: pick the smallest version that fits, add Reed-Solomon error
+// correction per block, interleave, place the codewords and choose the mask with the lowest penalty.
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+const ECL_ORDINAL: Record<QrErrorCorrection, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const ECL_FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by [error correction ordinal][version]; index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK: number[][] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+];
+
+const NUM_ERROR_CORRECTION_BLOCKS: number[][] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+];
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+// Mask penalty weights
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+export class QrCode {
+  readonly size: number;
+  readonly mask: number;
+  private readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  private constructor(
+    readonly version: number,
+    readonly errorCorrection: QrErrorCorrection,
+    dataCodewords: number[]
+  ) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+
+    this.drawFunctionPatterns();
+    this.drawCodewords(this.addEccAndInterleave(dataCodewords));
+
+    // Try every mask and keep the one that is easiest to scan (lowest penalty)
+    let bestMask = 0;
+    let minPenalty = Infinity;
+    for (let mask = 0; mask < 8; mask++) {
+      this.applyMask(mask);
+      this.drawFormatBits(mask);
+      const penalty = this.getPenaltyScore();
+      if (penalty < minPenalty) {
+        bestMask = mask;
+        minPenalty = penalty;
+      }
+      this.applyMask(mask); // XOR again to undo
+    }
+    this.mask = bestMask;
+    this.applyMask(bestMask);
+    this.drawFormatBits(bestMask);
+  }
+
+  /**
+   * Encodes UTF-8 text in the smallest version that fits. Throws when the text is too long.
+   */
+  static encodeText(text: string, errorCorrection: QrErrorCorrection = 'M'): QrCode {
+    const bytes = Array.from(new TextEncoder().encode(text));
+
+    let version = MIN_VERSION;
+    for (; ; version++) {
+      if (version > MAX_VERSION) throw new Error(`Text too long for a QR code (${bytes.length} bytes)`);
+      const usedBits = 4 + charCountBits(version) + bytes.length * 8;
+      if (usedBits <= getNumDataCodewords(version, errorCorrection) * 8) break;
+    }
+
+    // Byte mode header, the data, then terminator and padding up to capacity
+    const bits: number[] = [];
+    appendBits(0x4, 4, bits);
+    appendBits(bytes.length, charCountBits(version), bits);
+    for (const byte of bytes) appendBits(byte, 8, bits);
+
+    const capacityBits = getNumDataCodewords(version, errorCorrection) * 8;
+    appendBits(0, Math.min(4, capacityBits - bits.length), bits);
+    appendBits(0, (8 - (bits.length % 8)) % 8, bits);
+    for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) appendBits(pad, 8, bits);
+
+    const dataCodewords = new Array<number>(bits.length / 8).fill(0);
+    bits.forEach((bit, i) => {
+      dataCodewords[i >>> 3] |= bit << (7 - (i & 7));
+    });
+
+    return new QrCode(version, errorCorrection, dataCodewords);
+  }
+
+  /**
+   * True for a dark module. Coordinates outside the symbol are light (the quiet zone).
+   */
+  getModule(x: number, y: number): boolean {
+    return x >= 0 && x < this.size && y >= 0 && y < this.size && this.modules[y][x];
+  }
+
+  /**
+   * A scalable SVG with `border` light modules of quiet zone on each side (4 per the spec)
+   */
+  toSvg(border = 4): string {
+    const dimension = this.size + border * 2;
+    const parts: string[] = [];
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.modules[y][x]) parts.push(`M${x + border},${y + border}h1v1h-1z`);
+      }
+    }
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" version="1.1" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">`,
+      `<rect width="100%" height="100%" fill="#ffffff"/>`,
+      `<path d="${parts.join('')}" fill="#000000"/>`,
+      `</svg>`
+    ].join('\n');
+  }
+
+  private drawFunctionPatterns(): void {
+    // Timing patterns
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns in three corners (also draws their separators)
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    // Alignment patterns, except where they would overlap the finders
+    const positions = this.getAlignmentPatternPositions();
+    const count = positions.length;
+    for (let i = 0; i < count; i++) {
+      for (let j = 0; j < count; j++) {
+        const overlapsFinder = (i === 0 && j === 0) || (i === 0 && j === count - 1) || (i === count - 1 && j === 0);
+        if (!overlapsFinder) this.drawAlignmentPattern(positions[i], positions[j]);
+      }
+    }
+
+    // Reserve the format areas (real bits are drawn once the mask is known)
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  private drawFormatBits(mask: number): void {
+    const data = (ECL_FORMAT_BITS[this.errorCorrection] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    // First copy, around the top-left finder
+    for (let i = 0; i <= 5; i++) this.setFunctionModule(8, i, getBit(bits, i));
+    this.setFunctionModule(8, 7, getBit(bits, 6));
+    this.setFunctionModule(8, 8, getBit(bits, 7));
+    this.setFunctionModule(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunctionModule(14 - i, 8, getBit(bits, i));
+
+    // Second copy, split between the other two finders
+    for (let i = 0; i < 8; i++) this.setFunctionModule(this.size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunctionModule(8, this.size - 15 + i, getBit(bits, i));
+    this.setFunctionModule(8, this.size - 8, true); // Always dark
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return;
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const bit = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, bit);
+      this.setFunctionModule(b, a, bit);
+    }
+  }
+
+  private drawFinderPattern(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private setFunctionModule(x: number, y: number, isDark: boolean): void {
+    this.modules[y][x] = isDark;
+    this.isFunction[y][x] = true;
+  }
+
+  private getAlignmentPatternPositions(): number[] {
+    if (this.version === 1) return [];
+
+    const count = Math.floor(this.version / 7) + 2;
+    const step = Math.floor((this.version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+    const positions = [6];
+    for (let position = this.size - 7; positions.length < count; position -= step) {
+      positions.splice(1, 0, position);
+    }
+    return positions;
+  }
+
+  // Splits the data into blocks, appends each block's error correction and interleaves them
+  private addEccAndInterleave(data: number[]): number[] {
+    const ecl = ECL_ORDINAL[this.errorCorrection];
+    const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecl][this.version];
+    const blockEccLength = ECC_CODEWORDS_PER_BLOCK[ecl][this.version];
+    const rawCodewords = Math.floor(getNumRawDataModules(this.version) / 8);
+    const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+    const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+    const divisor = reedSolomonDivisor(blockEccLength);
+    const blocks: number[][] = [];
+    for (let i = 0, k = 0; i < numBlocks; i++) {
+      const blockData = data.slice(k, k + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+      k += blockData.length;
+      const ecc = reedSolomonRemainder(blockData, divisor);
+      if (i < numShortBlocks) blockData.push(0); // Placeholder so all blocks line up
+      blocks.push(blockData.concat(ecc));
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+      blocks.forEach((block, j) => {
+        if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) result.push(block[i]);
+      });
+    }
+    return result;
+  }
+
+  // Zigzags up and down two-module columns from the bottom right, skipping function modules
+  private drawCodewords(data: number[]): void {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // Skip the vertical timing pattern
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  private applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskApplies(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  private getPenaltyScore(): number {
+    let result = 0;
+    const size = this.size;
+
+    // Runs of same-colored modules and finder-like patterns, in rows then columns
+    for (const horizontal of [true, false]) {
+      for (let a = 0; a < size; a++) {
+        let runColor = false;
+        let runLength = 0;
+        const runHistory = [0, 0, 0, 0, 0, 0, 0];
+        for (let b = 0; b < size; b++) {
+          const color = horizontal ? this.modules[a][b] : this.modules[b][a];
+          if (color === runColor) {
+            runLength++;
+            if (runLength === 5) result += PENALTY_N1;
+            else if (runLength > 5) result++;
+          } else {
+            this.finderPenaltyAddHistory(runLength, runHistory);
+            if (!runColor) result += this.finderPenaltyCountPatterns(runHistory) * PENALTY_N3;
+            runColor = color;
+            runLength = 1;
+          }
+        }
+        result += this.finderPenaltyTerminateAndCount(runColor, runLength, runHistory) * PENALTY_N3;
+      }
+    }
+
+    // 2x2 blocks of one color
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = this.modules[y][x];
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          result += PENALTY_N2;
+        }
+      }
+    }
+
+    // Balance of dark and light modules
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    result += k * PENALTY_N4;
+
+    return result;
+  }
+
+  private finderPenaltyCountPatterns(runHistory: number[]): number {
+    const n = runHistory[1];
+    const core = n > 0 && runHistory[2] === n && runHistory[3] === n * 3 && runHistory[4] === n && runHistory[5] === n;
+    return (core && runHistory[0] >= n * 4 && runHistory[6] >= n ? 1 : 0)
+      + (core && runHistory[6] >= n * 4 && runHistory[0] >= n ? 1 : 0);
+  }
+
+  private finderPenaltyTerminateAndCount(runColor: boolean, runLength: number, runHistory: number[]): number {
+    if (runColor) {
+      this.finderPenaltyAddHistory(runLength, runHistory);
+      runLength = 0;
+    }
+    runLength += this.size; // The light border after the last run
+    this.finderPenaltyAddHistory(runLength, runHistory);
+    return this.finderPenaltyCountPatterns(runHistory);
+  }
+
+  private finderPenaltyAddHistory(runLength: number, runHistory: number[]): void {
+    if (runHistory[0] === 0) runLength += this.size; // The light border before the first run
+    runHistory.pop();
+    runHistory.unshift(runLength);
+  }
+}
+
+function charCountBits(version: number): number {
+  return version <= 9 ? 8 : 16;
+}
+
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function getNumDataCodewords(version: number, errorCorrection: QrErrorCorrection): number {
+  const ecl = ECL_ORDINAL[errorCorrection];
+  return Math.floor(getNumRawDataModules(version) / 8)
+    - ECC_CODEWORDS_PER_BLOCK[ecl][version] * NUM_ERROR_CORRECTION_BLOCKS[ecl][version];
+}
+
+function appendBits(value: number, length: number, bits: number[]): void {
+  for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+}
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
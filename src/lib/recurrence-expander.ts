@@ -0,0 +1,260 @@
+// lib/recurrence-expander.ts - RRULE expansion for recurring calendar events
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdayRule {
+  weekday: number; // 0 = Sunday ... 6 = Saturday (matches Date#getUTCDay)
+  ordinal?: number; // e.g. 2 for "2TU", -1 for "-1FR"
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  untilIsDate?: boolean; // A date-only UNTIL is already a local day: never shift it by a time zone
+  byDay: WeekdayRule[];
+  byMonthDay: number[];
+  byMonth: number[]; // 1-12
+}
+
+const WEEKDAY_CODES: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on generated periods so a malformed rule can never spin forever
+const MAX_PERIODS = 5000;
+
+export class RecurrenceExpander {
+  /**
+   * Parses an RRULE value (e.g. "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10").
+   * Returns null for frequencies we don't support so callers can fall back to the master event.
+   */
+  static parseRule(rrule: string): RecurrenceRule | null {
+    const parts = Object.fromEntries(
+      rrule
+        .replace(/^RRULE:/i, '')
+        .split(';')
+        .map(part => part.split('='))
+        .filter(([key, value]) => key && value)
+        .map(([key, value]) => [key.toUpperCase(), value])
+    ) as Record<string, string>;
+
+    const freq = parts.FREQ?.toUpperCase();
+    if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+      return null;
+    }
+
+    const interval = parseInt(parts.INTERVAL || '1', 10);
+    const count = parts.COUNT ? parseInt(parts.COUNT, 10) : undefined;
+
+    const byDay: WeekdayRule[] = [];
+    for (const token of (parts.BYDAY || '').split(',').filter(Boolean)) {
+      const match = token.trim().toUpperCase().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (!match) continue;
+      byDay.push({
+        weekday: WEEKDAY_CODES[match[2]],
+        ordinal: match[1] ? parseInt(match[1], 10) : undefined
+      });
+    }
+
+    const byMonthDay = (parts.BYMONTHDAY || '')
+      .split(',')
+      .filter(Boolean)
+      .map(day => parseInt(day, 10))
+      .filter(day => !isNaN(day) && day !== 0);
+
+    const byMonth = (parts.BYMONTH || '')
+      .split(',')
+      .filter(Boolean)
+      .map(month => parseInt(month, 10))
+      .filter(month => month >= 1 && month <= 12);
+
+    return {
+      freq,
+      interval: isNaN(interval) || interval < 1 ? 1 : interval,
+      count: count !== undefined && !isNaN(count) ? count : undefined,
+      until: parts.UNTIL ? this.parseUntil(parts.UNTIL) : undefined,
+      untilIsDate: /^\d{8}$/.test(parts.UNTIL ?? '') || undefined,
+      byDay,
+      byMonthDay,
+      byMonth
+    };
+  }
+
+  /**
+   * Expands a rule into occurrence start times that fall inside [windowStart, windowEnd].
+   * COUNT is applied from DTSTART (per RFC 5545) before EXDATE exclusions are removed.
+   */
+  static expand(
+    rule: RecurrenceRule,
+    dtstart: Date,
+    windowStart: Date,
+    windowEnd: Date,
+    exdates: Date[] = []
+  ): Date[] {
+    const excluded = new Set(exdates.map(date => date.getTime()));
+    const occurrences: Date[] = [];
+    let generated = 0;
+
+    // Without COUNT earlier occurrences don't matter, so jump straight to the window
+    const firstPeriod = rule.count === undefined ? this.periodsBefore(rule, dtstart, windowStart) : 0;
+
+    for (let period = firstPeriod; period < firstPeriod + MAX_PERIODS; period++) {
+      const candidates = this.candidatesForPeriod(rule, dtstart, period);
+
+      for (const candidate of candidates) {
+        if (candidate < dtstart) continue;
+        if (rule.until && candidate > rule.until) return occurrences;
+        if (rule.count !== undefined && generated >= rule.count) return occurrences;
+        if (candidate > windowEnd) return occurrences;
+
+        generated++;
+        if (candidate >= windowStart && !excluded.has(candidate.getTime())) {
+          occurrences.push(candidate);
+        }
+      }
+    }
+
+    return occurrences;
+  }
+
+  private static candidatesForPeriod(rule: RecurrenceRule, dtstart: Date, period: number): Date[] {
+    const step = period * rule.interval;
+    const year = dtstart.getUTCFullYear();
+    const month = dtstart.getUTCMonth();
+    const day = dtstart.getUTCDate();
+
+    switch (rule.freq) {
+      case 'DAILY': {
+        const candidate = this.atTimeOf(dtstart, year, month, day + step);
+        if (rule.byDay.length && !rule.byDay.some(d => d.weekday === candidate.getUTCDay())) return [];
+        if (rule.byMonthDay.length && !this.matchesMonthDay(candidate, rule.byMonthDay)) return [];
+        if (rule.byMonth.length && !rule.byMonth.includes(candidate.getUTCMonth() + 1)) return [];
+        return [candidate];
+      }
+
+      case 'WEEKLY': {
+        // Weeks start on Monday (the RFC 5545 WKST default)
+        const offsetFromMonday = (dtstart.getUTCDay() + 6) % 7;
+        const weekdays = rule.byDay.length ? rule.byDay.map(d => d.weekday) : [dtstart.getUTCDay()];
+        return this.sorted(
+          Array.from(new Set(weekdays))
+            .map(weekday =>
+              this.atTimeOf(dtstart, year, month, day - offsetFromMonday + step * 7 + ((weekday + 6) % 7))
+            )
+            .filter(candidate => !rule.byMonth.length || rule.byMonth.includes(candidate.getUTCMonth() + 1))
+        );
+      }
+
+      case 'MONTHLY': {
+        const candidates = this.candidatesInMonth(rule, dtstart, year, month + step);
+        return rule.byMonth.length
+          ? candidates.filter(candidate => rule.byMonth.includes(candidate.getUTCMonth() + 1))
+          : candidates;
+      }
+
+      case 'YEARLY': {
+        // BYMONTH picks the months of the year; default is the month of DTSTART
+        const months = rule.byMonth.length ? rule.byMonth.map(m => m - 1) : [month];
+        return this.sorted(months.flatMap(m => this.candidatesInMonth(rule, dtstart, year + step, m)));
+      }
+    }
+  }
+
+  private static periodsBefore(rule: RecurrenceRule, dtstart: Date, windowStart: Date): number {
+    const elapsedMs = windowStart.getTime() - dtstart.getTime();
+    if (elapsedMs <= 0) return 0;
+
+    const elapsedMonths =
+      (windowStart.getUTCFullYear() - dtstart.getUTCFullYear()) * 12 +
+      (windowStart.getUTCMonth() - dtstart.getUTCMonth());
+
+    let elapsedUnits: number;
+    switch (rule.freq) {
+      case 'DAILY':
+        elapsedUnits = elapsedMs / DAY_MS;
+        break;
+      case 'WEEKLY':
+        elapsedUnits = elapsedMs / (7 * DAY_MS);
+        break;
+      case 'MONTHLY':
+        elapsedUnits = elapsedMonths;
+        break;
+      case 'YEARLY':
+        elapsedUnits = elapsedMonths / 12;
+        break;
+    }
+
+    // Step back one period so occurrences straddling the window start are still generated
+    return Math.max(0, Math.floor(elapsedUnits / rule.interval) - 1);
+  }
+
+  private static candidatesInMonth(rule: RecurrenceRule, dtstart: Date, year: number, month: number): Date[] {
+    // Normalise month overflow (e.g. month 14 -> February of next year)
+    const first = new Date(Date.UTC(year, month, 1));
+    const y = first.getUTCFullYear();
+    const m = first.getUTCMonth();
+    const daysInMonth = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+
+    let days: number[];
+    if (rule.byMonthDay.length) {
+      days = rule.byMonthDay.map(d => (d > 0 ? d : daysInMonth + d + 1));
+    } else if (rule.byDay.length) {
+      days = rule.byDay.flatMap(({ weekday, ordinal }) => {
+        const matching: number[] = [];
+        for (let d = 1; d <= daysInMonth; d++) {
+          if (new Date(Date.UTC(y, m, d)).getUTCDay() === weekday) matching.push(d);
+        }
+        if (ordinal === undefined) return matching;
+        const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        return picked !== undefined ? [picked] : [];
+      });
+    } else {
+      days = [dtstart.getUTCDate()];
+    }
+
+    return this.sorted(
+      Array.from(new Set(days))
+        .filter(d => d >= 1 && d <= daysInMonth)
+        .map(d => this.atTimeOf(dtstart, y, m, d))
+    );
+  }
+
+  private static matchesMonthDay(date: Date, byMonthDay: number[]): boolean {
+    const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    return byMonthDay.some(d => (d > 0 ? d : daysInMonth + d + 1) === date.getUTCDate());
+  }
+
+  private static atTimeOf(dtstart: Date, year: number, month: number, day: number): Date {
+    return new Date(Date.UTC(
+      year,
+      month,
+      day,
+      dtstart.getUTCHours(),
+      dtstart.getUTCMinutes(),
+      dtstart.getUTCSeconds()
+    ));
+  }
+
+  private static sorted(dates: Date[]): Date[] {
+    return dates.sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  private static parseUntil(value: string): Date | undefined {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+    if (!match) return undefined;
+    const [, y, m, d, h, min, s] = match;
+    if (h === undefined) {
+      // Date-only UNTIL is inclusive of the whole day
+      return new Date(Date.UTC(+y, +m - 1, +d, 23, 59, 59));
+    }
+    return new Date(Date.UTC(+y, +m - 1, +d, +h, +min, +s));
+  }
+
+  /**
+   * Per-instance suffix in the same compact form Google uses for instance ids (e.g. 20250811T090000Z)
+   */
+  static formatInstanceKey(date: Date): string {
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z').replace(/[-:]/g, '');
+  }
+}
@@ -0,0 +1,189 @@
+// lib/refresh-scheduler.ts - Keeps calendarCache warm independently of incoming requests
+import { ProcessedEvent } from '@/shared/types';
+import { Logger } from './logger';
+import { calendarCache } from './calendar-cache';
+import { calendarAggregator } from './calendar-aggregator';
+import { serverStorage } from './server-storage';
+import { AgeGroupDetector } from './age-group-detector';
+import { eventSnapshotStore } from './snapshot-store';
+import { processSingleton } from './process-singleton';
+
+export interface RefreshResult {
+  startedAt: string;
+  durationMs: number;
+  eventCount: number;
+}
+
+export interface CalendarEventsResult {
+  events: ProcessedEvent[];
+  fetchedAt: string | null; // when these events were fetched upstream
+  degraded: boolean; // true when the latest refresh failed and older data is being served
+}
+
+export interface RefreshSchedulerOptions {
+  intervalMs: number; // 0 disables the timer (manual/request-driven refreshes still work)
+  jitterMs: number;
+}
+
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000; // Well inside the 30 minute cache TTL
+const DEFAULT_JITTER_MS = 60 * 1000;
+
+/**
+ * Fetches every configured calendar and records the outcome. Shared by the scheduler and
+ * the request-driven fallback in /api/calendar/status so both go through calendarCache.refresh().
+ */
+export async function loadCalendarEvents(): Promise<ProcessedEvent[]> {
+  const storage = serverStorage;
+
+  Logger.info('RefreshScheduler', `Refreshing from ${calendarAggregator.getSourceCount()} calendar source(s)`);
+  const fetchResult = await calendarAggregator.fetchAll();
+  storage.storeFetchResult(fetchResult);
+
+  if (!fetchResult.success) {
+    throw new Error(`All calendar sources failed: ${fetchResult.errors.join('; ')}`);
+  }
+  if (fetchResult.errors.length > 0) {
+    console.warn(`⚠️ Partial calendar data: ${fetchResult.errors.join('; ')}`);
+  }
+
+  // Also store in localStorage for client-side fallback, and on disk for outages/restarts
+  await storage.storeEvents(fetchResult.events);
+  storage.storeAgeGroupStats(new AgeGroupDetector().analyzeEvents(fetchResult.events));
+  await eventSnapshotStore.save(fetchResult.events);
+  return fetchResult.events;
+}
+
+/**
+ * Events for the display, never failing while some last-known-good data exists:
+ * fresh cache -> stale cache (refreshing in the background) -> fresh fetch -> disk snapshot.
+ * Throws only when the fetch fails and there is no snapshot either.
+ */
+export async function getCalendarEvents(): Promise<CalendarEventsResult> {
+  let events: ProcessedEvent[];
+
+  try {
+    events = await calendarCache.getOrRefresh(loadCalendarEvents);
+  } catch (error) {
+    const snapshot = await eventSnapshotStore.load();
+    if (!snapshot) throw error;
+
+    Logger.warn('RefreshScheduler', `Calendar fetch failed, serving snapshot from ${snapshot.savedAt}`, {
+      eventCount: snapshot.events.length
+    });
+    // Seed the cache with the snapshot's original fetch time: it is served as stale data
+    // (with background refreshes) until a fetch succeeds
+    calendarCache.set(snapshot.events, new Date(snapshot.savedAt).getTime());
+    events = snapshot.events;
+  }
+
+  const cachedAt = calendarCache.getCachedAt();
+  return {
+    events,
+    fetchedAt: cachedAt ? new Date(cachedAt).toISOString() : null,
+    degraded: calendarCache.getLastRefreshError() !== null
+  };
+}
+
+export class RefreshScheduler {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private lastResult: RefreshResult | null = null;
+  private nextRunAt: number | null = null;
+
+  constructor(
+    private loader: () => Promise<ProcessedEvent[]>,
+    private options: RefreshSchedulerOptions
+  ) {}
+
+  static optionsFromEnv(env: Record<string, string | undefined> = process.env): RefreshSchedulerOptions {
+    const parse = (value: string | undefined, fallback: number) => {
+      const parsed = value === undefined || value === '' ? NaN : Number(value);
+      return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+    };
+
+    return {
+      intervalMs: parse(env.CALENDAR_REFRESH_INTERVAL_MS, DEFAULT_INTERVAL_MS),
+      jitterMs: parse(env.CALENDAR_REFRESH_JITTER_MS, DEFAULT_JITTER_MS)
+    };
+  }
+
+  /**
+   * Warms the cache immediately, then keeps refreshing on the configured interval.
+   * Calling start() again while running is a no-op.
+   */
+  start(): void {
+    if (this.isRunning()) return;
+
+    Logger.info('RefreshScheduler', 'Starting calendar refresh scheduler', { ...this.options });
+    this.refreshNow().catch(() => {
+      // Logged by calendarCache; the next tick retries
+    });
+
+    if (this.options.intervalMs > 0) {
+      this.scheduleNext();
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.nextRunAt = null;
+    Logger.info('RefreshScheduler', 'Stopped calendar refresh scheduler');
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Refreshes the cache now. Concurrent calls (timer, admin endpoint, cache-miss requests)
+   * share the same in-flight refresh.
+   */
+  async refreshNow(): Promise<RefreshResult> {
+    const startedAt = new Date();
+    const events = await calendarCache.refresh(this.loader);
+
+    this.lastResult = {
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      eventCount: events.length
+    };
+    Logger.info('RefreshScheduler', `Refreshed ${events.length} events in ${this.lastResult.durationMs}ms`);
+    return this.lastResult;
+  }
+
+  getStatus(): { running: boolean; nextRunAt: string | null; lastResult: RefreshResult | null } & RefreshSchedulerOptions {
+    return {
+      ...this.options,
+      running: this.isRunning(),
+      nextRunAt: this.nextRunAt ? new Date(this.nextRunAt).toISOString() : null,
+      lastResult: this.lastResult
+    };
+  }
+
+  private scheduleNext(): void {
+    // Jitter spreads refreshes so several displays/instances don't hit the calendar host together
+    const delay = this.options.intervalMs + Math.floor(Math.random() * (this.options.jitterMs + 1));
+    this.nextRunAt = Date.now() + delay;
+
+    this.timer = setTimeout(() => {
+      this.refreshNow()
+        .catch(() => {
+          // Logged by calendarCache; keep the schedule going
+        })
+        .finally(() => {
+          if (this.timer) this.scheduleNext();
+        });
+    }, delay);
+
+    // Never keep the process alive just for the refresh timer
+    this.timer.unref?.();
+  }
+}
+
+// Export singleton instance (started by instrumentation.ts, reported by /api/admin/refresh)
+export const refreshScheduler = processSingleton(
+  'refreshScheduler',
+  () => new RefreshScheduler(loadCalendarEvents, RefreshScheduler.optionsFromEnv())
+);
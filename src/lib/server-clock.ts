@@ -0,0 +1,57 @@
+// lib/server-clock.ts - Estimates how far the display's clock is from the server's
+const MAX_SAMPLES = 8;
+
+interface ClockSample {
+  offsetMs: number;
+  roundTripMs: number;
+}
+
+/**
+ * Displays run on TVs whose clocks can be minutes off. Each server timestamp is a sample: the
+ * server read its clock somewhere between sending the request and receiving the response, so
+ * the offset is measured against the midpoint. Among recent samples, the one with the shortest
+ * round trip is the most precise. Pushed messages have no round trip to measure, so they are
+ * only used until the first measured sample arrives.
+ */
+export class ServerClock {
+  private samples: ClockSample[] = [];
+  private pushedOffsetMs: number | null = null;
+
+  /**
+   * Records a server timestamp from a request/response pair.
+   */
+  sample(serverTime: string, requestedAt: number, receivedAt: number = Date.now()): void {
+    const server = new Date(serverTime).getTime();
+    if (!Number.isFinite(server) || receivedAt < requestedAt) return;
+
+    this.samples.push({
+      offsetMs: server - (requestedAt + receivedAt) / 2,
+      roundTripMs: receivedAt - requestedAt
+    });
+    // Keep only recent samples so drift is picked up
+    if (this.samples.length > MAX_SAMPLES) this.samples.shift();
+  }
+
+  /**
+   * Records a server timestamp pushed over the stream. Its one-way delay is unknown, so the
+   * latest one only stands in while there is no measured sample.
+   */
+  samplePushed(serverTime: string, receivedAt: number = Date.now()): void {
+    const server = new Date(serverTime).getTime();
+    if (Number.isFinite(server)) this.pushedOffsetMs = server - receivedAt;
+  }
+
+  // Milliseconds to add to the local clock to get the server's (0 until the first sample)
+  getOffsetMs(): number {
+    let best: ClockSample | null = null;
+    for (const sample of this.samples) {
+      if (!best || sample.roundTripMs <= best.roundTripMs) best = sample;
+    }
+    if (best) return Math.round(best.offsetMs);
+    return this.pushedOffsetMs !== null ? Math.round(this.pushedOffsetMs) : 0;
+  }
+
+  now(): Date {
+    return new Date(Date.now() + this.getOffsetMs());
+  }
+}
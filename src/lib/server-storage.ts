@@ -0,0 +1,7 @@
+// lib/server-storage.ts - One durable LocalStorage shared by every API route
+import { LocalStorage } from './local-storage';
+import { FileStorage } from './file-storage';
+import { getDataFilePath } from './data-dir';
+
+// Admin settings, fetch results, error history and stats persist in DATA_DIR/storage.json
+export const serverStorage = new LocalStorage(new FileStorage(getDataFilePath('storage.json')));
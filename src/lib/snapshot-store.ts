@@ -0,0 +1,65 @@
+// lib/snapshot-store.ts - Last-known-good event set persisted to disk
+import { promises as fs } from 'fs';
+import { ProcessedEvent } from '@/shared/types';
+import { Logger } from './logger';
+import { ensureDataDir, getDataFilePath } from './data-dir';
+
+export interface EventSnapshot {
+  savedAt: string; // when the events were fetched from the calendar sources
+  events: ProcessedEvent[];
+}
+
+/**
+ * Keeps the most recent successful fetch on disk so the display can keep showing it
+ * through upstream outages and server restarts
+ */
+export class SnapshotStore {
+  constructor(private fileName: string) {}
+
+  getPath(): string {
+    return getDataFilePath(this.fileName);
+  }
+
+  /**
+   * Writes to a temp file first and renames it over the snapshot, so a crash mid-write
+   * never leaves a truncated file behind
+   */
+  async save(events: ProcessedEvent[], savedAt: Date = new Date()): Promise<void> {
+    const snapshot: EventSnapshot = { savedAt: savedAt.toISOString(), events };
+    const target = this.getPath();
+    const temp = `${target}.${process.pid}.tmp`;
+
+    try {
+      await ensureDataDir();
+      await fs.writeFile(temp, JSON.stringify(snapshot), 'utf8');
+      await fs.rename(temp, target);
+      Logger.debug('SnapshotStore', `Saved ${events.length} events to ${target}`);
+    } catch (error) {
+      Logger.error('SnapshotStore', `Failed to save snapshot to ${target}`, {}, error as Error);
+      await fs.rm(temp, { force: true }).catch(() => {});
+    }
+  }
+
+  /**
+   * Returns null when there is no snapshot or it can't be read
+   */
+  async load(): Promise<EventSnapshot | null> {
+    const target = this.getPath();
+    try {
+      const snapshot = JSON.parse(await fs.readFile(target, 'utf8')) as EventSnapshot;
+      if (!Array.isArray(snapshot?.events) || isNaN(new Date(snapshot.savedAt).getTime())) {
+        Logger.warn('SnapshotStore', `Ignoring malformed snapshot at ${target}`);
+        return null;
+      }
+      return snapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        Logger.error('SnapshotStore', `Failed to read snapshot from ${target}`, {}, error as Error);
+      }
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const eventSnapshotStore = new SnapshotStore('events-snapshot.json');
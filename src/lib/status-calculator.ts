@@ -0,0 +1,229 @@
+// lib/status-calculator.ts - Pure DisplayStatus computation, shared by the server and offline displays
+import { DisplayStatus, EventInstants, ProcessedEvent, StatusTransition, StatusTransitionCause } from '@/shared/types';
+import { eventValidator } from './event-validator';
+import { TimeZoneUtils } from './timezone';
+
+// How long before the next event the display switches from "closed" to "between"
+const BETWEEN_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+export interface DisplayStatusOptions {
+  mockTime?: string;
+  dataAge?: number;
+  degraded?: boolean;
+}
+
+export function formatTimeRemaining(ms: number): string {
+  if (ms <= 0) return '0m';
+
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+}
+
+/**
+ * The display status for a set of events at a given time
+ */
+export function buildDisplayStatus(
+  events: ProcessedEvent[],
+  currentTime: Date,
+  options: DisplayStatusOptions = {}
+): DisplayStatus {
+  const { current, currentEvents, upcoming } = eventValidator.filterCurrentAndUpcoming(
+    events,
+    currentTime.toISOString()
+  );
+
+  let status: DisplayStatus['status'] = 'closed';
+  let displayTheme = 'closed';
+  let themeColor: string | undefined;
+  let timeRemaining: string | undefined;
+  let timeUntilNext: string | undefined;
+
+  // Concurrent sessions (different rooms) each get their own countdown
+  const timesRemaining: Record<string, string> = {};
+  for (const event of currentEvents) {
+    const endTime = TimeZoneUtils.parseEventDate(event.end);
+    timesRemaining[event.id] = formatTimeRemaining(endTime.getTime() - currentTime.getTime());
+  }
+
+  const eventTimes: Record<string, EventInstants> = {};
+  for (const event of upcoming.length > 0 ? [...currentEvents, upcoming[0]] : currentEvents) {
+    eventTimes[event.id] = {
+      start: TimeZoneUtils.parseEventDate(event.start).toISOString(),
+      end: TimeZoneUtils.parseEventDate(event.end).toISOString()
+    };
+  }
+
+  if (current) {
+    status = 'current';
+    displayTheme = current.ageGroup.group;
+    themeColor = current.ageGroup.color;
+    timeRemaining = timesRemaining[current.id];
+  }
+
+  if (upcoming.length > 0) {
+    const nextEvent = upcoming[0];
+    const startTime = TimeZoneUtils.parseEventDate(nextEvent.start);
+    const timeToStart = startTime.getTime() - currentTime.getTime();
+
+    if (status === 'closed' && timeToStart <= BETWEEN_WINDOW_MS) {
+      status = 'between';
+      displayTheme = nextEvent.ageGroup.group;
+      themeColor = nextEvent.ageGroup.color;
+    }
+    timeUntilNext = formatTimeRemaining(timeToStart);
+  }
+
+  return {
+    status,
+    currentTime: currentTime.toISOString(),
+    displayTheme,
+    themeColor,
+    timeRemaining,
+    timesRemaining: currentEvents.length > 0 ? timesRemaining : undefined,
+    timeUntilNext,
+    currentEvent: current,
+    currentEvents,
+    nextEvent: upcoming[0],
+    mockTime: options.mockTime,
+    dataAge: options.dataAge,
+    degraded: options.degraded,
+    eventTimes: Object.keys(eventTimes).length > 0 ? eventTimes : undefined
+  };
+}
+
+/**
+ * Moves a received status forward to `now` using only the events it carries (in progress and
+ * next), so countdowns tick and statuses flip at event boundaries between server updates.
+ * Whatever comes after the next event needs a fresh status. A mocked time never moves.
+ */
+export function projectDisplayStatus(status: DisplayStatus, now: Date): DisplayStatus {
+  const { eventTimes } = status;
+  if (status.mockTime || !eventTimes) return status;
+
+  const received = new Map<string, ProcessedEvent>();
+  for (const event of [...(status.currentEvents ?? []), ...(status.nextEvent ? [status.nextEvent] : [])]) {
+    if (eventTimes[event.id]) received.set(event.id, event);
+  }
+
+  // Compute on copies carrying the raw instants, then hand back the events as received
+  const timed = [...received.values()].map(event => ({ ...event, ...eventTimes[event.id] }));
+  const projected = buildDisplayStatus(timed, now, { dataAge: status.dataAge, degraded: status.degraded });
+  const restore = (event: ProcessedEvent) => received.get(event.id) ?? event;
+
+  return {
+    ...projected,
+    currentEvent: projected.currentEvent && restore(projected.currentEvent),
+    currentEvents: projected.currentEvents?.map(restore),
+    nextEvent: projected.nextEvent && restore(projected.nextEvent),
+    serverTime: status.serverTime
+  };
+}
+
+/**
+ * The next instant after `currentTime` at which the status flips: an event starting or
+ * ending, or the next event coming within the "between" window. Null when nothing is left.
+ */
+export function getNextStatusBoundary(events: ProcessedEvent[], currentTime: Date): Date | null {
+  return getNextInstantBoundary(
+    events.map(event => ({
+      start: TimeZoneUtils.parseEventDate(event.start).toISOString(),
+      end: TimeZoneUtils.parseEventDate(event.end).toISOString()
+    })),
+    currentTime
+  );
+}
+
+/**
+ * getNextStatusBoundary for a status's raw `eventTimes`, as used by clients
+ */
+export function getNextInstantBoundary(instants: EventInstants[], currentTime: Date): Date | null {
+  const now = currentTime.getTime();
+  let next = Infinity;
+
+  for (const instant of instants) {
+    const start = new Date(instant.start).getTime();
+    // Events stay current through their end instant (see filterCurrentAndUpcoming)
+    const end = new Date(instant.end).getTime() + 1;
+
+    for (const boundary of [start - BETWEEN_WINDOW_MS, start, end]) {
+      if (boundary > now && boundary < next) next = boundary;
+    }
+  }
+
+  return next === Infinity ? null : new Date(next);
+}
+
+/**
+ * Every change of what the display shows between `from` and `to` (exclusive of `from`), with
+ * the status that applies after each. Boundaries that change nothing on screen, like the next
+ * event coming within two hours while another is in progress, are skipped.
+ */
+export function buildStatusTimeline(
+  events: ProcessedEvent[],
+  from: Date,
+  to: Date,
+  options: DisplayStatusOptions = {},
+  maxTransitions = 500
+): { initial: DisplayStatus; transitions: StatusTransition[]; truncated: boolean } {
+  const initial = buildDisplayStatus(events, from, options);
+  const transitions: StatusTransition[] = [];
+  let previous = initial;
+  let boundary = getNextStatusBoundary(events, from);
+
+  while (boundary && boundary <= to) {
+    const status = buildDisplayStatus(events, boundary, options);
+    if (stateKey(status) !== stateKey(previous)) {
+      if (transitions.length === maxTransitions) {
+        return { initial, transitions, truncated: true };
+      }
+      transitions.push({ at: boundary.toISOString(), causes: causesAt(events, boundary, status), status });
+    }
+    previous = status;
+    boundary = getNextStatusBoundary(events, boundary);
+  }
+
+  return { initial, transitions, truncated: false };
+}
+
+// What a status puts on screen, ignoring the countdowns
+function stateKey(status: DisplayStatus): string {
+  return JSON.stringify([
+    status.status,
+    status.displayTheme,
+    (status.currentEvents ?? []).map(event => event.id),
+    status.nextEvent?.id
+  ]);
+}
+
+function causesAt(events: ProcessedEvent[], at: Date, status: DisplayStatus): StatusTransitionCause[] {
+  const time = at.getTime();
+  const causes: StatusTransitionCause[] = [];
+
+  for (const event of events) {
+    const start = TimeZoneUtils.parseEventDate(event.start).getTime();
+    const end = TimeZoneUtils.parseEventDate(event.end).getTime() + 1;
+    if (time === start) causes.push({ type: 'start', eventId: event.id });
+    if (time === end) causes.push({ type: 'end', eventId: event.id });
+    if (time === start - BETWEEN_WINDOW_MS && status.status === 'between') {
+      causes.push({ type: 'between', eventId: event.id });
+    }
+  }
+  if (status.status === 'closed') causes.push({ type: 'closed' });
+
+  return causes;
+}
+
+/**
+ * Two statuses that differ only in when they were computed render the same display
+ */
+export function isSameDisplayStatus(a: DisplayStatus, b: DisplayStatus): boolean {
+  const comparable = (status: DisplayStatus) =>
+    JSON.stringify({ ...status, currentTime: undefined, dataAge: undefined, serverTime: undefined });
+  return comparable(a) === comparable(b);
+}
@@ -0,0 +1,43 @@
+// lib/status-notifier.ts - In-process signal that the display status may have changed
+import { Logger } from './logger';
+import { processSingleton } from './process-singleton';
+
+export type StatusChangeListener = (reason: string) => void;
+
+/**
+ * Lets open display streams react to cache refreshes and admin changes right away
+ * instead of waiting for their next timer
+ */
+export class StatusNotifier {
+  private listeners = new Set<StatusChangeListener>();
+
+  /**
+   * Returns a function that removes the listener again
+   */
+  subscribe(listener: StatusChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  notify(reason: string): void {
+    if (this.listeners.size === 0) return;
+
+    Logger.debug('StatusNotifier', `Status may have changed (${reason}), notifying ${this.listeners.size} stream(s)`);
+    for (const listener of this.listeners) {
+      try {
+        listener(reason);
+      } catch (error) {
+        Logger.error('StatusNotifier', 'Status listener failed', { reason }, error as Error);
+      }
+    }
+  }
+
+  getListenerCount(): number {
+    return this.listeners.size;
+  }
+}
+
+// Export singleton instance (shared by the instrumentation and route handler bundles)
+export const statusNotifier = processSingleton('statusNotifier', () => new StatusNotifier());
@@ -0,0 +1,122 @@
+// lib/status-stream.ts - Pushes DisplayStatus changes to one connected display (Server-Sent Events)
+import { DisplayStatus } from '@/shared/types';
+import { loadDisplayStatus, DisplayStatusSnapshot } from './display-status';
+import { getNextStatusBoundary, isSameDisplayStatus } from './status-calculator';
+import { statusNotifier, StatusNotifier } from './status-notifier';
+import { Logger } from './logger';
+
+export type StatusStreamEvent = 'status' | 'heartbeat';
+export type StatusStreamSend = (event: StatusStreamEvent, data: unknown) => void;
+
+export interface StatusStreamOptions {
+  heartbeatMs: number;
+}
+
+// Under the ~30-60s idle timeouts of common proxies; clients treat a longer silence as a dead connection
+export const DEFAULT_HEARTBEAT_MS = 25 * 1000;
+
+/**
+ * Formats one Server-Sent Events message
+ */
+export function formatServerSentEvent(event: StatusStreamEvent, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Recomputes the status when an event starts or ends, on every minute (countdowns) and when
+ * statusNotifier fires, and sends it only when it differs from what the display already has
+ */
+export class DisplayStatusStream {
+  private lastSent: DisplayStatus | null = null;
+  private updateTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private updating: Promise<void> | null = null;
+  private updateAgain = false;
+  private stopped = false;
+
+  constructor(
+    private send: StatusStreamSend,
+    private load: () => Promise<DisplayStatusSnapshot> = loadDisplayStatus,
+    private notifier: StatusNotifier = statusNotifier,
+    private options: StatusStreamOptions = { heartbeatMs: DEFAULT_HEARTBEAT_MS }
+  ) {}
+
+  start(): Promise<void> {
+    this.unsubscribe = this.notifier.subscribe(reason => {
+      this.update(reason);
+    });
+    this.heartbeatTimer = setInterval(() => {
+      this.send('heartbeat', { time: new Date().toISOString() });
+    }, this.options.heartbeatMs);
+
+    return this.update('connected');
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.updateTimer) clearTimeout(this.updateTimer);
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.updateTimer = null;
+    this.heartbeatTimer = null;
+  }
+
+  /**
+   * Recomputes and sends the status if it changed. Overlapping calls are coalesced into one rerun.
+   */
+  update(reason: string): Promise<void> {
+    if (this.updating) {
+      this.updateAgain = true;
+      return this.updating;
+    }
+
+    this.updating = this.run(reason).finally(() => {
+      this.updating = null;
+      if (this.updateAgain && !this.stopped) {
+        this.updateAgain = false;
+        this.update('coalesced');
+      }
+    });
+    return this.updating;
+  }
+
+  private async run(reason: string): Promise<void> {
+    let snapshot: DisplayStatusSnapshot | null = null;
+
+    try {
+      snapshot = await this.load();
+      if (this.stopped) return;
+
+      if (!this.lastSent || !isSameDisplayStatus(this.lastSent, snapshot.status)) {
+        Logger.debug('StatusStream', `Sending status ${snapshot.status.status} (${reason})`);
+        this.send('status', snapshot.status);
+        this.lastSent = snapshot.status;
+      }
+    } catch (error) {
+      // The display keeps what it has; the next timer or notification retries
+      Logger.warn('StatusStream', `Failed to compute display status (${reason})`, {}, error as Error);
+    } finally {
+      if (!this.stopped) this.scheduleNext(snapshot);
+    }
+  }
+
+  private scheduleNext(snapshot: DisplayStatusSnapshot | null): void {
+    if (this.updateTimer) clearTimeout(this.updateTimer);
+
+    // Countdowns are shown in whole minutes, so recompute just after each minute turns over
+    const now = Date.now();
+    let delay = 60000 - (now % 60000) + 50;
+
+    // A mocked time stands still, so its boundaries never arrive on their own
+    if (snapshot && !snapshot.status.mockTime) {
+      const boundary = getNextStatusBoundary(snapshot.events, new Date(snapshot.status.currentTime));
+      if (boundary) delay = Math.min(delay, Math.max(0, boundary.getTime() - now));
+    }
+
+    this.updateTimer = setTimeout(() => {
+      this.update('timer');
+    }, delay);
+  }
+}
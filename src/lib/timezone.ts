@@ -0,0 +1,252 @@
+// lib/timezone.ts - Time zone resolution for iCal DTSTART/DTEND values
+import { RecurrenceExpander } from './recurrence-expander';
+
+/**
+ * Converts between UTC instants and "wall clock" times in some zone.
+ * Wall clock times are represented as Dates whose UTC fields hold the local time.
+ */
+export interface ZoneResolver {
+  readonly id: string;
+  offsetAt(instant: Date): number; // minutes east of UTC
+}
+
+interface Observance {
+  start: Date; // wall clock time in the offset that applied before this observance
+  offsetFrom: number;
+  offsetTo: number;
+  rrule?: string;
+}
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * IANA zone resolved through the runtime's Intl data
+ */
+class IntlZone implements ZoneResolver {
+  constructor(readonly id: string) {}
+
+  offsetAt(instant: Date): number {
+    return TimeZoneUtils.getOffsetMinutes(instant, this.id);
+  }
+}
+
+/**
+ * Zone described by a VTIMEZONE block in the feed (used for non-IANA TZIDs such as
+ * "Central Standard Time" that Outlook/Exchange exports)
+ */
+export class VTimeZone implements ZoneResolver {
+  constructor(readonly id: string, private observances: Observance[]) {}
+
+  /**
+   * Extracts every VTIMEZONE block from unfolded iCal lines
+   */
+  static parseAll(lines: string[]): VTimeZone[] {
+    const zones: VTimeZone[] = [];
+    let tzid: string | null = null;
+    let observances: Observance[] = [];
+    let current: Partial<Observance> | null = null;
+
+    for (const line of lines) {
+      if (line.startsWith('BEGIN:VTIMEZONE')) {
+        tzid = null;
+        observances = [];
+      } else if (line.startsWith('END:VTIMEZONE')) {
+        if (tzid && observances.length > 0) zones.push(new VTimeZone(tzid, observances));
+        tzid = null;
+      } else if (line.startsWith('BEGIN:STANDARD') || line.startsWith('BEGIN:DAYLIGHT')) {
+        current = {};
+      } else if ((line.startsWith('END:STANDARD') || line.startsWith('END:DAYLIGHT')) && current) {
+        if (current.start && current.offsetFrom !== undefined && current.offsetTo !== undefined) {
+          observances.push(current as Observance);
+        }
+        current = null;
+      } else {
+        const separatorIndex = line.indexOf(':');
+        if (separatorIndex === -1) continue;
+        const key = line.substring(0, separatorIndex);
+        const value = line.substring(separatorIndex + 1).trim();
+
+        if (current) {
+          if (key.startsWith('DTSTART')) current.start = TimeZoneUtils.parseWallClock(value) ?? undefined;
+          if (key.startsWith('TZOFFSETFROM')) current.offsetFrom = TimeZoneUtils.parseUtcOffset(value);
+          if (key.startsWith('TZOFFSETTO')) current.offsetTo = TimeZoneUtils.parseUtcOffset(value);
+          if (key.startsWith('RRULE')) current.rrule = value;
+        } else if (key === 'TZID') {
+          tzid = value;
+        }
+      }
+    }
+
+    return zones;
+  }
+
+  offsetAt(instant: Date): number {
+    let latestOnset = -Infinity;
+    let offset: number | null = null;
+
+    for (const observance of this.observances) {
+      const onset = this.latestOnsetBefore(observance, instant);
+      if (onset !== null && onset > latestOnset) {
+        latestOnset = onset;
+        offset = observance.offsetTo;
+      }
+    }
+
+    if (offset !== null) return offset;
+
+    // Instant precedes every observance: use the offset in force before the earliest one
+    const earliest = [...this.observances].sort((a, b) => a.start.getTime() - b.start.getTime())[0];
+    return earliest.offsetFrom;
+  }
+
+  private latestOnsetBefore(observance: Observance, instant: Date): number | null {
+    const toUtc = (wall: Date) => wall.getTime() - observance.offsetFrom * 60000;
+
+    const rule = observance.rrule ? RecurrenceExpander.parseRule(observance.rrule) : null;
+    if (!rule) {
+      const onset = toUtc(observance.start);
+      return onset <= instant.getTime() ? onset : null;
+    }
+
+    // Onsets repeat at most yearly, so a 13-month look-back always finds the latest one
+    const windowStart = new Date(instant.getTime() - 400 * 24 * 60 * 60 * 1000);
+    const windowEnd = new Date(instant.getTime() + 24 * 60 * 60 * 1000);
+    const onsets = RecurrenceExpander.expand(rule, observance.start, windowStart, windowEnd)
+      .map(toUtc)
+      .filter(onset => onset <= instant.getTime());
+
+    if (onsets.length > 0) return onsets[onsets.length - 1];
+    const first = toUtc(observance.start);
+    return first <= instant.getTime() && !rule.until ? first : null;
+  }
+}
+
+export class TimeZoneUtils {
+  static readonly UTC: ZoneResolver = { id: 'UTC', offsetAt: () => 0 };
+
+  /**
+   * The makerspace's local zone, used for floating times and for "today"/"this week" boundaries
+   */
+  static getMakerspaceTimeZone(): string {
+    const configured = process.env.NEXT_PUBLIC_TIME_ZONE;
+    return configured && this.isValidTimeZone(configured) ? configured : 'UTC';
+  }
+
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      this.getFormatter(timeZone);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Returns a resolver for a TZID, preferring Intl's IANA data and falling back to the feed's VTIMEZONEs
+   */
+  static resolveZone(tzid: string | undefined, vtimezones: VTimeZone[] = []): ZoneResolver | null {
+    if (!tzid) return null;
+    const cleaned = tzid.replace(/^"|"$/g, '').replace(/^\//, '');
+    if (/^(UTC|GMT|Z|Etc\/UTC)$/i.test(cleaned)) return this.UTC;
+    if (this.isValidTimeZone(cleaned)) return new IntlZone(cleaned);
+    return vtimezones.find(zone => zone.id === cleaned) ?? null;
+  }
+
+  /**
+   * Offset of an IANA zone at a given instant, in minutes east of UTC
+   */
+  static getOffsetMinutes(instant: Date, timeZone: string): number {
+    const parts = this.getFormatter(timeZone).formatToParts(instant);
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'));
+    return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+  }
+
+  /**
+   * Converts a wall clock time in the given zone to the UTC instant it denotes.
+   * Nonexistent local times (spring-forward gap) resolve to the later offset, matching RFC 5545.
+   */
+  static wallClockToUtc(wall: Date, zone: ZoneResolver): Date {
+    const firstGuess = wall.getTime() - zone.offsetAt(wall) * 60000;
+    const offset = zone.offsetAt(new Date(firstGuess));
+    const secondGuess = wall.getTime() - offset * 60000;
+    const finalOffset = zone.offsetAt(new Date(secondGuess));
+    return new Date(wall.getTime() - finalOffset * 60000);
+  }
+
+  static utcToWallClock(instant: Date, zone: ZoneResolver): Date {
+    return new Date(instant.getTime() + zone.offsetAt(instant) * 60000);
+  }
+
+  /**
+   * Parses "YYYYMMDDTHHMMSS" (optionally with trailing Z) into a wall clock Date
+   */
+  static parseWallClock(value: string): Date | null {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?)?/);
+    if (!match) return null;
+    const [, y, m, d, h = '0', min = '0', s = '0'] = match;
+    return new Date(Date.UTC(+y, +m - 1, +d, +h, +min, +s));
+  }
+
+  /**
+   * Parses a TZOFFSETFROM/TZOFFSETTO value such as "-0500" or "+0530" into minutes
+   */
+  static parseUtcOffset(value: string): number {
+    const match = value.match(/^([+-])(\d{2})(\d{2})/);
+    if (!match) return 0;
+    const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+    return match[1] === '-' ? -minutes : minutes;
+  }
+
+  static isDateOnly(value: string): boolean {
+    return DATE_ONLY_PATTERN.test(value);
+  }
+
+  /**
+   * Resolves a ProcessedEvent start/end string to an instant. Floating all-day dates
+   * ("2025-08-11") are interpreted as local midnight in the makerspace's zone.
+   */
+  static parseEventDate(value: string, timeZone: string = this.getMakerspaceTimeZone()): Date {
+    if (!this.isDateOnly(value)) return new Date(value);
+    const zone = this.resolveZone(timeZone) ?? this.UTC;
+    return this.wallClockToUtc(new Date(`${value}T00:00:00Z`), zone);
+  }
+
+  /**
+   * The local calendar day containing `instant`: its "YYYY-MM-DD" date and the UTC instants
+   * of its start and end (midnight to midnight, so 23 or 25 hours long on DST change days)
+   */
+  static getLocalDayBounds(
+    instant: Date,
+    timeZone: string = this.getMakerspaceTimeZone()
+  ): { date: string; start: Date; end: Date } {
+    const zone = this.resolveZone(timeZone) ?? this.UTC;
+    const wall = this.utcToWallClock(instant, zone);
+    const midnight = Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate());
+
+    return {
+      date: new Date(midnight).toISOString().slice(0, 10),
+      start: this.wallClockToUtc(new Date(midnight), zone),
+      end: this.wallClockToUtc(new Date(midnight + 24 * 60 * 60 * 1000), zone)
+    };
+  }
+
+  private static getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatterCache.get(timeZone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+      });
+      formatterCache.set(timeZone, formatter);
+    }
+    return formatter;
+  }
+}